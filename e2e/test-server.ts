@@ -6,6 +6,8 @@
  *   GET /with-headers  – Returns a response with known headers for testing response modifications
  *   GET /              – Simple HTML page for navigation tests
  *   GET /alt           – Alternative page (different path for URL filter testing)
+ *   GET /subscription.json – Native export for profile subscriptions; `?version=2` changes its header value
+ *   GET /not-an-export.json – JSON that is not an export, for subscription errors
  */
 
 const PORT = Number(process.env.TEST_SERVER_PORT) || 3456
@@ -59,6 +61,45 @@ const server = Bun.serve({
       )
     }
 
+    if (url.pathname === '/subscription.json') {
+      const version = url.searchParams.get('version') ?? '1'
+      const exported = {
+        version: 1,
+        profiles: [
+          {
+            id: 'team-profile',
+            name: 'Team',
+            color: '#0ea5e9',
+            enabled: true,
+            headers: [
+              {
+                id: 'team-header',
+                enabled: true,
+                name: 'X-Team',
+                value: `from-subscription-v${version}`,
+                comment: '',
+                type: 'request',
+                operation: 'set',
+              },
+            ],
+            urlFilters: [],
+            createdAt: 0,
+            updatedAt: 0,
+          },
+        ],
+        exportedAt: 0,
+      }
+      return new Response(JSON.stringify(exported), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    }
+
+    if (url.pathname === '/not-an-export.json') {
+      return new Response(JSON.stringify({ hello: 'world' }), {
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      })
+    }
+
     if (url.pathname === '/alt') {
       return new Response(
         '<html><head><title>Alt Page</title></head><body><h1>Alternative Page</h1></body></html>',
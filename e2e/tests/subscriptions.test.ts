@@ -0,0 +1,103 @@
+import type { Worker } from '@playwright/test'
+import type { AppState, SubscriptionStatus } from '../../src/types'
+import {
+  test,
+  expect,
+  makeProfile,
+  makeState,
+  injectState,
+  navigateAndWaitForRules,
+  fetchEchoHeaders,
+} from '../fixtures'
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Profile subscriptions, pulled from the test server
+// ──────────────────────────────────────────────────────────────────────────────
+
+const SUBSCRIPTION_ID = 'test-subscription'
+
+async function readStoredState(background: Worker): Promise<AppState> {
+  return await background.evaluate(async () => {
+    return (await chrome.storage.local.get('openheaders_state')).openheaders_state as AppState
+  })
+}
+
+async function readSubscriptionStatus(background: Worker): Promise<SubscriptionStatus | undefined> {
+  return await background.evaluate(async (subscriptionId) => {
+    const result = await chrome.storage.local.get('openheaders_subscription_status')
+    return (result.openheaders_subscription_status as Record<string, SubscriptionStatus> | undefined)?.[subscriptionId]
+  }, SUBSCRIPTION_ID)
+}
+
+function withSubscription(url: string): AppState {
+  return {
+    ...makeState([makeProfile({ name: 'Local' })]),
+    subscriptions: [{ id: SUBSCRIPTION_ID, url, createdAt: Date.now() }],
+  }
+}
+
+async function waitForSubscribedProfile(background: Worker) {
+  await expect.poll(async () => {
+    const state = await readStoredState(background)
+    return state.profiles.find(p => p.subscriptionId === SUBSCRIPTION_ID)?.name
+  }, { timeout: 10000 }).toBe('Team')
+  const state = await readStoredState(background)
+  return { state, profile: state.profiles.find(p => p.subscriptionId === SUBSCRIPTION_ID)! }
+}
+
+test.describe('Subscriptions', () => {
+  test('pulls subscribed profiles disabled and applies them once enabled', async ({ background, testPage, testServerUrl }) => {
+    await injectState(background, withSubscription(`${testServerUrl}/subscription.json`))
+
+    const { state, profile } = await waitForSubscribedProfile(background)
+    expect(profile.enabled).toBe(false)
+    expect(state.profiles.map(p => p.name)).toEqual(['Local', 'Team'])
+    const status = await readSubscriptionStatus(background)
+    expect(status?.error).toBeNull()
+    expect(status?.profileCount).toBe(1)
+
+    await injectState(background, {
+      ...state,
+      profiles: state.profiles.map(p => ({ ...p, enabled: p.id === profile.id })),
+    })
+    await navigateAndWaitForRules(testPage, testServerUrl, background)
+
+    const headers = await fetchEchoHeaders(testPage, testServerUrl)
+    expect(headers['x-team']).toBe('from-subscription-v1')
+  })
+
+  test('updates a subscribed profile in place when the file changes', async ({ background, context, extensionId, testServerUrl }) => {
+    await injectState(background, withSubscription(`${testServerUrl}/subscription.json`))
+    const { state, profile } = await waitForSubscribedProfile(background)
+
+    await injectState(background, {
+      ...state,
+      profiles: state.profiles.map(p => (p.id === profile.id ? { ...p, enabled: true } : p)),
+      subscriptions: [{ id: SUBSCRIPTION_ID, url: `${testServerUrl}/subscription.json?version=2`, createdAt: Date.now() }],
+    })
+
+    // Same as the popup's Refresh now button
+    const popup = await context.newPage()
+    await popup.goto(`chrome-extension://${extensionId}/index.html`)
+    await popup.evaluate(() => chrome.runtime.sendMessage({ type: 'REFRESH_SUBSCRIPTIONS' }))
+    await popup.close()
+
+    await expect.poll(async () => {
+      const updated = (await readStoredState(background)).profiles.find(p => p.subscriptionId === SUBSCRIPTION_ID)
+      return updated?.headers[0]?.value
+    }, { timeout: 10000 }).toBe('from-subscription-v2')
+
+    const updated = (await readStoredState(background)).profiles.find(p => p.subscriptionId === SUBSCRIPTION_ID)
+    expect(updated?.id).toBe(profile.id)
+    expect(updated?.enabled).toBe(true)
+  })
+
+  test('reports a file that is not an export and keeps the profiles', async ({ background, testServerUrl }) => {
+    await injectState(background, withSubscription(`${testServerUrl}/not-an-export.json`))
+
+    await expect.poll(async () => (await readSubscriptionStatus(background))?.error, { timeout: 10000 })
+      .toBe('invalid_format')
+    const state = await readStoredState(background)
+    expect(state.profiles.map(p => p.name)).toEqual(['Local'])
+  })
+})
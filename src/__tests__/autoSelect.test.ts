@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import type { AppState, Profile, UrlFilter } from '@/types'
+import { pickAutoProfile } from '@/lib/autoSelect'
+
+const filter = (pattern: string, overrides: Partial<UrlFilter> = {}): UrlFilter => ({
+  id: pattern,
+  type: 'include',
+  matchType: 'host_equals',
+  pattern,
+  enabled: true,
+  ...overrides,
+})
+
+const createProfile = (id: string, urlFilters: UrlFilter[], overrides: Partial<Profile> = {}): Profile => ({
+  id,
+  name: id,
+  color: '#7c3aed',
+  enabled: true,
+  headers: [],
+  urlFilters,
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+})
+
+const state = (profiles: Profile[]): Pick<AppState, 'profiles' | 'activeProfileId'> => ({
+  profiles,
+  activeProfileId: profiles[0]?.id ?? null,
+})
+
+describe('autoSelect', () => {
+  describe('pickAutoProfile', () => {
+    it('picks the profile whose tab filters match the URL', () => {
+      const staging = createProfile('staging', [filter('staging.example.com')])
+      const prod = createProfile('prod', [filter('example.com')])
+
+      expect(pickAutoProfile(state([staging, prod]), 'https://example.com/a')?.id).toBe('prod')
+      expect(pickAutoProfile(state([staging, prod]), 'https://staging.example.com/a')?.id).toBe('staging')
+      expect(pickAutoProfile(state([staging, prod]), 'https://other.test/')).toBeNull()
+    })
+
+    it('breaks ties by profile order', () => {
+      const first = createProfile('first', [filter('example.com', { matchType: 'host_ends_with' })])
+      const second = createProfile('second', [filter('app.example.com')])
+
+      expect(pickAutoProfile(state([first, second]), 'https://app.example.com/')?.id).toBe('first')
+      expect(pickAutoProfile(state([second, first]), 'https://app.example.com/')?.id).toBe('second')
+    })
+
+    it('ignores profiles that do not name a site or whose schedule has ended', () => {
+      const everywhere = createProfile('everywhere', [])
+      const requestOnly = createProfile('request', [filter('example.com', { target: 'request' })])
+      const excludeOnly = createProfile('exclude', [filter('other.test', { type: 'exclude' })])
+      const expired = createProfile('expired', [filter('example.com')], { enabled: false, schedule: { expiresAt: 1 } })
+      const profiles = [everywhere, requestOnly, excludeOnly, expired]
+
+      expect(pickAutoProfile(state(profiles), 'https://example.com/', 1000)).toBeNull()
+    })
+
+    it('picks a matching profile that is off, so it can be switched on', () => {
+      const staging = createProfile('staging', [filter('staging.example.com')])
+      const prod = createProfile('prod', [filter('example.com')], { enabled: false })
+
+      expect(pickAutoProfile(state([staging, prod]), 'https://example.com/')?.id).toBe('prod')
+    })
+
+    it('prefers an applied profile over one that is off', () => {
+      const off = createProfile('off', [filter('example.com')], { enabled: false })
+      const on = createProfile('on', [filter('example.com')])
+
+      expect(pickAutoProfile(state([off, on]), 'https://example.com/')?.id).toBe('on')
+    })
+
+    it('only picks for web pages', () => {
+      const profile = createProfile('p1', [filter('example.com')])
+
+      expect(pickAutoProfile(state([profile]), 'chrome://extensions')).toBeNull()
+      expect(pickAutoProfile(state([profile]), undefined)).toBeNull()
+    })
+  })
+})
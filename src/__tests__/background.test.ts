@@ -1,6 +1,15 @@
 import { describe, it, expect } from 'vitest'
 import type { AppState, Profile, HeaderRule } from '@/types'
 import { isProfileEnabledForTabUrl } from '@/lib/urlFilters'
+import {
+  buildSessionRules,
+  createRuleIdAllocator,
+  getEnabledHeadersForUrl,
+  getNextScheduleRebuild,
+  getShortestScheduleRemainingMs,
+  hasDynamicHeaderValues,
+  summarizeSessionRules,
+} from '@/background/rules'
 
 // We need to test the background script logic without Chrome APIs
 // So we recreate and test the pure logic and rule shape
@@ -425,4 +434,481 @@ describe('Background Script Logic', () => {
       expect(countAppliedHeadersForTab(state, 'chrome://extensions')).toBe(0)
     })
   })
+
+  describe('buildSessionRules', () => {
+    const tabs = new Map([
+      [1, 'https://auth.example.com/'],
+      [2, 'https://flags.example.com/'],
+    ])
+
+    it('builds one rule per enabled profile', () => {
+      const state = createState({
+        profiles: [
+          createProfile({
+            id: 'auth',
+            enabled: true,
+            headers: [createHeader({ name: 'Authorization', value: 'Bearer token' })],
+            urlFilters: [
+              { id: 'f1', enabled: true, type: 'include', matchType: 'host_equals', pattern: 'auth.example.com' },
+            ],
+          }),
+          createProfile({
+            id: 'flags',
+            enabled: true,
+            headers: [createHeader({ name: 'X-Flags', value: 'beta' })],
+            urlFilters: [
+              { id: 'f2', enabled: true, type: 'include', matchType: 'host_equals', pattern: 'flags.example.com' },
+            ],
+          }),
+        ],
+        activeProfileId: 'auth',
+      })
+
+      const rules = buildSessionRules(state, tabs)
+
+      expect(rules.length).toBe(2)
+      expect(rules[0]!.condition.tabIds).toEqual([1])
+      expect(rules[1]!.condition.tabIds).toEqual([2])
+      expect(new Set(rules.map(r => r.id)).size).toBe(2)
+    })
+
+    it('skips disabled profiles even when they are active', () => {
+      const state = createState({
+        profiles: [
+          createProfile({ id: 'a', enabled: false, headers: [createHeader()] }),
+          createProfile({ id: 'b', enabled: true, headers: [createHeader({ name: 'X-B' })] }),
+        ],
+        activeProfileId: 'a',
+      })
+
+      const rules = buildSessionRules(state, tabs)
+
+      expect(rules.length).toBe(1)
+      expect(rules[0]!.action.requestHeaders?.[0]?.header).toBe('X-B')
+    })
+
+    it('gives profiles higher in the list a higher priority', () => {
+      const state = createState({
+        profiles: [
+          createProfile({ id: 'a', enabled: true, headers: [createHeader()] }),
+          createProfile({ id: 'b', enabled: true, headers: [createHeader()] }),
+        ],
+      })
+
+      const [first, second] = buildSessionRules(state, tabs)
+
+      expect(first!.priority).toBeGreaterThan(second!.priority!)
+    })
+
+    it('falls back to the active profile for states without enabled flags', () => {
+      const state = createState({
+        profiles: [
+          createProfile({ id: 'a', headers: [createHeader({ name: 'X-A' })] }),
+          createProfile({ id: 'b', headers: [createHeader({ name: 'X-B' })] }),
+        ],
+        activeProfileId: 'b',
+      })
+
+      const rules = buildSessionRules(state, tabs)
+
+      expect(rules.length).toBe(1)
+      expect(rules[0]!.action.requestHeaders?.[0]?.header).toBe('X-B')
+    })
+
+    it('returns no rules without state', () => {
+      expect(buildSessionRules(null, tabs)).toEqual([])
+    })
+
+    it('builds a separate rule for each header scope', () => {
+      const authScope = [
+        { id: 's1', enabled: true, type: 'include' as const, matchType: 'host_equals' as const, pattern: 'auth.example.com' },
+      ]
+      const state = createState({
+        profiles: [
+          createProfile({
+            id: 'a',
+            enabled: true,
+            headers: [
+              createHeader({ name: 'X-Everywhere' }),
+              createHeader({ name: 'Authorization', value: 'Bearer token', urlFilters: authScope }),
+              createHeader({ name: 'X-Auth-Debug', value: '1', urlFilters: [{ ...authScope[0]!, id: 's2' }] }),
+            ],
+          }),
+        ],
+      })
+
+      const rules = buildSessionRules(state, tabs)
+
+      expect(rules.length).toBe(2)
+      expect(rules[0]!.condition.tabIds).toEqual([1, 2])
+      expect(rules[0]!.action.requestHeaders?.map(h => h.header)).toEqual(['X-Everywhere'])
+      expect(rules[1]!.condition.tabIds).toEqual([1])
+      expect(rules[1]!.action.requestHeaders?.map(h => h.header)).toEqual(['Authorization', 'X-Auth-Debug'])
+    })
+
+    it('skips header scopes that match no tab', () => {
+      const state = createState({
+        profiles: [
+          createProfile({
+            id: 'a',
+            enabled: true,
+            headers: [
+              createHeader({
+                name: 'X-Scoped',
+                urlFilters: [
+                  { id: 's1', enabled: true, type: 'include', matchType: 'host_equals', pattern: 'other.example.com' },
+                ],
+              }),
+            ],
+          }),
+        ],
+      })
+
+      expect(buildSessionRules(state, tabs)).toEqual([])
+    })
+  })
+
+  describe('request URL filters', () => {
+    const tabs = new Map([
+      [1, 'https://app.example.com/'],
+      [2, 'https://other.test/'],
+    ])
+
+    it('applies to requests from any tab when only request filters are set', () => {
+      const state = createState({
+        profiles: [
+          createProfile({
+            enabled: true,
+            headers: [createHeader()],
+            urlFilters: [
+              { id: 'r1', enabled: true, type: 'include', matchType: 'host_ends_with', pattern: 'api.example.com', target: 'request' },
+              { id: 'r2', enabled: true, type: 'exclude', matchType: 'host_ends_with', pattern: 'legacy.api.example.com', target: 'request' },
+            ],
+          }),
+        ],
+      })
+
+      const [rule, ...rest] = buildSessionRules(state, tabs)
+
+      expect(rest).toEqual([])
+      expect(rule!.condition.tabIds).toBeUndefined()
+      expect(rule!.condition.requestDomains).toEqual(['api.example.com'])
+      expect(rule!.condition.excludedRequestDomains).toEqual(['legacy.api.example.com'])
+    })
+
+    it('combines tab and request filters', () => {
+      const state = createState({
+        profiles: [
+          createProfile({
+            enabled: true,
+            headers: [createHeader()],
+            urlFilters: [
+              { id: 't1', enabled: true, type: 'include', matchType: 'host_equals', pattern: 'app.example.com' },
+              { id: 'r1', enabled: true, type: 'include', matchType: 'path_starts_with', pattern: '/api', target: 'request' },
+            ],
+          }),
+        ],
+      })
+
+      const [rule] = buildSessionRules(state, tabs)
+
+      expect(rule!.condition.tabIds).toEqual([1])
+      expect(rule!.condition.urlFilter).toBeUndefined()
+      expect(rule!.condition.regexFilter).toContain('\\/api')
+    })
+
+    it('builds one rule per request include that needs a URL pattern', () => {
+      const state = createState({
+        profiles: [
+          createProfile({
+            enabled: true,
+            headers: [createHeader()],
+            urlFilters: [
+              { id: 'r1', enabled: true, type: 'include', matchType: 'url_contains', pattern: '/graphql', target: 'request' },
+              { id: 'r2', enabled: true, type: 'include', matchType: 'url_contains', pattern: '/rest', target: 'request' },
+            ],
+          }),
+        ],
+      })
+
+      const rules = buildSessionRules(state, tabs)
+
+      expect(rules.map(r => r.condition.urlFilter)).toEqual(['/graphql', '/rest'])
+      expect(new Set(rules.map(r => r.id)).size).toBe(2)
+    })
+
+    it('builds no rules, with a warning, for excludes Chrome cannot express', () => {
+      const state = createState({
+        profiles: [
+          createProfile({
+            enabled: true,
+            headers: [createHeader()],
+            urlFilters: [
+              { id: 'r1', enabled: true, type: 'exclude', matchType: 'url_contains', pattern: 'tracking', target: 'request' },
+            ],
+          }),
+        ],
+      })
+      const warnings: string[] = []
+
+      const rules = buildSessionRules(state, tabs, warnings)
+
+      expect(rules).toEqual([])
+      expect(warnings.length).toBe(1)
+    })
+
+    it('ignores request filters when counting headers for a tab', () => {
+      const profile = createProfile({
+        headers: [createHeader()],
+        urlFilters: [
+          { id: 'r1', enabled: true, type: 'include', matchType: 'host_equals', pattern: 'api.example.com', target: 'request' },
+        ],
+      })
+
+      expect(getEnabledHeadersForUrl(profile, 'https://app.example.com/')).toHaveLength(1)
+    })
+  })
+
+  describe('resource types and methods', () => {
+    const tabs = new Map([[1, 'https://app.example.com/']])
+
+    it('applies to every resource type and method by default', () => {
+      const state = createState({
+        profiles: [createProfile({ enabled: true, headers: [createHeader()] })],
+      })
+
+      const [rule] = buildSessionRules(state, tabs)
+
+      expect(rule!.condition.resourceTypes).toContain('main_frame')
+      expect(rule!.condition.resourceTypes).toContain('xmlhttprequest')
+      expect(rule!.condition.requestMethods).toBeUndefined()
+    })
+
+    it('limits rules to the selected resource types and methods', () => {
+      const state = createState({
+        profiles: [
+          createProfile({
+            enabled: true,
+            headers: [createHeader({ name: 'X-CSRF-Debug' })],
+            resourceTypes: ['xmlhttprequest'],
+            requestMethods: ['post', 'put'],
+          }),
+        ],
+      })
+
+      const [rule] = buildSessionRules(state, tabs)
+
+      expect(rule!.condition.resourceTypes).toEqual(['xmlhttprequest'])
+      expect(rule!.condition.requestMethods).toEqual(['post', 'put'])
+    })
+  })
+
+  describe('template values', () => {
+    const tabs = new Map([[1, 'https://app.example.com/']])
+
+    it('resolves placeholders when building rules', () => {
+      const state = createState({
+        profiles: [
+          createProfile({
+            name: 'Staging',
+            enabled: true,
+            headers: [
+              createHeader({ name: 'Authorization', value: 'Bearer {{env.API_TOKEN}}' }),
+              createHeader({ name: 'X-Sent-At', value: '{{timestamp}}' }),
+              createHeader({ name: 'X-Profile', value: '{{profile.name}}' }),
+            ],
+          }),
+        ],
+        variables: [{ id: 'v1', name: 'API_TOKEN', value: 'abc' }],
+      })
+
+      const [rule] = buildSessionRules(state, tabs, [], 1234)
+
+      expect(rule!.action.requestHeaders?.map(h => h.value)).toEqual(['Bearer abc', '1234', 'Staging'])
+    })
+
+    it('skips headers that resolve to an empty value', () => {
+      const state = createState({
+        profiles: [
+          createProfile({
+            enabled: true,
+            headers: [
+              createHeader({ name: 'X-Empty', value: '{{env.EMPTY}}' }),
+              createHeader({ name: 'X-Kept', value: 'kept' }),
+            ],
+          }),
+        ],
+        variables: [{ id: 'v1', name: 'EMPTY', value: '' }],
+      })
+      const warnings: string[] = []
+
+      const [rule] = buildSessionRules(state, tabs, warnings)
+
+      expect(rule!.action.requestHeaders?.map(h => h.header)).toEqual(['X-Kept'])
+      expect(warnings).toHaveLength(1)
+    })
+
+    it('skips headers that Chrome would reject, so the rest of the rule still applies', () => {
+      const state = createState({
+        profiles: [
+          createProfile({
+            enabled: true,
+            headers: [
+              createHeader({ name: 'X Bad', value: 'a' }),
+              createHeader({ name: 'X-Custom', value: 'b', operation: 'append' }),
+              createHeader({ name: 'X-Line', value: 'line{{env.BREAK}}' }),
+              createHeader({ name: 'Accept', value: 'text/html', operation: 'append' }),
+            ],
+          }),
+        ],
+        variables: [{ id: 'v1', name: 'BREAK', value: '\r\nX-Injected: 1' }],
+      })
+      const warnings: string[] = []
+
+      const [rule] = buildSessionRules(state, tabs, warnings)
+
+      expect(rule!.action.requestHeaders?.map(h => h.header)).toEqual(['Accept'])
+      expect(warnings).toHaveLength(3)
+    })
+
+    it('resolves profile variables before global ones', () => {
+      const state = createState({
+        profiles: [
+          createProfile({
+            enabled: true,
+            headers: [createHeader({ name: 'Authorization', value: 'Bearer {{API_TOKEN}}' })],
+            variables: [{ id: 'p1', name: 'API_TOKEN', value: 'profile-token', secret: true }],
+          }),
+        ],
+        variables: [{ id: 'v1', name: 'API_TOKEN', value: 'global-token' }],
+      })
+
+      const [rule] = buildSessionRules(state, tabs)
+
+      expect(rule!.action.requestHeaders?.[0]?.value).toBe('Bearer profile-token')
+    })
+
+    it('detects time-based placeholders in enabled headers', () => {
+      const withTimestamp = createState({
+        profiles: [createProfile({ enabled: true, headers: [createHeader({ value: '{{timestamp}}' })] })],
+      })
+      const disabled = createState({
+        profiles: [createProfile({ enabled: false, headers: [createHeader({ value: '{{uuid}}' })] })],
+      })
+
+      expect(hasDynamicHeaderValues(withTimestamp)).toBe(true)
+      expect(hasDynamicHeaderValues(disabled)).toBe(false)
+      expect(hasDynamicHeaderValues(null)).toBe(false)
+    })
+  })
+
+  describe('schedules', () => {
+    const tabs = new Map([[1, 'https://app.example.com/']])
+
+    it('leaves out profiles whose schedule does not apply', () => {
+      const now = Date.now()
+      const state = createState({
+        profiles: [
+          createProfile({ id: 'expired', enabled: true, headers: [createHeader()], schedule: { expiresAt: now - 1 } }),
+          createProfile({ id: 'timed', enabled: true, headers: [createHeader()], schedule: { expiresAt: now + 60 * 60 * 1000 } }),
+        ],
+      })
+      const ruleProfileIds = new Map<number, string>()
+
+      buildSessionRules(state, tabs, [], now, ruleProfileIds)
+
+      expect([...ruleProfileIds.values()]).toEqual(['timed'])
+      expect(getNextScheduleRebuild(state, now)).toBe(now + 60 * 60 * 1000)
+      expect(getShortestScheduleRemainingMs(state, now)).toBe(60 * 60 * 1000)
+    })
+
+    it('builds no rules while paused', () => {
+      const now = Date.now()
+      const state = createState({
+        paused: true,
+        profiles: [createProfile({ enabled: true, headers: [createHeader()], schedule: { expiresAt: now + 1000 } })],
+      })
+
+      expect(buildSessionRules(state, tabs, [], now)).toEqual([])
+      expect(getShortestScheduleRemainingMs(state, now)).toBeNull()
+    })
+
+    it('ignores the schedules of disabled profiles', () => {
+      const now = Date.now()
+      const state = createState({
+        profiles: [createProfile({ enabled: false, schedule: { expiresAt: now + 1000 } })],
+      })
+
+      expect(getNextScheduleRebuild(state, now)).toBeNull()
+      expect(getShortestScheduleRemainingMs(state, now)).toBeNull()
+    })
+  })
+
+  describe('getEnabledHeadersForUrl', () => {
+    it('combines profile filters with header scopes', () => {
+      const profile = createProfile({
+        urlFilters: [
+          { id: 'f1', enabled: true, type: 'include', matchType: 'host_ends_with', pattern: 'example.com' },
+        ],
+        headers: [
+          createHeader({ name: 'X-All' }),
+          createHeader({
+            name: 'X-Api',
+            urlFilters: [
+              { id: 's1', enabled: true, type: 'include', matchType: 'path_starts_with', pattern: '/api' },
+            ],
+          }),
+        ],
+      })
+
+      expect(getEnabledHeadersForUrl(profile, 'https://app.example.com/api/users').map(h => h.name))
+        .toEqual(['X-All', 'X-Api'])
+      expect(getEnabledHeadersForUrl(profile, 'https://app.example.com/home').map(h => h.name))
+        .toEqual(['X-All'])
+      expect(getEnabledHeadersForUrl(profile, 'https://other.org/api')).toEqual([])
+    })
+  })
+
+  describe('summarizeSessionRules', () => {
+    it('describes the profile and header changes behind each rule', () => {
+      const state = createState({
+        profiles: [
+          createProfile({
+            id: 'p1',
+            name: 'Staging',
+            enabled: true,
+            headers: [
+              createHeader({ name: 'X-Env', value: 'staging' }),
+              createHeader({ name: 'Cookie', operation: 'remove' }),
+              createHeader({ name: 'X-Served-By', value: 'proxy', type: 'response', operation: 'append' }),
+            ],
+          }),
+          createProfile({ id: 'p2', name: 'Debug', enabled: true, headers: [createHeader({ name: 'X-Debug', value: '1' })] }),
+        ],
+      })
+      const ruleProfileIds = new Map<number, string>()
+
+      const rules = buildSessionRules(state, new Map([[1, 'https://app.example.com/']]), [], Date.now(), ruleProfileIds)
+      const summaries = summarizeSessionRules(state, rules, ruleProfileIds)
+
+      expect([...ruleProfileIds.entries()]).toEqual([[1, 'p1'], [2, 'p2']])
+      expect(summaries[1]).toEqual({
+        profileId: 'p1',
+        profileName: 'Staging',
+        headers: [
+          { name: 'X-Env', operation: 'set', type: 'request' },
+          { name: 'Cookie', operation: 'remove', type: 'request' },
+          { name: 'X-Served-By', operation: 'append', type: 'response' },
+        ],
+      })
+      expect(summaries[2]?.profileName).toBe('Debug')
+    })
+  })
+
+  describe('createRuleIdAllocator', () => {
+    it('hands out unique sequential IDs', () => {
+      const next = createRuleIdAllocator()
+      expect([next(), next(), next()]).toEqual([1, 2, 3])
+    })
+  })
 })
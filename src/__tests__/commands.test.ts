@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+import type { AppState, Profile, UrlFilter } from '@/types'
+import { addSiteFilter, applyProfileCommand, isProfileCommand, selectAutoProfile } from '@/background/commands'
+
+const createProfile = (id: string, enabled?: boolean): Profile => ({
+  id,
+  name: id,
+  color: '#7c3aed',
+  enabled,
+  headers: [],
+  urlFilters: [],
+  createdAt: 0,
+  updatedAt: 0,
+})
+
+const createState = (profiles: Profile[], activeProfileId: string | null = profiles[0]?.id ?? null): AppState => ({
+  profiles,
+  activeProfileId,
+  darkModePreference: 'system',
+  languagePreference: 'auto',
+})
+
+describe('commands', () => {
+  it('recognizes the commands declared in the manifest', () => {
+    expect(isProfileCommand('next-profile')).toBe(true)
+    expect(isProfileCommand('select-profile-4')).toBe(true)
+    expect(isProfileCommand('_execute_action')).toBe(false)
+  })
+
+  it('cycles through profiles in sidebar order and wraps around', () => {
+    const state = createState([createProfile('a', true), createProfile('b', true), createProfile('c', false)], 'c')
+
+    expect(applyProfileCommand(state, 'next-profile')?.activeProfileId).toBe('a')
+    expect(applyProfileCommand(state, 'previous-profile')?.activeProfileId).toBe('b')
+  })
+
+  it('jumps to a profile by number and ignores missing or already selected ones', () => {
+    const state = createState([createProfile('a', true), createProfile('b', true)])
+
+    expect(applyProfileCommand(state, 'select-profile-2')?.activeProfileId).toBe('b')
+    expect(applyProfileCommand(state, 'select-profile-1')).toBeNull()
+    expect(applyProfileCommand(state, 'select-profile-3')).toBeNull()
+  })
+
+  it('moves the enabled flag along when only the selected profile is on', () => {
+    const state = createState([createProfile('a', true), createProfile('b', false), createProfile('c', false)])
+
+    const next = applyProfileCommand(state, 'select-profile-3', 1000)
+
+    expect(next?.profiles.map(p => p.enabled)).toEqual([false, false, true])
+    expect(next?.profiles[1]).toBe(state.profiles[1])
+    expect(next?.profiles[2]?.updatedAt).toBe(1000)
+  })
+
+  it('leaves enabled flags alone when several profiles are on', () => {
+    const state = createState([createProfile('a', true), createProfile('b', true), createProfile('c', false)])
+
+    expect(applyProfileCommand(state, 'select-profile-3')?.profiles).toBe(state.profiles)
+  })
+
+  it('toggles the paused flag', () => {
+    const state = createState([createProfile('a', true)])
+
+    const paused = applyProfileCommand(state, 'toggle-paused')
+    expect(paused?.paused).toBe(true)
+    expect(applyProfileCommand(paused!, 'toggle-paused')?.paused).toBe(false)
+  })
+
+  describe('selectAutoProfile', () => {
+    it('switches to the picked profile that starts off', () => {
+      const state = createState([createProfile('staging', true), createProfile('prod', false)])
+
+      const next = selectAutoProfile(state, 'prod', 1000)
+
+      expect(next?.activeProfileId).toBe('prod')
+      expect(next?.profiles.map(p => p.enabled)).toEqual([false, true])
+      expect(selectAutoProfile(next!, 'prod')).toBeNull()
+      expect(selectAutoProfile(state, 'missing')).toBeNull()
+    })
+  })
+
+  describe('addSiteFilter', () => {
+    const siteFilter = (type: UrlFilter['type'], pattern = 'app.example.com'): UrlFilter => ({
+      id: `${type}-${pattern}`,
+      enabled: true,
+      matchType: 'host_equals',
+      pattern,
+      type,
+    })
+
+    it('adds a host filter for the page and turns the profile on', () => {
+      const state = createState([createProfile('a', true), createProfile('b', false)])
+
+      const next = addSiteFilter(state, 'b', 'https://App.Example.com:8443/path?q=1', 'include', 1000)
+
+      expect(next?.profiles[1]?.enabled).toBe(true)
+      expect(next?.profiles[1]?.updatedAt).toBe(1000)
+      expect(next?.profiles[1]?.urlFilters).toEqual([
+        { id: expect.any(String), enabled: true, matchType: 'host_equals', pattern: 'app.example.com', type: 'include' },
+      ])
+      expect(next?.profiles[0]).toBe(state.profiles[0])
+    })
+
+    it('switches off the contradicting filter and skips duplicates', () => {
+      const profile = { ...createProfile('a', true), urlFilters: [siteFilter('include'), siteFilter('include', 'other.test')] }
+      const state = createState([profile])
+
+      const next = addSiteFilter(state, 'a', 'https://app.example.com/', 'exclude')
+
+      expect(next?.profiles[0]?.urlFilters.map(f => [f.type, f.pattern, f.enabled])).toEqual([
+        ['include', 'app.example.com', false],
+        ['include', 'other.test', true],
+        ['exclude', 'app.example.com', true],
+      ])
+      expect(addSiteFilter(next!, 'a', 'https://app.example.com/other', 'exclude')).toBeNull()
+    })
+
+    it('ignores pages that are not web pages and unknown profiles', () => {
+      const state = createState([createProfile('a', true)])
+
+      expect(addSiteFilter(state, 'a', 'chrome://extensions', 'include')).toBeNull()
+      expect(addSiteFilter(state, 'a', undefined, 'include')).toBeNull()
+      expect(addSiteFilter(state, 'missing', 'https://app.example.com/', 'include')).toBeNull()
+    })
+
+    it('leaves subscribed profiles alone', () => {
+      const state = createState([{ ...createProfile('a', false), subscriptionId: 'sub' }])
+
+      expect(addSiteFilter(state, 'a', 'https://app.example.com/', 'include')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import DiagnosticsDialog from '@/components/DiagnosticsDialog.vue'
+import { diagnoseTab } from '@/lib/diagnostics'
+import type { Profile } from '@/types'
+
+const PROFILE: Profile = {
+  id: 'p1',
+  name: 'Staging',
+  color: '#7c3aed',
+  enabled: true,
+  headers: [
+    { id: 'h1', enabled: true, name: 'X-Env', value: 'staging', comment: '', type: 'request', operation: 'set' },
+    { id: 'h2', enabled: true, name: 'X-Empty', value: '', comment: '', type: 'request', operation: 'set' },
+  ],
+  urlFilters: [
+    { id: 'f1', enabled: true, type: 'include', matchType: 'host_equals', pattern: 'other.example.com' },
+  ],
+  createdAt: 0,
+  updatedAt: 0,
+}
+
+const RULE: chrome.declarativeNetRequest.Rule = {
+  id: 3,
+  priority: 1,
+  action: {
+    type: 'modifyHeaders' as chrome.declarativeNetRequest.RuleActionType,
+    requestHeaders: [{ header: 'X-Env', operation: 'set' as chrome.declarativeNetRequest.HeaderOperation, value: 'staging' }],
+  },
+  condition: { tabIds: [1] },
+}
+
+describe('DiagnosticsDialog', () => {
+  const mountComponent = (props: Record<string, unknown>) => {
+    return mount(DiagnosticsDialog, {
+      props: { open: true, diagnosis: null, ...props },
+      global: {
+        stubs: {
+          AlertDialog: { template: '<div><slot /></div>' },
+          AlertDialogContent: { template: '<div><slot /></div>' },
+          AlertDialogHeader: { template: '<div><slot /></div>' },
+          AlertDialogTitle: { template: '<div><slot /></div>' },
+          AlertDialogDescription: { template: '<div><slot /></div>' },
+          AlertDialogFooter: { template: '<div><slot /></div>' },
+          Button: { template: '<button :disabled="disabled"><slot /></button>', props: ['disabled'] },
+        },
+      },
+    })
+  }
+
+  it('shows which filters failed and which headers were skipped', () => {
+    const diagnosis = diagnoseTab({ profiles: [PROFILE], activeProfileId: 'p1' }, 'https://app.example.com/')
+    const wrapper = mountComponent({ diagnosis, rules: [RULE] })
+
+    expect(wrapper.get('[data-testid="diagnostics-url"]').text()).toBe('https://app.example.com/')
+    expect(wrapper.get('[data-testid="diagnostics-status"]').text()).toBe('No include filter matches')
+    expect(wrapper.get('[data-testid="diagnostics-filters"]').text()).toContain('other.example.com')
+    expect(wrapper.get('[data-testid="diagnostics-filters"]').text()).toContain('does not match')
+    expect(wrapper.get('[data-testid="diagnostics-headers"]').text()).toContain('X-Empty: skipped, empty value')
+    expect(wrapper.get('[data-testid="diagnostics-rules"]').text()).toContain('Rule 3, priority 1: set X-Env')
+  })
+
+  it('notes that header changes are paused', () => {
+    const diagnosis = diagnoseTab({ profiles: [PROFILE], activeProfileId: 'p1', paused: true }, 'https://app.example.com/')
+    const wrapper = mountComponent({ diagnosis, rules: [] })
+
+    expect(wrapper.find('[data-testid="diagnostics-paused"]').exists()).toBe(true)
+    expect(wrapper.get('[data-testid="diagnostics-status"]').text()).toBe('Paused')
+  })
+
+  it('notes non-http tabs and unavailable rules', () => {
+    const diagnosis = diagnoseTab({ profiles: [PROFILE], activeProfileId: 'p1' }, 'chrome://newtab/')
+    const wrapper = mountComponent({ diagnosis, rules: null })
+
+    expect(wrapper.find('[data-testid="diagnostics-non-http"]').exists()).toBe(true)
+    expect(wrapper.findAll('[data-testid="diagnostics-profile"]')).toHaveLength(0)
+    expect(wrapper.get('[data-testid="diagnostics-rules"]').text()).toContain('only available in the extension')
+  })
+})
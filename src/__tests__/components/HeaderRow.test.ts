@@ -7,6 +7,7 @@ import type { HeaderRule, ValueSuggestion } from '@/types'
 vi.mock('lucide-vue-next', () => ({
   GripVertical: { template: '<span>GripVertical</span>' },
   Copy: { template: '<span>Copy</span>' },
+  Filter: { template: '<span>Filter</span>' },
   Trash2: { template: '<span>Trash2</span>' },
   X: { template: '<span>X</span>' },
 }))
@@ -25,7 +26,12 @@ describe('HeaderRow', () => {
 
   const mountComponent = (
     header: HeaderRule,
-    props: Partial<{ nameSuggestions: string[]; valueSuggestions: ValueSuggestion[] }> = {}
+    props: Partial<{
+      nameSuggestions: string[]
+      valueSuggestions: ValueSuggestion[]
+      resolveValue: (value: string) => string
+      readonly: boolean
+    }> = {}
   ) => {
     return mount(HeaderRow, {
       props: { header, ...props },
@@ -48,6 +54,15 @@ describe('HeaderRow', () => {
           CommandList: { template: '<div><slot /></div>' },
           CommandGroup: { template: '<div><slot /></div>' },
           CommandItem: { template: '<div><slot /></div>' },
+          UrlFilterList: {
+            template: `
+              <div data-testid="url-filter-list-stub">
+                <button data-testid="scope-add" @click="$emit('add')" />
+                <button data-testid="scope-remove" @click="$emit('remove', filters[0].id)" />
+              </div>
+            `,
+            props: ['filters'],
+          },
           CommandInput: {
             template: '<input :value="modelValue" @input="$emit(\'update:modelValue\', $event.target.value)" @blur="$emit(\'blur\')" @focus="$emit(\'focus\')" />',
             props: ['modelValue', 'placeholder', 'disabled'],
@@ -217,6 +232,96 @@ describe('HeaderRow', () => {
     })
   })
 
+  describe('value preview', () => {
+    it('shows the resolved value for templated values', () => {
+      const header = createHeader({ value: 'Bearer {{env.TOKEN}}' })
+      const wrapper = mountComponent(header, {
+        resolveValue: value => value.replace('{{env.TOKEN}}', 'abc'),
+      })
+
+      expect(wrapper.get('[data-testid="header-value-preview"]').text()).toContain('Bearer abc')
+    })
+
+    it('hides the preview for plain values', () => {
+      const wrapper = mountComponent(createHeader({ value: 'plain' }), {
+        resolveValue: value => value,
+      })
+
+      expect(wrapper.find('[data-testid="header-value-preview"]').exists()).toBe(false)
+    })
+  })
+
+  describe('validation', () => {
+    it('shows an error for header names Chrome rejects', async () => {
+      const wrapper = mountComponent(createHeader())
+      const nameInput = wrapper.findAll('input')[1]!
+      await nameInput.setValue('X Bad')
+
+      expect(wrapper.get('[data-testid="header-name-error"]').text()).toContain('Header names can only contain')
+      expect(nameInput.attributes('aria-invalid')).toBe('true')
+    })
+
+    it('shows an error for appending to request headers Chrome does not allow', () => {
+      const wrapper = mountComponent(createHeader({ operation: 'append' }))
+
+      expect(wrapper.get('[data-testid="header-name-error"]').text()).toContain('Chrome can only append')
+      expect(mountComponent(createHeader({ name: 'Accept', operation: 'append' })).find('[data-testid="header-name-error"]').exists())
+        .toBe(false)
+    })
+
+    it('shows an error for values with line breaks', () => {
+      const wrapper = mountComponent(createHeader({ value: 'a\r\nX-Injected: 1' }))
+
+      expect(wrapper.get('[data-testid="header-value-error"]').text()).toBe('Header values cannot contain line breaks')
+      expect(wrapper.find('[data-testid="header-name-error"]').exists()).toBe(false)
+    })
+  })
+
+  describe('url scope', () => {
+    it('shows the number of enabled scope filters', () => {
+      const header = createHeader({
+        urlFilters: [
+          { id: 'f1', enabled: true, matchType: 'host_equals', pattern: 'api.example.com', type: 'include' },
+          { id: 'f2', enabled: false, matchType: 'host_equals', pattern: 'old.example.com', type: 'include' },
+        ],
+      })
+      const wrapper = mountComponent(header)
+
+      expect(wrapper.get('[data-testid="header-scope-count"]').text()).toBe('1')
+    })
+
+    it('hides the count when the header is not scoped', () => {
+      const wrapper = mountComponent(createHeader())
+
+      expect(wrapper.find('[data-testid="header-scope-count"]').exists()).toBe(false)
+    })
+
+    it('emits update with a new include filter when adding a scope filter', async () => {
+      const wrapper = mountComponent(createHeader())
+
+      await wrapper.get('[data-testid="scope-add"]').trigger('click')
+
+      const updates = wrapper.emitted('update')
+      expect(updates).toHaveLength(1)
+      const filters = (updates?.[0]?.[0] as Partial<HeaderRule>).urlFilters
+      expect(filters).toHaveLength(1)
+      expect(filters?.[0]).toMatchObject({ enabled: true, matchType: 'host_equals', pattern: '', type: 'include' })
+    })
+
+    it('emits update without the filter when removing a scope filter', async () => {
+      const header = createHeader({
+        urlFilters: [
+          { id: 'f1', enabled: true, matchType: 'host_equals', pattern: 'api.example.com', type: 'include' },
+        ],
+      })
+      const wrapper = mountComponent(header)
+
+      await wrapper.get('[data-testid="scope-remove"]').trigger('click')
+
+      expect(wrapper.emitted('update')?.[0]).toEqual([{ urlFilters: [] }])
+    })
+  })
+
   describe('drag handle', () => {
     it('renders drag handle with data-swapy-handle attribute', () => {
       const header = createHeader()
@@ -226,4 +331,14 @@ describe('HeaderRow', () => {
       expect(dragHandle.exists()).toBe(true)
     })
   })
+
+  describe('readonly', () => {
+    it('hides the drag handle and the duplicate and delete buttons', () => {
+      const wrapper = mountComponent(createHeader(), { readonly: true })
+
+      expect(wrapper.find('[data-swapy-handle]').exists()).toBe(false)
+      expect(wrapper.text()).not.toContain('Copy')
+      expect(wrapper.text()).not.toContain('Trash2')
+    })
+  })
 })
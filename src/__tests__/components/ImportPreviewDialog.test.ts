@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import ImportPreviewDialog from '@/components/ImportPreviewDialog.vue'
+import type { ImportPreview, Profile } from '@/types'
+
+function createProfile(id: string, name: string): Profile {
+  return {
+    id,
+    name,
+    color: '#7c3aed',
+    headers: [],
+    urlFilters: [],
+    createdAt: 0,
+    updatedAt: 0,
+  }
+}
+
+const preview: ImportPreview = {
+  format: 'requestly',
+  profiles: [
+    { profile: createProfile('a', 'Existing'), existingProfileId: 'local', action: 'skip' },
+    { profile: createProfile('b', 'New'), existingProfileId: null, action: 'add' },
+  ],
+  variables: [],
+  warnings: ['Skipped Requestly Redirect rule'],
+}
+
+describe('ImportPreviewDialog', () => {
+  const mountComponent = (props: Partial<InstanceType<typeof ImportPreviewDialog>['$props']> = {}) => {
+    return mount(ImportPreviewDialog, {
+      props: { open: true, preview, ...props },
+      global: {
+        stubs: {
+          AlertDialog: { template: '<div><slot /></div>' },
+          AlertDialogContent: { template: '<div><slot /></div>' },
+          AlertDialogHeader: { template: '<div><slot /></div>' },
+          AlertDialogTitle: { template: '<div><slot /></div>' },
+          AlertDialogDescription: { template: '<div><slot /></div>' },
+          AlertDialogFooter: { template: '<div><slot /></div>' },
+          AlertDialogCancel: { template: '<button type="button"><slot /></button>' },
+          Button: { template: '<button :disabled="disabled"><slot /></button>', props: ['disabled'] },
+          ToggleGroup: {
+            template: `
+              <div>
+                <button data-testid="action-skip" @click="$emit('update:modelValue', 'skip')">skip</button>
+                <button data-testid="action-replace" @click="$emit('update:modelValue', 'replace')">replace</button>
+                <slot />
+              </div>
+            `,
+            props: ['modelValue'],
+          },
+          ToggleGroupItem: { template: '<span :data-value="value"><slot /></span>', props: ['value'] },
+        },
+      },
+    })
+  }
+
+  it('lists profiles with the detected format and warnings', () => {
+    const wrapper = mountComponent()
+
+    expect(wrapper.get('[data-testid="import-preview-format"]').text()).toContain('Requestly')
+    const rows = wrapper.findAll('[data-testid="import-preview-profile"]')
+    expect(rows.map(row => row.text())).toEqual([
+      expect.stringContaining('Existing'),
+      expect.stringContaining('New'),
+    ])
+    // Only profiles matching an existing name can replace it
+    expect(rows[0]!.find('[data-value="replace"]').exists()).toBe(true)
+    expect(rows[1]!.find('[data-value="replace"]').exists()).toBe(false)
+    expect(wrapper.get('[data-testid="import-warnings"]').text()).toContain('Redirect')
+  })
+
+  it('emits the chosen action for each profile', async () => {
+    const wrapper = mountComponent()
+    const rows = wrapper.findAll('[data-testid="import-preview-profile"]')
+
+    await rows[0]!.get('[data-testid="action-replace"]').trigger('click')
+    await wrapper.get('[data-testid="import-confirm"]').trigger('click')
+
+    expect(wrapper.emitted('confirm')?.[0]).toEqual([['replace', 'add']])
+  })
+
+  it('cannot import when every profile is skipped', async () => {
+    const wrapper = mountComponent()
+    const rows = wrapper.findAll('[data-testid="import-preview-profile"]')
+
+    await rows[1]!.get('[data-testid="action-skip"]').trigger('click')
+
+    expect(wrapper.get('[data-testid="import-confirm"]').attributes('disabled')).toBeDefined()
+  })
+
+  it('shows the result summary after importing', () => {
+    const wrapper = mountComponent({ result: { imported: 2, replaced: 1, skipped: 0, addedVariables: 0, warnings: [] } })
+
+    expect(wrapper.get('[data-testid="import-result-summary"]').text()).toContain('2')
+    expect(wrapper.find('[data-testid="import-preview-profiles"]').exists()).toBe(false)
+    expect(wrapper.find('[data-testid="import-warnings"]').exists()).toBe(false)
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import PassphraseDialog from '@/components/PassphraseDialog.vue'
+
+describe('PassphraseDialog', () => {
+  const mountComponent = (props: Partial<InstanceType<typeof PassphraseDialog>['$props']> = {}) => {
+    return mount(PassphraseDialog, {
+      props: { open: true, mode: 'encrypt', ...props },
+      global: {
+        stubs: {
+          AlertDialog: { template: '<div><slot /></div>' },
+          AlertDialogContent: { template: '<div><slot /></div>' },
+          AlertDialogHeader: { template: '<div><slot /></div>' },
+          AlertDialogTitle: { template: '<div><slot /></div>' },
+          AlertDialogDescription: { template: '<div><slot /></div>' },
+          AlertDialogFooter: { template: '<div><slot /></div>' },
+          AlertDialogCancel: { template: '<button type="button"><slot /></button>' },
+          Button: { template: '<button :disabled="disabled"><slot /></button>', props: ['disabled'] },
+          Input: {
+            template: '<input v-bind="$attrs" :value="modelValue" @input="$emit(\'update:modelValue\', $event.target.value)" />',
+            props: ['modelValue'],
+          },
+          Checkbox: {
+            template: '<input type="checkbox" :checked="modelValue" @change="$emit(\'update:modelValue\', $event.target.checked)" />',
+            props: ['modelValue'],
+          },
+        },
+      },
+    })
+  }
+
+  it('requires a long enough, confirmed passphrase to encrypt', async () => {
+    const wrapper = mountComponent()
+    const submit = wrapper.get('[data-testid="passphrase-submit"]')
+
+    await wrapper.get('[data-testid="passphrase-input"]').setValue('short')
+    expect(wrapper.get('[data-testid="passphrase-error"]').text()).toContain('8')
+    expect(submit.attributes('disabled')).toBeDefined()
+
+    await wrapper.get('[data-testid="passphrase-input"]').setValue('long enough')
+    await wrapper.get('[data-testid="passphrase-confirm-input"]').setValue('long enougH')
+    expect(wrapper.get('[data-testid="passphrase-error"]').text()).toContain('match')
+    expect(submit.attributes('disabled')).toBeDefined()
+
+    await wrapper.get('[data-testid="passphrase-confirm-input"]').setValue('long enough')
+    expect(wrapper.find('[data-testid="passphrase-error"]').exists()).toBe(false)
+    await wrapper.get('form').trigger('submit')
+
+    expect(wrapper.emitted('submit')?.[0]).toEqual(['long enough', false])
+  })
+
+  it('lets the user leave secrets out of an encrypted export', async () => {
+    const wrapper = mountComponent({ canIncludeSecrets: true })
+
+    await wrapper.get('[data-testid="passphrase-input"]').setValue('long enough')
+    await wrapper.get('[data-testid="passphrase-confirm-input"]').setValue('long enough')
+    await wrapper.get('[data-testid="passphrase-include-secrets"]').setValue(false)
+    await wrapper.get('form').trigger('submit')
+
+    expect(wrapper.emitted('submit')?.[0]).toEqual(['long enough', false])
+  })
+
+  it('asks for the passphrase once to decrypt and shows errors', async () => {
+    const wrapper = mountComponent({ mode: 'decrypt', error: 'Wrong passphrase or damaged file' })
+
+    expect(wrapper.find('[data-testid="passphrase-confirm-input"]').exists()).toBe(false)
+    expect(wrapper.get('[data-testid="passphrase-error"]').text()).toBe('Wrong passphrase or damaged file')
+
+    await wrapper.get('[data-testid="passphrase-input"]').setValue('x')
+    await wrapper.get('form').trigger('submit')
+
+    expect(wrapper.emitted('submit')?.[0]).toEqual(['x', false])
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import PasteHeadersDialog from '@/components/PasteHeadersDialog.vue'
+
+describe('PasteHeadersDialog', () => {
+  const mountComponent = () => {
+    return mount(PasteHeadersDialog, {
+      props: { open: true },
+      global: {
+        stubs: {
+          AlertDialog: { template: '<div><slot /></div>' },
+          AlertDialogContent: { template: '<div><slot /></div>' },
+          AlertDialogHeader: { template: '<div><slot /></div>' },
+          AlertDialogTitle: { template: '<div><slot /></div>' },
+          AlertDialogDescription: { template: '<div><slot /></div>' },
+          AlertDialogFooter: { template: '<div><slot /></div>' },
+          AlertDialogCancel: { template: '<button type="button"><slot /></button>' },
+          Button: { template: '<button :disabled="disabled"><slot /></button>', props: ['disabled'] },
+          Checkbox: {
+            template: '<input type="checkbox" :checked="modelValue" @change="$emit(\'update:modelValue\', $event.target.checked)" />',
+            props: ['modelValue'],
+          },
+        },
+      },
+    })
+  }
+
+  it('previews parsed headers and lists skipped ones', async () => {
+    const wrapper = mountComponent()
+
+    await wrapper.get('[data-testid="paste-headers-input"]').setValue(
+      `curl 'https://api.example.com/' -H 'authorization: Bearer abc' -H 'sec-fetch-mode: cors'`
+    )
+
+    expect(wrapper.get('[data-testid="paste-headers-preview"]').text()).toContain('authorization: Bearer abc')
+    expect(wrapper.get('[data-testid="paste-headers-skipped"]').text()).toContain('sec-fetch-mode')
+    expect(wrapper.text()).toContain('api.example.com')
+  })
+
+  it('lists headers left out for their empty value', async () => {
+    const wrapper = mountComponent()
+
+    await wrapper.get('[data-testid="paste-headers-input"]').setValue(`curl 'https://api.example.com/' -H 'X-A: 1' -H 'x-tenant;'`)
+
+    expect(wrapper.get('[data-testid="paste-headers-preview"]').text()).not.toContain('x-tenant')
+    expect(wrapper.get('[data-testid="paste-headers-empty"]').text()).toContain('x-tenant')
+  })
+
+  it('emits the headers and the URL filter when it is chosen', async () => {
+    const wrapper = mountComponent()
+
+    await wrapper.get('[data-testid="paste-headers-input"]').setValue(`curl 'https://api.example.com/' -H 'X-A: 1'`)
+    await wrapper.get('[data-testid="paste-headers-url-filter"]').setValue(true)
+    await wrapper.get('[data-testid="paste-headers-submit"]').trigger('click')
+
+    expect(wrapper.emitted('submit')?.[0]).toEqual([
+      [{ name: 'X-A', value: '1' }],
+      { matchType: 'host_equals', pattern: 'api.example.com' },
+    ])
+  })
+
+  it('reports text without headers', async () => {
+    const wrapper = mountComponent()
+
+    await wrapper.get('[data-testid="paste-headers-input"]').setValue('nothing useful')
+
+    expect(wrapper.find('[data-testid="paste-headers-error"]').exists()).toBe(true)
+    expect(wrapper.get('[data-testid="paste-headers-submit"]').attributes('disabled')).toBeDefined()
+  })
+})
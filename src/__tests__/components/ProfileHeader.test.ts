@@ -1,13 +1,17 @@
 import { describe, it, expect, vi } from 'vitest'
 import { mount } from '@vue/test-utils'
 import ProfileHeader from '@/components/ProfileHeader.vue'
-import type { Profile } from '@/types'
+import type { HistoryAction, Profile } from '@/types'
+import type { TemplateContext } from '@/lib/templates'
 
 vi.mock('lucide-vue-next', () => ({
   Undo2: { template: '<span>Undo2</span>' },
   Redo2: { template: '<span>Redo2</span>' },
   Download: { template: '<span>Download</span>' },
   Pipette: { template: '<span>Pipette</span>' },
+  Terminal: { template: '<span>Terminal</span>' },
+  CircleHelp: { template: '<span>CircleHelp</span>' },
+  Clock: { template: '<span>Clock</span>' },
 }))
 
 describe('ProfileHeader', () => {
@@ -27,6 +31,10 @@ describe('ProfileHeader', () => {
     profileIndex: number
     canUndo: boolean
     canRedo: boolean
+    undoAction: HistoryAction | null
+    redoAction: HistoryAction | null
+    templateContext: TemplateContext
+    now: number
   }> = {}) => {
     return mount(ProfileHeader, {
       props: {
@@ -67,6 +75,16 @@ describe('ProfileHeader', () => {
           TooltipContent: { template: '<div><slot /></div>' },
           TooltipProvider: { template: '<div><slot /></div>' },
           TooltipTrigger: { template: '<div><slot /></div>' },
+          ToggleGroup: {
+            template: `
+              <div>
+                <button data-testid="format-httpie" @click="$emit('update:modelValue', 'httpie')">httpie</button>
+                <slot />
+              </div>
+            `,
+            props: ['modelValue'],
+          },
+          ToggleGroupItem: { template: '<span><slot /></span>', props: ['value'] },
         },
       },
     })
@@ -82,21 +100,49 @@ describe('ProfileHeader', () => {
     expect(wrapper.text()).toContain('3')
   })
 
-  it('emits undo, redo and export actions', async () => {
+  it('emits undo, redo, export, diagnose and schedule actions', async () => {
     const wrapper = mountComponent({ canUndo: true, canRedo: true })
     const buttons = wrapper.findAll('button')
 
     const undoButton = buttons.find(b => b.text().includes('Undo2'))
     const redoButton = buttons.find(b => b.text().includes('Redo2'))
     const exportButton = buttons.find(b => b.text().includes('Download'))
+    const diagnoseButton = buttons.find(b => b.text().includes('CircleHelp'))
+    const scheduleButton = buttons.find(b => b.text().includes('Clock'))
 
     await undoButton?.trigger('click')
     await redoButton?.trigger('click')
     await exportButton?.trigger('click')
+    await diagnoseButton?.trigger('click')
+    await scheduleButton?.trigger('click')
 
     expect(wrapper.emitted('undo')).toBeTruthy()
     expect(wrapper.emitted('redo')).toBeTruthy()
     expect(wrapper.emitted('export')).toBeTruthy()
+    expect(wrapper.emitted('diagnose')).toBeTruthy()
+    expect(wrapper.emitted('schedule')).toBeTruthy()
+  })
+
+  it('names the edit undo and redo would revert or repeat', () => {
+    const wrapper = mountComponent({ canUndo: true, canRedo: true, undoAction: 'update_header', redoAction: null })
+    const buttons = wrapper.findAll('button')
+
+    expect(buttons.find(b => b.text().includes('Undo2'))?.attributes('aria-label')).toBe('Undo: Edit header')
+    expect(buttons.find(b => b.text().includes('Redo2'))?.attributes('aria-label')).toBe('Redo')
+  })
+
+  it('shows how long a time-boxed profile has left', () => {
+    const now = Date.now()
+    const wrapper = mountComponent({
+      profile: createProfile({ enabled: true, schedule: { expiresAt: now + 30 * 60 * 1000 } }),
+      now,
+    })
+    const expired = mountComponent({ profile: createProfile({ enabled: true, schedule: { expiresAt: now - 1 } }), now })
+
+    expect(wrapper.get('[data-testid="schedule-status"]').text()).toBe('30m left')
+    expect(expired.get('[data-testid="schedule-status"]').text()).toBe('Expired')
+    expect(mountComponent({ profile: createProfile({ enabled: true }) }).find('[data-testid="schedule-status"]').exists())
+      .toBe(false)
   })
 
   it('emits rename when editing profile name and pressing enter', async () => {
@@ -161,6 +207,19 @@ describe('ProfileHeader', () => {
     expect(lastEvent?.[0]).toBe('#ff0099')
   })
 
+  it('emits toggleEnabled from the profile switch', async () => {
+    const wrapper = mountComponent({
+      profile: createProfile({ enabled: true }),
+    })
+
+    const enabledSwitch = wrapper.get('[data-testid="profile-enabled-switch"]')
+    expect(enabledSwitch.attributes('data-state')).toBe('checked')
+
+    await enabledSwitch.trigger('click')
+
+    expect(wrapper.emitted('toggleEnabled')).toBeTruthy()
+  })
+
   it('disables color trigger when profile is null', () => {
     const wrapper = mountComponent({ profile: null })
     const trigger = wrapper.get('[data-testid="profile-color-trigger"]')
@@ -168,4 +227,43 @@ describe('ProfileHeader', () => {
     expect(trigger.attributes('disabled')).toBeDefined()
     expect(wrapper.text()).toContain('Profile')
   })
+
+  it('builds a snippet with the headers applied to the target URL', async () => {
+    const wrapper = mountComponent({
+      profile: createProfile({
+        headers: [
+          { id: 'h1', enabled: true, name: 'Authorization', value: '{{token}}', comment: '', type: 'request', operation: 'set' },
+          { id: 'h2', enabled: true, name: 'Cookie', value: '', comment: '', type: 'request', operation: 'remove' },
+        ],
+        urlFilters: [{ id: 'f1', enabled: true, type: 'include', matchType: 'host_equals', pattern: 'api.example.com' }],
+      }),
+      templateContext: { variables: [{ id: 'v1', name: 'token', value: 'secret' }] },
+    })
+
+    const urlInput = wrapper.get('[data-testid="snippet-url-input"]')
+    await urlInput.setValue('https://other.example.com/')
+    expect(wrapper.get('[data-testid="snippet-hint"]').text()).toContain('URL filters')
+    expect(wrapper.get('[data-testid="snippet-output"]').text()).not.toContain('-H')
+
+    await urlInput.setValue('https://api.example.com/users')
+    expect(wrapper.find('[data-testid="snippet-hint"]').exists()).toBe(false)
+    expect(wrapper.get('[data-testid="snippet-output"]').text()).toBe(
+      "curl 'https://api.example.com/users' \\\n  -H 'Authorization: secret' \\\n  -H 'Cookie:'"
+    )
+
+    await wrapper.get('[data-testid="format-httpie"]').trigger('click')
+    expect(wrapper.get('[data-testid="snippet-output"]').text()).toContain("'Authorization:secret'")
+  })
+
+  it('copies the snippet to the clipboard', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined)
+    vi.stubGlobal('navigator', { clipboard: { writeText } })
+    const wrapper = mountComponent()
+
+    await wrapper.get('[data-testid="snippet-url-input"]').setValue('https://example.com/')
+    await wrapper.get('[data-testid="snippet-copy"]').trigger('click')
+
+    expect(writeText).toHaveBeenCalledWith("curl 'https://example.com/'")
+    vi.unstubAllGlobals()
+  })
 })
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest'
+import { mount } from '@vue/test-utils'
+import ProfileScheduleDialog from '@/components/ProfileScheduleDialog.vue'
+import type { ProfileSchedule } from '@/types'
+
+vi.mock('lucide-vue-next', () => ({
+  Trash2: { template: '<span>Trash2</span>' },
+}))
+
+describe('ProfileScheduleDialog', () => {
+  const NOW = new Date(2026, 0, 5, 10, 0).getTime()
+
+  const mountComponent = (schedule?: ProfileSchedule) => {
+    return mount(ProfileScheduleDialog, {
+      props: { open: true, schedule, now: NOW },
+      global: {
+        stubs: {
+          AlertDialog: { template: '<div><slot /></div>' },
+          AlertDialogContent: { template: '<div><slot /></div>' },
+          AlertDialogHeader: { template: '<div><slot /></div>' },
+          AlertDialogTitle: { template: '<div><slot /></div>' },
+          AlertDialogDescription: { template: '<div><slot /></div>' },
+          AlertDialogFooter: { template: '<div><slot /></div>' },
+          AlertDialogCancel: { template: '<button><slot /></button>' },
+          Button: { template: '<button :disabled="disabled"><slot /></button>', props: ['disabled'] },
+        },
+      },
+    })
+  }
+
+  it('saves an end time from a quick button and a weekday window', async () => {
+    const wrapper = mountComponent()
+
+    await wrapper.get('[data-testid="schedule-expiry-30"]').trigger('click')
+    await wrapper.get('[data-testid="schedule-window-add"]').trigger('click')
+    // Drop Friday from the default Monday–Friday window
+    await wrapper.findAll('[data-testid="schedule-window-day"]')[4]!.trigger('click')
+    await wrapper.get('[data-testid="schedule-window-end"]').setValue('12:30')
+    await wrapper.get('[data-testid="schedule-window-end"]').trigger('change')
+    await wrapper.get('[data-testid="schedule-save"]').trigger('click')
+
+    const [schedule] = wrapper.emitted('save')![0] as [ProfileSchedule]
+    expect(schedule.expiresAt).toBe(NOW + 30 * 60 * 1000)
+    expect(schedule.windows).toEqual([{ id: expect.any(String), days: [1, 2, 3, 4], start: 9 * 60, end: 12 * 60 + 30 }])
+  })
+
+  it('clears the schedule when nothing is left', async () => {
+    const wrapper = mountComponent({ expiresAt: NOW - 1000 })
+
+    expect(wrapper.get('[data-testid="schedule-expiry-hint"]').text()).toContain('has passed')
+
+    await wrapper.get('[data-testid="schedule-expiry-clear"]').trigger('click')
+    await wrapper.get('[data-testid="schedule-save"]').trigger('click')
+
+    expect(wrapper.emitted('save')).toEqual([[null]])
+  })
+})
@@ -14,6 +14,10 @@ vi.mock('lucide-vue-next', () => ({
   Sun: { template: '<span>Sun</span>' },
   Contrast: { template: '<span>Contrast</span>' },
   Download: { template: '<span>Download</span>' },
+  Lock: { template: '<span>Lock</span>' },
+  Pause: { template: '<span>Pause</span>' },
+  Play: { template: '<span>Play</span>' },
+  Rss: { template: '<span>Rss</span>' },
 }))
 
 // Mock swapy
@@ -56,6 +60,9 @@ describe('ProfileSidebar', () => {
     activeProfile?: Profile | null
     darkModePreference?: DarkModePreference
     languagePreference?: LanguagePreference
+    autoSelectProfile?: boolean
+    autoProfileId?: string | null
+    paused?: boolean
   }) => {
     const activeProfile = props.activeProfile
       ?? props.profiles.find(profile => profile.id === props.activeProfileId)
@@ -82,6 +89,10 @@ describe('ProfileSidebar', () => {
           DropdownMenuTrigger: { template: '<div><slot /></div>' },
           DropdownMenuContent: { template: '<div><slot /></div>' },
           DropdownMenuItem: { template: '<div @click="$emit(\'select\')"><slot /></div>' },
+          DropdownMenuCheckboxItem: {
+            template: '<div role="menuitemcheckbox" :aria-checked="modelValue" @click="$emit(\'update:modelValue\', !modelValue)"><slot /></div>',
+            props: ['modelValue'],
+          },
           DropdownMenuSeparator: { template: '<hr />' },
           AlertDialog: { template: '<div><slot /></div>' },
           AlertDialogAction: { template: '<button @click="$emit(\'click\')"><slot /></button>' },
@@ -211,6 +222,23 @@ describe('ProfileSidebar', () => {
     })
   })
 
+  describe('live state', () => {
+    it('marks only enabled profiles as live', () => {
+      const profiles = [
+        createProfile({ id: 'p1', enabled: true }),
+        createProfile({ id: 'p2', enabled: false }),
+        createProfile({ id: 'p3', enabled: true }),
+      ]
+
+      const wrapper = mountComponent({
+        profiles,
+        activeProfileId: 'p2',
+      })
+
+      expect(wrapper.findAll('[data-testid="profile-live-indicator"]').length).toBe(2)
+    })
+  })
+
   describe('empty state', () => {
     it('shows add profile button and no profile items when no profiles', () => {
       const wrapper = mountComponent({
@@ -225,6 +253,43 @@ describe('ProfileSidebar', () => {
     })
   })
 
+  describe('auto select', () => {
+    it('marks the auto-selected profile only while auto mode is on', () => {
+      const profiles = [createProfile({ id: 'p1' }), createProfile({ id: 'p2' })]
+
+      const off = mountComponent({ profiles, activeProfileId: 'p1', autoProfileId: 'p2' })
+      expect(off.find('[data-testid="profile-auto-indicator"]').exists()).toBe(false)
+
+      const on = mountComponent({ profiles, activeProfileId: 'p1', autoSelectProfile: true, autoProfileId: 'p2' })
+      const indicators = on.findAll('[data-testid="profile-auto-indicator"]')
+      expect(indicators).toHaveLength(1)
+      expect(on.findAll('[data-swapy-item]')[1]?.find('[data-testid="profile-auto-indicator"]').exists()).toBe(true)
+    })
+
+    it('emits setAutoSelect from the menu toggle', async () => {
+      const wrapper = mountComponent({ profiles: [createProfile({ id: 'p1' })], activeProfileId: 'p1' })
+
+      await wrapper.find('[data-testid="auto-select-toggle"]').trigger('click')
+
+      expect(wrapper.emitted('setAutoSelect')).toEqual([[true]])
+    })
+  })
+
+  describe('pause toggle', () => {
+    it('emits the opposite of the current paused state', async () => {
+      const profiles = [createProfile({ id: 'p1' })]
+
+      const running = mountComponent({ profiles, activeProfileId: 'p1' })
+      await running.find('[data-testid="pause-toggle"]').trigger('click')
+      expect(running.emitted('setPaused')?.[0]).toEqual([true])
+
+      const paused = mountComponent({ profiles, activeProfileId: 'p1', paused: true })
+      expect(paused.find('[data-testid="pause-toggle"]').text()).toContain('Play')
+      await paused.find('[data-testid="pause-toggle"]').trigger('click')
+      expect(paused.emitted('setPaused')?.[0]).toEqual([false])
+    })
+  })
+
   describe('swapy attributes', () => {
     it('has swapy container ref', () => {
       const profiles = [createProfile({ id: 'p1' })]
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import RequestLogList from '@/components/RequestLogList.vue'
+import type { RequestLog } from '@/types'
+
+const LOG: RequestLog = {
+  source: 'debug',
+  entries: [
+    {
+      id: 'a',
+      timeStamp: 2000,
+      tabId: 1,
+      url: 'https://api.example.com/users',
+      tabUrl: 'https://app.example.com/',
+      method: 'GET',
+      resourceType: 'xmlhttprequest',
+      ruleId: 1,
+      rule: {
+        profileId: 'p1',
+        profileName: 'Staging',
+        headers: [
+          { name: 'X-Env', operation: 'set', type: 'request' },
+          { name: 'Cookie', operation: 'remove', type: 'request' },
+        ],
+      },
+    },
+    {
+      id: 'b',
+      timeStamp: 1000,
+      tabId: -1,
+      url: 'https://cdn.example.com/app.js',
+      tabUrl: null,
+      ruleId: 9,
+      rule: null,
+    },
+  ],
+}
+
+describe('RequestLogList', () => {
+  const mountComponent = (log: RequestLog | null = LOG) => {
+    return mount(RequestLogList, {
+      props: { log, profiles: [] },
+      global: {
+        stubs: {
+          Button: { template: '<button :disabled="disabled"><slot /></button>', props: ['disabled'] },
+        },
+      },
+    })
+  }
+
+  it('lists the requests and the headers that were changed', () => {
+    const wrapper = mountComponent()
+
+    const entries = wrapper.findAll('[data-testid="request-log-entry"]')
+    expect(entries).toHaveLength(2)
+    expect(entries[0]!.text()).toContain('https://api.example.com/users')
+    expect(entries[0]!.text()).toContain('Staging')
+    expect(entries[0]!.get('[data-testid="request-log-headers"]').text()).toBe('set X-Env, removed Cookie')
+    expect(entries[1]!.text()).toContain('No tab')
+  })
+
+  it('filters entries', async () => {
+    const wrapper = mountComponent()
+
+    await wrapper.get('[data-testid="request-log-filter"]').setValue('cdn')
+    expect(wrapper.findAll('[data-testid="request-log-entry"]')).toHaveLength(1)
+
+    await wrapper.get('[data-testid="request-log-filter"]').setValue('nothing')
+    expect(wrapper.findAll('[data-testid="request-log-entry"]')).toHaveLength(0)
+    expect(wrapper.get('[data-testid="request-log-empty"]').text()).toBe('No requests match the filter')
+  })
+
+  it('emits clear and refresh', async () => {
+    const wrapper = mountComponent()
+
+    await wrapper.get('[data-testid="request-log-clear"]').trigger('click')
+    await wrapper.get('[data-testid="request-log-refresh"]').trigger('click')
+
+    expect(wrapper.emitted('clear')).toHaveLength(1)
+    expect(wrapper.emitted('refresh')).toHaveLength(1)
+  })
+
+  it('explains when the log is unavailable', () => {
+    const wrapper = mountComponent(null)
+
+    expect(wrapper.get('[data-testid="request-log-source"]').text()).toBe('The request log is only available in the extension.')
+    expect(wrapper.get('[data-testid="request-log-clear"]').attributes('disabled')).toBeDefined()
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import RequestTypeFilters from '@/components/RequestTypeFilters.vue'
+import type { RequestMethod, ResourceType } from '@/types'
+
+describe('RequestTypeFilters', () => {
+  const mountComponent = (props: Partial<{ resourceTypes: ResourceType[]; requestMethods: RequestMethod[] }> = {}) => {
+    return mount(RequestTypeFilters, {
+      props,
+      global: {
+        stubs: {
+          ToggleGroup: {
+            template: `
+              <div :data-selected="modelValue.join(',')">
+                <button data-testid="select-xhr" @click="$emit('update:modelValue', ['xmlhttprequest', 'main_frame'])">xhr</button>
+                <button data-testid="select-post" @click="$emit('update:modelValue', ['put', 'post'])">post</button>
+                <slot />
+              </div>
+            `,
+            props: ['modelValue', 'type', 'variant', 'size', 'spacing'],
+          },
+          ToggleGroupItem: {
+            template: '<span><slot /></span>',
+            props: ['value'],
+          },
+        },
+      },
+    })
+  }
+
+  it('shows that everything matches when nothing is selected', () => {
+    const wrapper = mountComponent()
+
+    expect(wrapper.get('[data-testid="resource-type-summary"]').text()).toBe('All')
+    expect(wrapper.get('[data-testid="request-method-summary"]').text()).toBe('All')
+  })
+
+  it('shows the number of selected items', () => {
+    const wrapper = mountComponent({ resourceTypes: ['xmlhttprequest'], requestMethods: ['post', 'put'] })
+
+    expect(wrapper.get('[data-testid="resource-type-summary"]').text()).toBe('1 selected')
+    expect(wrapper.get('[data-testid="request-method-summary"]').text()).toBe('2 selected')
+  })
+
+  it('emits resource types in canonical order', async () => {
+    const wrapper = mountComponent()
+    const groups = wrapper.findAll('[data-testid="select-xhr"]')
+
+    await groups[0]!.trigger('click')
+
+    expect(wrapper.emitted('update')?.[0]).toEqual([{ resourceTypes: ['main_frame', 'xmlhttprequest'] }])
+  })
+
+  it('emits request methods in canonical order', async () => {
+    const wrapper = mountComponent()
+    const groups = wrapper.findAll('[data-testid="select-post"]')
+
+    await groups[1]!.trigger('click')
+
+    expect(wrapper.emitted('update')?.[0]).toEqual([{ requestMethods: ['post', 'put'] }])
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest'
+import { mount } from '@vue/test-utils'
+import SubscriptionsDialog from '@/components/SubscriptionsDialog.vue'
+import type { ProfileSubscription } from '@/types'
+
+vi.mock('lucide-vue-next', () => ({
+  Trash2: { template: '<span>Trash2</span>' },
+}))
+
+const SUBSCRIPTION: ProfileSubscription = { id: 'sub', url: 'https://example.com/profiles.json', createdAt: 0 }
+
+describe('SubscriptionsDialog', () => {
+  const mountComponent = (props: Partial<InstanceType<typeof SubscriptionsDialog>['$props']> = {}) => {
+    return mount(SubscriptionsDialog, {
+      props: { open: true, subscriptions: [SUBSCRIPTION], statuses: {}, ...props },
+      global: {
+        stubs: {
+          AlertDialog: { template: '<div><slot /></div>' },
+          AlertDialogContent: { template: '<div><slot /></div>' },
+          AlertDialogHeader: { template: '<div><slot /></div>' },
+          AlertDialogTitle: { template: '<div><slot /></div>' },
+          AlertDialogDescription: { template: '<div><slot /></div>' },
+          AlertDialogFooter: { template: '<div><slot /></div>' },
+          AlertDialogCancel: { template: '<button type="button"><slot /></button>' },
+          Button: { template: '<button :disabled="disabled"><slot /></button>', props: ['disabled'] },
+          Input: {
+            template: '<input v-bind="$attrs" :value="modelValue" @input="$emit(\'update:modelValue\', $event.target.value)" />',
+            props: ['modelValue'],
+          },
+        },
+      },
+    })
+  }
+
+  it('adds new http(s) URLs only', async () => {
+    const wrapper = mountComponent()
+
+    await wrapper.get('[data-testid="subscription-url"]').setValue(SUBSCRIPTION.url)
+    await wrapper.get('form').trigger('submit')
+    expect(wrapper.find('[data-testid="subscription-url-error"]').exists()).toBe(true)
+
+    await wrapper.get('[data-testid="subscription-url"]').setValue(' https://example.com/team.json ')
+    await wrapper.get('form').trigger('submit')
+
+    expect(wrapper.emitted('add')).toEqual([['https://example.com/team.json']])
+    expect(wrapper.find('[data-testid="subscription-url-error"]').exists()).toBe(false)
+  })
+
+  it('shows the status of each subscription', () => {
+    const wrapper = mountComponent({
+      statuses: { sub: { lastSyncedAt: 100, lastCheckedAt: 200, error: 'fetch_failed', message: 'HTTP 404' } },
+    })
+
+    expect(wrapper.get('[data-testid="subscription-status"]').text()).toContain('HTTP 404')
+    expect(wrapper.get('[data-testid="subscription"]').text()).toContain(new Date(100).toLocaleString())
+  })
+
+  it('unsubscribes and refreshes', async () => {
+    const wrapper = mountComponent()
+
+    await wrapper.get('[data-testid="subscription-remove"]').trigger('click')
+    await wrapper.get('[data-testid="subscription-refresh"]').trigger('click')
+
+    expect(wrapper.emitted('remove')?.[0]).toEqual(['sub'])
+    expect(wrapper.emitted('refresh')).toBeTruthy()
+    expect(mountComponent({ subscriptions: [] }).get('[data-testid="subscription-refresh"]').attributes('disabled')).toBeDefined()
+  })
+})
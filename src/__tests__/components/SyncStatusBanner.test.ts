@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import SyncStatusBanner from '@/components/SyncStatusBanner.vue'
+import type { Profile, SyncConflict } from '@/types'
+
+const profile = (name: string): Profile => ({
+  id: 'p1',
+  name,
+  color: '#7c3aed',
+  headers: [],
+  urlFilters: [],
+  createdAt: 0,
+  updatedAt: 0,
+})
+
+const conflict: SyncConflict = {
+  profileId: 'p1',
+  profileName: 'Staging',
+  local: profile('Local'),
+  remote: profile('Remote'),
+  detectedAt: 0,
+}
+
+describe('SyncStatusBanner', () => {
+  const mountComponent = (props: Partial<InstanceType<typeof SyncStatusBanner>['$props']> = {}) => {
+    return mount(SyncStatusBanner, {
+      props: { conflicts: [], status: null, ...props },
+      global: {
+        stubs: {
+          Button: { template: '<button :disabled="disabled"><slot /></button>', props: ['disabled'] },
+        },
+      },
+    })
+  }
+
+  it('renders nothing while sync works', () => {
+    const wrapper = mountComponent({ status: { lastSyncedAt: 1, error: null } })
+
+    expect(wrapper.find('[data-testid="sync-error"]').exists()).toBe(false)
+    expect(wrapper.find('[data-testid="sync-conflicts"]').exists()).toBe(false)
+  })
+
+  it('shows why the last sync failed', () => {
+    const wrapper = mountComponent({ status: { lastSyncedAt: null, error: 'failed', message: 'QUOTA_BYTES_PER_ITEM' } })
+
+    expect(wrapper.get('[data-testid="sync-error"]').text()).toContain('QUOTA_BYTES_PER_ITEM')
+  })
+
+  it('asks to update when another device synced a newer format', () => {
+    const wrapper = mountComponent({ status: { lastSyncedAt: 1, error: 'newer_version' } })
+
+    expect(wrapper.get('[data-testid="sync-error"]').text()).toContain('newer version')
+  })
+
+  it('emits the version to keep for each conflict', async () => {
+    const wrapper = mountComponent({ conflicts: [conflict] })
+
+    expect(wrapper.get('[data-testid="sync-conflict"]').text()).toContain('Staging')
+    await wrapper.get('[data-testid="sync-keep-local"]').trigger('click')
+    await wrapper.get('[data-testid="sync-keep-remote"]').trigger('click')
+    await wrapper.get('[data-testid="sync-keep-merged"]').trigger('click')
+
+    expect(wrapper.emitted('resolve')).toEqual([[conflict, 'local'], [conflict, 'remote'], [conflict, 'merged']])
+  })
+})
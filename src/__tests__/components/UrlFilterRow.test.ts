@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest'
-import { mount } from '@vue/test-utils'
+import { flushPromises, mount } from '@vue/test-utils'
 import UrlFilterRow from '@/components/UrlFilterRow.vue'
 import type { UrlFilter } from '@/types'
 
@@ -20,7 +20,7 @@ describe('UrlFilterRow', () => {
     ...overrides,
   })
 
-  const mountComponent = (filter: UrlFilter, props: Partial<{ patternSuggestions: string[] }> = {}) => {
+  const mountComponent = (filter: UrlFilter, props: Partial<{ patternSuggestions: string[], readonly: boolean }> = {}) => {
     return mount(UrlFilterRow, {
       props: { filter, ...props },
       global: {
@@ -34,6 +34,7 @@ describe('UrlFilterRow', () => {
               <div>
                 <button data-testid="type-include" @click="$emit('update:modelValue', 'include')">include</button>
                 <button data-testid="type-exclude" @click="$emit('update:modelValue', 'exclude')">exclude</button>
+                <button data-testid="target-request" @click="$emit('update:modelValue', 'request')">request</button>
                 <slot />
               </div>
             `,
@@ -93,6 +94,15 @@ describe('UrlFilterRow', () => {
     expect(wrapper.emitted('update')?.[0]).toEqual(['filter-1', { type: 'exclude' }])
   })
 
+  it('emits update when target changes', async () => {
+    const wrapper = mountComponent(createFilter())
+    // Both toggle groups share the stub; only the target group accepts 'request'
+    const targetButtons = wrapper.findAll('[data-testid="target-request"]')
+    for (const button of targetButtons) await button.trigger('click')
+
+    expect(wrapper.emitted('update')).toEqual([['filter-1', { target: 'request' }]])
+  })
+
   it('emits update when matchType changes', async () => {
     const wrapper = mountComponent(createFilter())
     await wrapper.find('[data-testid="match-regex"]').trigger('click')
@@ -132,4 +142,47 @@ describe('UrlFilterRow', () => {
     expect(wrapper.html()).toContain('example.com')
     expect(wrapper.html()).toContain('api.test.com')
   })
+
+  it('shows pattern errors while typing', async () => {
+    const wrapper = mountComponent(createFilter({ matchType: 'regex' }))
+    const patternInput = wrapper.findAll('input')[1]!
+    await patternInput.setValue('(unclosed')
+
+    expect(wrapper.get('[data-testid="url-filter-error"]').text()).toBe('Not a valid regular expression')
+    expect(patternInput.attributes('aria-invalid')).toBe('true')
+
+    await patternInput.setValue('(closed)')
+    expect(wrapper.find('[data-testid="url-filter-error"]').exists()).toBe(false)
+  })
+
+  it('rejects request URL excludes Chrome cannot express', async () => {
+    const wrapper = mountComponent(createFilter({ type: 'exclude', target: 'request', matchType: 'host_equals', pattern: 'ads.example.com' }))
+
+    expect(wrapper.get('[data-testid="url-filter-error"]').text()).toContain('Host ends with')
+
+    await wrapper.get('[data-testid="match-regex"]').trigger('click')
+    expect(wrapper.emitted('update')).toBeUndefined()
+  })
+
+  it('hides the drag handle and the duplicate and delete buttons when read-only', () => {
+    const wrapper = mountComponent(createFilter({ pattern: 'example.com' }), { readonly: true })
+
+    expect(wrapper.find('[data-swapy-handle]').exists()).toBe(false)
+    expect(wrapper.text()).not.toContain('Copy')
+    expect(wrapper.text()).not.toContain('Trash2')
+  })
+
+  it('asks Chrome whether it can run request URL regexes', async () => {
+    const isRegexSupported = vi.fn().mockResolvedValue({ isSupported: false, reason: 'syntaxError' })
+    vi.stubGlobal('chrome', { declarativeNetRequest: { isRegexSupported } })
+    try {
+      const wrapper = mountComponent(createFilter({ matchType: 'regex', target: 'request', pattern: '(?=x)' }))
+      await flushPromises()
+
+      expect(isRegexSupported).toHaveBeenCalledWith({ regex: '(?=x)' })
+      expect(wrapper.get('[data-testid="url-filter-error"]').text()).toContain('Chrome cannot run this regex')
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
 })
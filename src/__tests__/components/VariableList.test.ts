@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest'
+import { mount } from '@vue/test-utils'
+import VariableList from '@/components/VariableList.vue'
+import type { TemplateVariable } from '@/types'
+
+vi.mock('lucide-vue-next', () => ({
+  Lock: { template: '<span>Lock</span>' },
+  LockOpen: { template: '<span>LockOpen</span>' },
+  Plus: { template: '<span>Plus</span>' },
+  Trash2: { template: '<span>Trash2</span>' },
+}))
+
+describe('VariableList', () => {
+  const createVariable = (overrides: Partial<TemplateVariable> = {}): TemplateVariable => ({
+    id: 'v1',
+    name: 'API_TOKEN',
+    value: 'abc',
+    ...overrides,
+  })
+
+  const mountComponent = (variables: TemplateVariable[], title?: string, readonly = false) => {
+    return mount(VariableList, {
+      props: { variables, title, readonly },
+      global: {
+        stubs: {
+          Input: {
+            template: '<input v-bind="$attrs" :value="modelValue" @input="$emit(\'update:modelValue\', $event.target.value)" @blur="$emit(\'blur\')" />',
+            props: ['modelValue'],
+          },
+          Button: { template: '<button><slot /></button>' },
+        },
+      },
+    })
+  }
+
+  it('renders a row per variable', () => {
+    const wrapper = mountComponent([createVariable(), createVariable({ id: 'v2', name: 'TENANT' })])
+
+    expect(wrapper.findAll('[data-testid="variable-row"]')).toHaveLength(2)
+  })
+
+  it('emits update with a placeholder-safe name on blur', async () => {
+    const wrapper = mountComponent([createVariable()])
+    const nameInput = wrapper.get('[data-testid="variable-name-input"]')
+
+    await nameInput.setValue(' my token ')
+    await nameInput.trigger('blur')
+
+    expect(wrapper.emitted('update')?.[0]).toEqual(['v1', { name: 'my_token' }])
+  })
+
+  it('only lets secret values be filled in when read-only', () => {
+    const wrapper = mountComponent([createVariable(), createVariable({ id: 'v2', secret: true })], undefined, true)
+    const valueInputs = wrapper.findAll('[data-testid="variable-value-input"]')
+
+    expect(wrapper.get('[data-testid="variable-name-input"]').attributes('disabled')).toBeDefined()
+    expect(valueInputs[0]!.attributes('disabled')).toBeDefined()
+    expect(valueInputs[1]!.attributes('disabled')).toBeUndefined()
+    expect(wrapper.text()).not.toContain('Trash2')
+    expect(wrapper.text()).not.toContain('Plus')
+  })
+
+  it('emits update when the value changes', async () => {
+    const wrapper = mountComponent([createVariable()])
+    const valueInput = wrapper.get('[data-testid="variable-value-input"]')
+
+    await valueInput.setValue('xyz')
+    await valueInput.trigger('blur')
+
+    expect(wrapper.emitted('update')?.[0]).toEqual(['v1', { value: 'xyz' }])
+  })
+
+  it('shows a title when given', () => {
+    expect(mountComponent([], 'Global variables').get('[data-testid="variables-title"]').text()).toBe('Global variables')
+    expect(mountComponent([]).find('[data-testid="variables-title"]').exists()).toBe(false)
+  })
+
+  it('masks secret values and toggles the secret flag', async () => {
+    const wrapper = mountComponent([createVariable({ secret: true }), createVariable({ id: 'v2', name: 'TENANT' })])
+    const [secretInput, plainInput] = wrapper.findAll('[data-testid="variable-value-input"]')
+
+    expect(secretInput!.attributes('type')).toBe('password')
+    expect(plainInput!.attributes('type')).toBe('text')
+
+    const toggles = wrapper.findAll('[data-testid="variable-secret-toggle"]')
+    await toggles[0]!.trigger('click')
+    await toggles[1]!.trigger('click')
+
+    expect(wrapper.emitted('update')).toEqual([
+      ['v1', { secret: false }],
+      ['v2', { secret: true }],
+    ])
+  })
+
+  it('emits remove and add', async () => {
+    const wrapper = mountComponent([createVariable()])
+
+    await wrapper.findAll('button').find(b => b.text().includes('Trash2'))?.trigger('click')
+    await wrapper.findAll('button').find(b => b.text().includes('Plus'))?.trigger('click')
+
+    expect(wrapper.emitted('remove')?.[0]).toEqual(['v1'])
+    expect(wrapper.emitted('add')).toBeTruthy()
+  })
+})
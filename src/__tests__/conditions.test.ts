@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest'
+import type { UrlFilter } from '@/types'
+import {
+  buildRequestConditions,
+  combineRequestConditions,
+  mergeRequestConditionParts,
+  urlFilterToRequestCondition,
+} from '@/background/conditions'
+
+function createFilter(overrides: Partial<UrlFilter> = {}): UrlFilter {
+  return {
+    id: 'filter-id',
+    enabled: true,
+    type: 'include',
+    matchType: 'host_equals',
+    pattern: '',
+    target: 'request',
+    ...overrides,
+  }
+}
+
+function regexFor(filter: Partial<UrlFilter>): RegExp {
+  const part = urlFilterToRequestCondition(createFilter(filter))
+  expect(part?.regexFilter).toBeDefined()
+  return new RegExp(part!.regexFilter!)
+}
+
+describe('request URL conditions', () => {
+  describe('urlFilterToRequestCondition', () => {
+    it('matches exact hosts with a regex', () => {
+      const re = regexFor({ matchType: 'host_equals', pattern: 'api.example.com' })
+
+      expect(re.test('https://api.example.com/v1')).toBe(true)
+      expect(re.test('https://api.example.com:8443/')).toBe(true)
+      expect(re.test('https://v2.api.example.com/')).toBe(false)
+      expect(re.test('https://api.example.com.evil.test/')).toBe(false)
+    })
+
+    it('uses requestDomains for host suffixes', () => {
+      expect(urlFilterToRequestCondition(createFilter({ matchType: 'host_ends_with', pattern: 'https://Example.com/x' })))
+        .toEqual({ requestDomains: ['example.com'] })
+    })
+
+    it('translates localhost with and without a port', () => {
+      expect(urlFilterToRequestCondition(createFilter({ matchType: 'localhost_port', pattern: '' })))
+        .toEqual({ requestDomains: ['localhost'] })
+
+      const re = regexFor({ matchType: 'localhost_port', pattern: '3000' })
+      expect(re.test('http://localhost:3000/app')).toBe(true)
+      expect(re.test('http://localhost:3001/app')).toBe(false)
+    })
+
+    it('anchors URL prefixes', () => {
+      expect(urlFilterToRequestCondition(createFilter({ matchType: 'url_starts_with', pattern: 'https://example.com/app' })))
+        .toEqual({ urlFilter: '|https://example.com/app' })
+
+      const re = regexFor({ matchType: 'url_starts_with', pattern: 'example.com/app' })
+      expect(re.test('https://example.com/app/page')).toBe(true)
+      expect(re.test('https://cdn.test/example.com/app')).toBe(false)
+    })
+
+    it('matches path prefixes on any host', () => {
+      const re = regexFor({ matchType: 'path_starts_with', pattern: 'api' })
+
+      expect(re.test('https://example.com/api/users')).toBe(true)
+      expect(re.test('https://example.com/app?next=/api')).toBe(false)
+    })
+
+    it('uses a plain urlFilter for substrings without urlFilter syntax', () => {
+      expect(urlFilterToRequestCondition(createFilter({ matchType: 'url_contains', pattern: 'api/v1' })))
+        .toEqual({ urlFilter: 'api/v1' })
+
+      const re = regexFor({ matchType: 'url_contains', pattern: 'a|b' })
+      expect(re.test('https://example.com/?q=a|b')).toBe(true)
+    })
+
+    it('passes regex patterns through', () => {
+      expect(urlFilterToRequestCondition(createFilter({ matchType: 'regex', pattern: '^https://x\\.test/' })))
+        .toEqual({ regexFilter: '^https://x\\.test/' })
+    })
+
+    it('anchors globs to the whole URL', () => {
+      expect(urlFilterToRequestCondition(createFilter({ matchType: 'dnr_url_filter', pattern: 'https://example.com/*' })))
+        .toEqual({ urlFilter: '|https://example.com/*' })
+      expect(urlFilterToRequestCondition(createFilter({ matchType: 'dnr_url_filter', pattern: '*.example.com/*' })))
+        .toEqual({ urlFilter: '*.example.com/*' })
+    })
+
+    it('returns null for invalid patterns', () => {
+      expect(urlFilterToRequestCondition(createFilter({ matchType: 'localhost_port', pattern: 'example.com' }))).toBeNull()
+      expect(urlFilterToRequestCondition(createFilter({ matchType: 'url_contains', pattern: '' }))).toBeNull()
+    })
+  })
+
+  describe('buildRequestConditions', () => {
+    it('matches every request without request filters', () => {
+      const conditions = buildRequestConditions([
+        createFilter({ target: 'tab', pattern: 'example.com' }),
+      ])
+
+      expect(conditions.includes).toEqual([{}])
+      expect(conditions.excludedRequestDomains).toEqual([])
+    })
+
+    it('merges domain includes into one condition', () => {
+      const conditions = buildRequestConditions([
+        createFilter({ id: 'a', matchType: 'host_ends_with', pattern: 'example.com' }),
+        createFilter({ id: 'b', matchType: 'host_ends_with', pattern: 'example.org' }),
+        createFilter({ id: 'c', matchType: 'url_contains', pattern: '/graphql' }),
+      ])
+
+      expect(conditions.includes).toEqual([
+        { requestDomains: ['example.com', 'example.org'] },
+        { urlFilter: '/graphql' },
+      ])
+    })
+
+    it('maps host and localhost excludes to excludedRequestDomains', () => {
+      const conditions = buildRequestConditions([
+        createFilter({ id: 'a', type: 'exclude', matchType: 'host_ends_with', pattern: 'ads.example.com' }),
+        createFilter({ id: 'b', type: 'exclude', matchType: 'localhost_port', pattern: '' }),
+      ])
+
+      expect(conditions.includes).toEqual([{}])
+      expect(conditions.excludedRequestDomains).toEqual(['ads.example.com', 'localhost'])
+      expect(conditions.warnings).toEqual([])
+    })
+
+    it('matches nothing when an exclude cannot be expressed, instead of ignoring it', () => {
+      for (const exclude of [
+        { matchType: 'host_equals', pattern: 'ads.example.com' },
+        { matchType: 'url_contains', pattern: 'tracking' },
+        { matchType: 'localhost_port', pattern: '3000' },
+      ] as const) {
+        const conditions = buildRequestConditions([
+          createFilter({ id: 'a', matchType: 'host_ends_with', pattern: 'example.com' }),
+          createFilter({ id: 'b', type: 'exclude', ...exclude }),
+        ])
+
+        expect(conditions.includes).toEqual([])
+        expect(conditions.warnings).toHaveLength(1)
+      }
+    })
+
+    it('matches nothing when every include is invalid', () => {
+      const conditions = buildRequestConditions([
+        createFilter({ matchType: 'localhost_port', pattern: 'not-localhost' }),
+      ])
+
+      expect(conditions.includes).toEqual([])
+      expect(conditions.warnings).toHaveLength(1)
+    })
+  })
+
+  describe('combining conditions', () => {
+    it('intersects request domains', () => {
+      expect(mergeRequestConditionParts(
+        { requestDomains: ['example.com'] },
+        { requestDomains: ['api.example.com', 'other.test'] }
+      )).toEqual({ requestDomains: ['api.example.com'] })
+
+      expect(mergeRequestConditionParts(
+        { requestDomains: ['example.com'] },
+        { requestDomains: ['other.test'] }
+      )).toBeNull()
+    })
+
+    it('keeps a single URL pattern alongside domains', () => {
+      expect(mergeRequestConditionParts(
+        { requestDomains: ['example.com'] },
+        { urlFilter: '/graphql' }
+      )).toEqual({ urlFilter: '/graphql', requestDomains: ['example.com'] })
+    })
+
+    it('reports a conflict when both sides need a URL pattern', () => {
+      const combined = combineRequestConditions(
+        buildRequestConditions([createFilter({ matchType: 'url_contains', pattern: '/a' })]),
+        buildRequestConditions([createFilter({ matchType: 'url_contains', pattern: '/b' })])
+      )
+
+      expect(combined.includes).toEqual([])
+      expect(combined.warnings).toHaveLength(1)
+    })
+  })
+})
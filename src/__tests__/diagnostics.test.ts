@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest'
+import type { HeaderRule, Profile, UrlFilter } from '@/types'
+import { diagnoseProfile, diagnoseTab, getRulesForTab } from '@/lib/diagnostics'
+
+function createHeader(overrides: Partial<HeaderRule> = {}): HeaderRule {
+  return {
+    id: 'header-id',
+    enabled: true,
+    name: 'X-Test',
+    value: 'value',
+    comment: '',
+    type: 'request',
+    operation: 'set',
+    ...overrides,
+  }
+}
+
+function createFilter(overrides: Partial<UrlFilter> = {}): UrlFilter {
+  return {
+    id: 'filter-id',
+    enabled: true,
+    type: 'include',
+    matchType: 'host_equals',
+    pattern: 'app.example.com',
+    ...overrides,
+  }
+}
+
+function createProfile(overrides: Partial<Profile> = {}): Profile {
+  return {
+    id: 'profile-id',
+    name: 'Test Profile',
+    color: '#7c3aed',
+    enabled: true,
+    headers: [createHeader()],
+    urlFilters: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    ...overrides,
+  }
+}
+
+const URL = 'https://app.example.com/dashboard'
+
+describe('diagnostics', () => {
+  describe('diagnoseProfile', () => {
+    it('reports the exclude filter that matched', () => {
+      const profile = createProfile({
+        urlFilters: [
+          createFilter({ id: 'include' }),
+          createFilter({ id: 'exclude', type: 'exclude', matchType: 'path_starts_with', pattern: '/dashboard' }),
+        ],
+      })
+
+      const result = diagnoseProfile(profile, URL, { enabled: true })
+
+      expect(result.status).toBe('excluded')
+      expect(result.filters.map(f => [f.filter.id, f.check])).toEqual([['include', 'matched'], ['exclude', 'matched']])
+    })
+
+    it('reports includes that failed, ignoring disabled and request URL filters', () => {
+      const profile = createProfile({
+        urlFilters: [
+          createFilter({ id: 'other', pattern: 'other.example.com' }),
+          createFilter({ id: 'off', enabled: false }),
+          createFilter({ id: 'request', target: 'request' }),
+        ],
+      })
+
+      const result = diagnoseProfile(profile, URL, { enabled: true })
+
+      expect(result.status).toBe('not_included')
+      expect(result.filters.map(f => f.check)).toEqual(['not_matched', 'disabled', 'request_url'])
+      expect(diagnoseProfile(createProfile({ urlFilters: [createFilter({ target: 'request', pattern: 'x' })] }), URL, { enabled: true }).status)
+        .toBe('applied')
+    })
+
+    it('explains why headers are skipped', () => {
+      const profile = createProfile({
+        headers: [
+          createHeader({ id: 'ok' }),
+          createHeader({ id: 'off', enabled: false }),
+          createHeader({ id: 'unnamed', name: ' ' }),
+          createHeader({ id: 'empty', value: '' }),
+          createHeader({ id: 'remove', value: '', operation: 'remove' }),
+          createHeader({ id: 'template', value: '{{env.EMPTY}}' }),
+          createHeader({ id: 'invalid', name: 'X Bad' }),
+          createHeader({ id: 'scoped', urlFilters: [createFilter({ pattern: 'api.example.com' })] }),
+          createHeader({ id: 'excluded', urlFilters: [createFilter({ type: 'exclude' })] }),
+        ],
+      })
+
+      const result = diagnoseProfile(profile, URL, { enabled: true, variables: [{ id: 'v1', name: 'EMPTY', value: '' }] })
+
+      expect(result.headers.map(h => [h.header.id, h.skipReason])).toEqual([
+        ['ok', null],
+        ['off', 'disabled'],
+        ['unnamed', 'empty_name'],
+        ['empty', 'empty_value'],
+        ['remove', null],
+        ['template', 'empty_resolved_value'],
+        ['invalid', 'invalid'],
+        ['scoped', 'scope_not_included'],
+        ['excluded', 'scope_excluded'],
+      ])
+      expect(result.appliedHeaderCount).toBe(2)
+    })
+
+    it('reports disabled profiles and profiles without headers to apply', () => {
+      expect(diagnoseProfile(createProfile(), URL, { enabled: false }).status).toBe('disabled')
+      expect(diagnoseProfile(createProfile({ schedule: { expiresAt: 1 } }), URL, { enabled: true }).status).toBe('expired')
+      expect(diagnoseProfile(createProfile({ headers: [createHeader({ value: ' ' })] }), URL, { enabled: true }).status)
+        .toBe('no_headers')
+    })
+  })
+
+  describe('diagnoseTab', () => {
+    it('diagnoses every profile in sidebar order', () => {
+      const state = {
+        profiles: [createProfile({ id: 'a' }), createProfile({ id: 'b', enabled: false })],
+        activeProfileId: 'a',
+      }
+
+      const result = diagnoseTab(state, URL)
+
+      expect(result.isHttp).toBe(true)
+      expect(result.profiles.map(p => [p.profile.id, p.status])).toEqual([['a', 'applied'], ['b', 'disabled']])
+    })
+
+    it('notes that non-http tabs are never modified', () => {
+      const state = { profiles: [createProfile()], activeProfileId: 'profile-id' }
+
+      expect(diagnoseTab(state, 'chrome://extensions/')).toEqual({ url: 'chrome://extensions/', isHttp: false, paused: false, profiles: [] })
+      expect(diagnoseTab(state, null).isHttp).toBe(false)
+    })
+
+    it('reports every profile as paused before its own checks', () => {
+      const state = {
+        profiles: [createProfile({ id: 'a' }), createProfile({ id: 'b', enabled: false })],
+        activeProfileId: 'a',
+        paused: true,
+      }
+
+      const result = diagnoseTab(state, URL)
+
+      expect(result.paused).toBe(true)
+      expect(result.profiles.map(p => [p.profile.id, p.status])).toEqual([['a', 'paused'], ['b', 'paused']])
+      expect(result.profiles[0]!.appliedHeaderCount).toBe(1)
+    })
+  })
+
+  describe('getRulesForTab', () => {
+    it('keeps rules without a tab condition or listing the tab', () => {
+      const rule = (id: number, tabIds?: number[]): chrome.declarativeNetRequest.Rule => ({
+        id,
+        action: { type: 'modifyHeaders' as chrome.declarativeNetRequest.RuleActionType },
+        condition: tabIds ? { tabIds } : {},
+      })
+
+      expect(getRulesForTab([rule(1, [1, 2]), rule(2, [3]), rule(3)], 2).map(r => r.id)).toEqual([1, 3])
+      expect(getRulesForTab([rule(1, [1]), rule(2)], null).map(r => r.id)).toEqual([2])
+    })
+  })
+})
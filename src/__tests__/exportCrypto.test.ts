@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import openHeadersExport from '@/__import_examples__/OpenHeaders/openheaders-profiles.json?raw'
+import encryptedOpenHeadersExport from '@/__import_examples__/OpenHeaders/openheaders-profiles.encrypted.json?raw'
+import {
+  decryptExport,
+  encryptExport,
+  ENCRYPTED_EXPORT_FORMAT,
+  ENCRYPTED_EXPORT_VERSION,
+  isEncryptedExport,
+  isEncryptedExportJson,
+} from '@/lib/exportCrypto'
+
+// Keep key derivation fast in tests; the iteration count is stored in the envelope
+const FAST = { iterations: 1000 }
+const FIXTURE_PASSPHRASE = 'correct horse battery staple'
+
+describe('encrypted exports', () => {
+  it('round-trips the OpenHeaders example export', async () => {
+    const encrypted = await encryptExport(openHeadersExport, 'passphrase-1', FAST)
+
+    expect(encrypted).not.toContain('my-header-1')
+    expect(await decryptExport(encrypted, 'passphrase-1')).toBe(openHeadersExport)
+  })
+
+  it('writes a versioned envelope', async () => {
+    const envelope = JSON.parse(await encryptExport('{}', 'passphrase-1', FAST))
+
+    expect(envelope).toMatchObject({
+      format: ENCRYPTED_EXPORT_FORMAT,
+      version: ENCRYPTED_EXPORT_VERSION,
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: 1000 },
+      cipher: { name: 'AES-GCM' },
+    })
+    expect(isEncryptedExport(envelope)).toBe(true)
+  })
+
+  it('uses a fresh salt and IV for every export', async () => {
+    const a = JSON.parse(await encryptExport('{}', 'passphrase-1', FAST))
+    const b = JSON.parse(await encryptExport('{}', 'passphrase-1', FAST))
+
+    expect(a.kdf.salt).not.toBe(b.kdf.salt)
+    expect(a.cipher.iv).not.toBe(b.cipher.iv)
+    expect(a.data).not.toBe(b.data)
+  })
+
+  it('decrypts the encrypted example export', async () => {
+    const plaintext = await decryptExport(encryptedOpenHeadersExport, FIXTURE_PASSPHRASE)
+
+    expect(JSON.parse(plaintext)).toEqual(JSON.parse(openHeadersExport))
+  })
+
+  it('rejects a wrong passphrase', async () => {
+    const encrypted = await encryptExport(openHeadersExport, 'passphrase-1', FAST)
+
+    await expect(decryptExport(encrypted, 'passphrase-2')).rejects.toThrow('Wrong passphrase')
+  })
+
+  it('rejects modified ciphertext and envelope versions', async () => {
+    const envelope = JSON.parse(await encryptExport('{"version":1}', 'passphrase-1', FAST))
+    const tampered = { ...envelope, data: envelope.data.replace(/^./, (c: string) => (c === 'A' ? 'B' : 'A')) }
+
+    await expect(decryptExport(tampered, 'passphrase-1')).rejects.toThrow('Wrong passphrase')
+    await expect(decryptExport({ ...envelope, version: 2 }, 'passphrase-1')).rejects.toThrow('Unsupported')
+    await expect(decryptExport({ ...envelope, kdf: { ...envelope.kdf, iterations: 0 } }, 'passphrase-1'))
+      .rejects.toThrow('Invalid key derivation')
+  })
+
+  it('detects envelopes in JSON strings', () => {
+    expect(isEncryptedExportJson(encryptedOpenHeadersExport)).toBe(true)
+    expect(isEncryptedExportJson(openHeadersExport)).toBe(false)
+    expect(isEncryptedExportJson('not json')).toBe(false)
+  })
+
+  it('requires a passphrase', async () => {
+    await expect(encryptExport('{}', '')).rejects.toThrow('passphrase')
+  })
+})
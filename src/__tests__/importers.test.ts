@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest'
+import requestlyExport from '@/__import_examples__/Requestly/requestly-rules.json?raw'
+import headerEditorExport from '@/__import_examples__/HeaderEditor/header-editor-rules.json?raw'
+import modHeaderExport from '@/__import_examples__/ModHeader/Profile 1.json?raw'
+import openHeadersExport from '@/__import_examples__/OpenHeaders/openheaders-profiles.json?raw'
+import { matchesUrlFilter } from '@/lib/urlFilters'
+import {
+  convertRequestlyCondition,
+  convertRequestlyRules,
+  isRequestlyFormat,
+} from '@/lib/importers/requestly'
+import {
+  convertHeaderEditorExport,
+  convertHeaderEditorMatch,
+  isHeaderEditorFormat,
+} from '@/lib/importers/headerEditor'
+import { createImportedProfile, createImportedHeader, createImportedUrlFilter, parseRegexLiteral } from '@/lib/importers/shared'
+import { parseImportData } from '@/lib/importers'
+
+function summarizeFilters(filters: { type: string, target?: string, matchType: string, pattern: string }[] | undefined) {
+  return (filters ?? []).map(f => [f.type, f.target, f.matchType, f.pattern])
+}
+
+describe('importers', () => {
+  describe('format detection', () => {
+    const fixtures = {
+      requestly: JSON.parse(requestlyExport),
+      headerEditor: JSON.parse(headerEditorExport),
+      modHeader: JSON.parse(modHeaderExport),
+      openHeaders: JSON.parse(openHeadersExport),
+    }
+
+    it('detects Requestly exports only', () => {
+      expect(isRequestlyFormat(fixtures.requestly)).toBe(true)
+      expect(isRequestlyFormat(fixtures.headerEditor)).toBe(false)
+      expect(isRequestlyFormat(fixtures.modHeader)).toBe(false)
+      expect(isRequestlyFormat(fixtures.openHeaders)).toBe(false)
+    })
+
+    it('detects Header Editor exports only', () => {
+      expect(isHeaderEditorFormat(fixtures.headerEditor)).toBe(true)
+      expect(isHeaderEditorFormat(fixtures.requestly)).toBe(false)
+      expect(isHeaderEditorFormat(fixtures.modHeader)).toBe(false)
+      expect(isHeaderEditorFormat(fixtures.openHeaders)).toBe(false)
+      expect(isHeaderEditorFormat({})).toBe(false)
+    })
+  })
+
+  describe('parseImportData', () => {
+    it.each([
+      [openHeadersExport, 'openheaders'],
+      [modHeaderExport, 'modheader'],
+      [requestlyExport, 'requestly'],
+      [headerEditorExport, 'header_editor'],
+    ])('detects the format of each example file', (json, format) => {
+      const parsed = parseImportData(JSON.parse(json))
+
+      expect(parsed.format).toBe(format)
+      expect(parsed.profiles.length).toBeGreaterThan(0)
+    })
+
+    it('gives OpenHeaders profiles new IDs and reports invalid entries', () => {
+      const parsed = parseImportData({
+        profiles: [
+          { id: 'kept', name: 'Kept', color: '#000', headers: [{ id: 'h1', name: 'A', urlFilters: [{ id: 'f1' }] }] },
+          { name: 'No ID' },
+        ],
+        variables: [{ id: 'v1', name: 'TOKEN', value: 'x' }, { id: 'v2', name: ' ' }],
+      })
+
+      expect(parsed.profiles.map(p => p.name)).toEqual(['Kept'])
+      expect(parsed.profiles[0]!.id).not.toBe('kept')
+      expect(parsed.profiles[0]!.headers[0]!.urlFilters![0]!.id).not.toBe('f1')
+      expect(parsed.variables.map(v => v.name)).toEqual(['TOKEN'])
+      expect(parsed.warnings).toEqual([expect.stringContaining('index 1'), expect.stringContaining('variables[1]')])
+    })
+
+    it('drops the subscription of imported OpenHeaders profiles', () => {
+      const parsed = parseImportData({
+        profiles: [{ id: 'team', name: 'Team', color: '#000', subscriptionId: 'sub', headers: [], urlFilters: [] }],
+      })
+
+      expect(parsed.profiles[0]).not.toHaveProperty('subscriptionId')
+    })
+
+    it('rejects unknown and encrypted files', () => {
+      expect(() => parseImportData({ version: 1 })).toThrow('Invalid format')
+      expect(() => parseImportData({ format: 'openheaders-encrypted', version: 1 })).toThrow()
+    })
+  })
+
+  describe('Requestly', () => {
+    it('converts each header rule to a profile', () => {
+      const warnings: string[] = []
+      const profiles = convertRequestlyRules(JSON.parse(requestlyExport), 0, warnings)
+
+      expect(profiles.map(p => p.name)).toEqual(['Staging API', 'Legacy debug headers'])
+      expect(warnings).toEqual([expect.stringContaining('Redirect')])
+    })
+
+    it('maps modifications, conditions and request types', () => {
+      const [staging] = convertRequestlyRules(JSON.parse(requestlyExport))
+
+      expect(staging!.headers.map(h => [h.type, h.operation, h.name, h.value, h.enabled])).toEqual([
+        ['request', 'set', 'Authorization', 'Bearer staging-token', true],
+        ['request', 'remove', 'Cookie', '', true],
+        ['response', 'set', 'Access-Control-Allow-Origin', '*', true],
+      ])
+      // A single condition shared by every header moves to the profile
+      expect(summarizeFilters(staging!.urlFilters)).toEqual([
+        ['include', 'request', 'host_equals', 'api.staging.example.com'],
+        ['include', 'tab', 'url_contains', 'app.staging.example.com'],
+      ])
+      expect(staging!.headers.every(h => h.urlFilters === undefined)).toBe(true)
+      expect(staging!.resourceTypes).toEqual(['xmlhttprequest'])
+      expect(staging!.requestMethods).toEqual(['get', 'post'])
+    })
+
+    it('keeps per-pair conditions on headers for legacy rules', () => {
+      const [, legacy] = convertRequestlyRules(JSON.parse(requestlyExport))
+
+      expect(legacy!.urlFilters).toEqual([])
+      expect(legacy!.headers.map(h => [h.type, h.operation, h.name, h.enabled])).toEqual([
+        ['request', 'set', 'X-Debug', false],
+        ['response', 'remove', 'Server', false],
+      ])
+      expect(summarizeFilters(legacy!.headers[0]!.urlFilters)).toEqual([
+        ['include', 'request', 'dnr_url_filter', 'https://*.example.com/*'],
+      ])
+      expect(summarizeFilters(legacy!.headers[1]!.urlFilters)).toEqual([
+        ['include', 'request', 'url_contains', '/internal'],
+      ])
+    })
+
+    it.each([
+      ['Url', 'Equals', 'https://example.com/a', 'https://example.com/a', 'https://example.com/a/b'],
+      ['Url', 'Contains', 'example.com/api', 'https://example.com/api/v1', 'https://example.org/api'],
+      ['Url', 'Matches', '/^https:\\/\\/example\\.com\\/v[0-9]+/i', 'https://example.com/v2/x', 'https://example.com/api'],
+      ['Url', 'Wildcard_Matches', '*://example.com/*', 'http://example.com/x', 'https://example.org/x'],
+      ['host', 'Equals', 'api.example.com', 'https://api.example.com/x', 'https://v2.api.example.com/x'],
+      ['host', 'Contains', 'example', 'https://api.example.com/x', 'https://other.test/example'],
+      ['host', 'Wildcard_Matches', '*.example.com', 'https://api.example.com/x', 'https://example.org/x'],
+      ['path', 'Equals', '/api/users', 'https://example.com/api/users?page=2', 'https://example.com/api/users/1'],
+      ['path', 'Wildcard_Matches', '/api/*', 'https://example.com/api/users', 'https://example.com/app/api/x'],
+    ] as const)('maps %s %s conditions', (key, operator, value, matching, other) => {
+      const filter = convertRequestlyCondition(key, operator, value, 'request')!
+
+      expect(matchesUrlFilter(matching, filter)).toBe(true)
+      expect(matchesUrlFilter(other, filter)).toBe(false)
+    })
+
+    it('ignores empty conditions', () => {
+      expect(convertRequestlyCondition('Url', 'Contains', '  ', 'request')).toBeNull()
+    })
+  })
+
+  describe('Header Editor', () => {
+    it('converts groups to profiles and skips unsupported rules', () => {
+      const warnings: string[] = []
+      const profiles = convertHeaderEditorExport(JSON.parse(headerEditorExport), 0, warnings)
+
+      expect(profiles.map(p => p.name)).toEqual(['Staging', 'Ungrouped'])
+      expect(warnings).toEqual([
+        expect.stringContaining('cancel'),
+        expect.stringContaining('exclude request URLs by regex ("/static/")'),
+        expect.stringContaining('custom functions'),
+      ])
+    })
+
+    it('maps rules to scoped headers', () => {
+      const [staging, ungrouped] = convertHeaderEditorExport(JSON.parse(headerEditorExport))
+
+      expect(staging!.headers.map(h => [h.name, h.value, h.enabled, h.comment])).toEqual([
+        ['authorization', 'Bearer staging-token', true, 'Staging token'],
+        ['x-tenant', 'acme', false, 'Staging tenant'],
+      ])
+      expect(summarizeFilters(staging!.urlFilters)).toEqual([
+        ['include', 'request', 'host_equals', 'api.staging.example.com'],
+      ])
+
+      expect(ungrouped!.headers.map(h => [h.type, h.operation, h.name])).toEqual([
+        ['response', 'remove', 'content-security-policy'],
+      ])
+      expect(summarizeFilters(ungrouped!.urlFilters)).toEqual([
+        ['include', 'request', 'url_starts_with', 'https://app.example.com/'],
+      ])
+    })
+
+    it('maps match types', () => {
+      expect(convertHeaderEditorMatch('all', 'ignored')).toBeNull()
+      expect(convertHeaderEditorMatch('url', 'https://example.com/a')?.matchType).toBe('dnr_url_filter')
+      expect(convertHeaderEditorMatch('domain', 'example.com')?.matchType).toBe('host_equals')
+    })
+  })
+
+  describe('shared helpers', () => {
+    it('strips regex literal delimiters', () => {
+      expect(parseRegexLiteral('/a\\/b/gi')).toBe('a\\/b')
+      expect(parseRegexLiteral('^plain$')).toBe('^plain$')
+    })
+
+    it('keeps differing header scopes on the headers', () => {
+      const profile = createImportedProfile('Mixed', [
+        createImportedHeader('A', '1', 'request', { urlFilters: [createImportedUrlFilter('url_contains', '/a')] }),
+        createImportedHeader('B', '2', 'request'),
+      ], 0)
+
+      expect(profile.urlFilters).toEqual([])
+      expect(profile.headers[0]!.urlFilters).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import type { Profile } from '@/types'
+import type { VersionedState } from '@/lib/migrations'
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, isNewerSchemaVersion, migrateState } from '@/lib/migrations'
+
+const profile = (id: string, overrides: Partial<Profile> = {}): Profile => ({
+  id,
+  name: id,
+  color: '#7c3aed',
+  headers: [],
+  urlFilters: [],
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+})
+
+function runStep(version: number, state: object): VersionedState {
+  const migration = MIGRATIONS.find(m => m.version === version)
+  if (!migration) throw new Error(`No migration to version ${version}`)
+  return migration.migrate(state as VersionedState)
+}
+
+describe('migrations', () => {
+  it('numbers the steps 1, 2, 3… up to the current version', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1))
+    expect(CURRENT_SCHEMA_VERSION).toBe(MIGRATIONS.length)
+  })
+
+  describe('1: darkMode', () => {
+    it('turns the darkMode boolean into darkModePreference', () => {
+      expect(runStep(1, { darkMode: true })).toEqual({ darkModePreference: 'dark' })
+      expect(runStep(1, { darkMode: false })).toEqual({ darkModePreference: 'system' })
+    })
+
+    it('keeps an existing darkModePreference', () => {
+      expect(runStep(1, { darkMode: true, darkModePreference: 'light' })).toEqual({ darkModePreference: 'light' })
+      expect(runStep(1, {})).toEqual({})
+    })
+  })
+
+  describe('2: languagePreference', () => {
+    it('replaces unknown languages with auto and keeps known ones', () => {
+      expect(runStep(2, { languagePreference: 'de' })).toEqual({ languagePreference: 'auto' })
+      expect(runStep(2, { languagePreference: 'sv' })).toEqual({ languagePreference: 'sv' })
+      expect(runStep(2, {})).toEqual({})
+    })
+  })
+
+  describe('3: profile lists and filter match types', () => {
+    it('fills in missing lists and match types', () => {
+      const state = runStep(3, {
+        profiles: [
+          { id: 'a', name: 'a' },
+          { id: 'b', name: 'b', headers: [], urlFilters: [{ id: 'f1', pattern: 'example.com' }, { id: 'f2', matchType: 'regex' }] },
+        ],
+      })
+
+      expect(state.profiles?.[0]).toMatchObject({ headers: [], urlFilters: [] })
+      expect(state.profiles?.[1]?.urlFilters.map(f => f.matchType)).toEqual(['dnr_url_filter', 'regex'])
+    })
+  })
+
+  describe('4: enabled flags', () => {
+    it('enables only the active profile of states without flags', () => {
+      const state = runStep(4, { profiles: [profile('a'), profile('b')], activeProfileId: 'b' })
+
+      expect(state.profiles?.map(p => p.enabled)).toEqual([false, true])
+    })
+
+    it('keeps existing flags', () => {
+      const state = runStep(4, { profiles: [profile('a', { enabled: true }), profile('b')], activeProfileId: 'b' })
+
+      expect(state.profiles?.map(p => p.enabled)).toEqual([true, false])
+    })
+  })
+
+  describe('5: suggested header values', () => {
+    it('turns string values into suggestions without a comment', () => {
+      const state = runStep(5, {
+        headerSuggestions: {
+          names: ['Authorization'],
+          valuesByName: { authorization: ['Bearer old', { value: 'Bearer new', comment: 'Staging' }] },
+        },
+      })
+
+      expect(state.headerSuggestions).toEqual({
+        names: ['Authorization'],
+        valuesByName: { authorization: [{ value: 'Bearer old', comment: '' }, { value: 'Bearer new', comment: 'Staging' }] },
+      })
+    })
+  })
+
+  describe('migrateState', () => {
+    it('runs every step on unversioned states and stamps the current version', () => {
+      const state = migrateState({
+        profiles: [profile('a'), { id: 'b', name: 'b' } as Profile],
+        activeProfileId: 'b',
+        darkMode: true,
+      } as VersionedState)
+
+      expect(state.schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
+      expect(state.darkModePreference).toBe('dark')
+      expect(state.profiles?.map(p => [p.enabled, p.headers])).toEqual([[false, []], [true, []]])
+    })
+
+    it('skips the steps a state already had', () => {
+      const state = { schemaVersion: 3, profiles: [profile('a')], activeProfileId: 'a', languagePreference: 'de' }
+
+      // Step 2 is not run again; step 4 is
+      expect(migrateState(state as VersionedState)).toMatchObject({ languagePreference: 'de', profiles: [{ enabled: true }] })
+    })
+
+    it('refuses states from a newer version', () => {
+      const newer = { schemaVersion: CURRENT_SCHEMA_VERSION + 1, profiles: [] }
+
+      expect(isNewerSchemaVersion(newer)).toBe(true)
+      expect(isNewerSchemaVersion({})).toBe(false)
+      expect(() => migrateState(newer)).toThrow(/newer/)
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import modHeaderExport from '@/__import_examples__/ModHeader/Profile 1.json?raw'
+import type { HeaderRule, ModHeaderExportWarning, ModHeaderProfile, Profile, UrlFilter } from '@/types'
+import { convertModHeaderProfile, isModHeaderFormat } from '@/types'
+import { convertProfileToModHeader, convertProfilesToModHeader } from '@/lib/modHeaderExport'
+
+function createHeader(overrides: Partial<HeaderRule> = {}): HeaderRule {
+  return {
+    id: 'header-id',
+    enabled: true,
+    name: 'X-Test',
+    value: 'value',
+    comment: '',
+    type: 'request',
+    operation: 'set',
+    ...overrides,
+  }
+}
+
+function createFilter(overrides: Partial<UrlFilter> = {}): UrlFilter {
+  return {
+    id: 'filter-id',
+    enabled: true,
+    type: 'include',
+    target: 'request',
+    matchType: 'host_equals',
+    pattern: 'example.com',
+    ...overrides,
+  }
+}
+
+function createProfile(overrides: Partial<Profile> = {}): Profile {
+  return {
+    id: 'profile-id',
+    name: 'Test Profile',
+    color: '#7c3aed',
+    headers: [],
+    urlFilters: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    ...overrides,
+  }
+}
+
+describe('ModHeader export', () => {
+  it('maps request and response headers', () => {
+    const converted = convertProfileToModHeader(createProfile({
+      headers: [
+        createHeader({ name: 'Authorization', value: 'Bearer x', comment: 'Token' }),
+        createHeader({ name: 'Accept', value: 'text/html', operation: 'append', enabled: false }),
+        createHeader({ name: 'Cookie', value: 'ignored', operation: 'remove' }),
+        createHeader({ name: 'Server', value: 'test', type: 'response' }),
+      ],
+    }), 1)
+
+    expect(converted).toEqual({
+      title: 'Test Profile',
+      shortTitle: '2',
+      version: 2,
+      hideComment: false,
+      headers: [
+        { enabled: true, name: 'Authorization', value: 'Bearer x', comment: 'Token' },
+        { enabled: false, name: 'Accept', value: 'text/html', appendMode: true },
+        { enabled: true, name: 'Cookie', value: '' },
+      ],
+      respHeaders: [{ enabled: true, name: 'Server', value: 'test' }],
+    })
+  })
+
+  it('converts URL filters and resource types', () => {
+    const warnings: ModHeaderExportWarning[] = []
+    const converted = convertProfileToModHeader(createProfile({
+      urlFilters: [
+        createFilter({ matchType: 'url_contains', pattern: '/api' }),
+        createFilter({ type: 'exclude', matchType: 'regex', pattern: 'static', enabled: false }),
+        createFilter({ pattern: '  ' }),
+      ],
+      resourceTypes: ['xmlhttprequest', 'webtransport'],
+    }), 0, warnings)
+
+    expect(converted.urlFilters).toEqual([{ enabled: true, urlRegex: '\\/api' }])
+    expect(converted.excludeUrlFilters).toEqual([{ enabled: false, urlRegex: 'static' }])
+    expect(converted.resourceFilters).toEqual([{ enabled: true, resourceType: ['xmlhttprequest'] }])
+    expect(warnings).toEqual([{ code: 'resource_types', profile: 'Test Profile', detail: 'webtransport' }])
+  })
+
+  it('reports what ModHeader cannot express', () => {
+    const { warnings } = convertProfilesToModHeader([createProfile({
+      headers: [
+        createHeader({ name: 'X-Scoped', urlFilters: [createFilter()] }),
+        createHeader({ name: 'X-User', value: '{{user}}' }),
+      ],
+      urlFilters: [
+        createFilter({ target: 'tab', pattern: 'app.example.com' }),
+        createFilter({ matchType: 'localhost_port', pattern: 'example.com' }),
+      ],
+      requestMethods: ['get', 'post'],
+    })])
+
+    expect(warnings.map(w => [w.code, w.header ?? w.detail])).toEqual([
+      ['header_scope', 'X-Scoped'],
+      ['template', 'X-User'],
+      ['request_methods', 'get, post'],
+      ['tab_filter', 'app.example.com'],
+      ['invalid_filter', 'example.com'],
+    ])
+  })
+
+  it('round-trips through the ModHeader importer', () => {
+    const original = JSON.parse(modHeaderExport) as ModHeaderProfile[]
+    const imported = original.map((profile, i) => convertModHeaderProfile(profile, i))
+    const { data, warnings } = convertProfilesToModHeader(imported)
+    const exported = JSON.parse(data)
+
+    expect(warnings).toEqual([])
+    expect(isModHeaderFormat(exported)).toBe(true)
+    expect(exported[0].title).toBe(original[0]!.title)
+    expect(exported[0].headers.map((h: ModHeaderProfile['headers'][number]) => [h.name, h.value, h.enabled]))
+      .toEqual(original[0]!.headers.map(h => [h.name, h.value, h.enabled]))
+  })
+})
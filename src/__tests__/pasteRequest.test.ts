@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { getUrlFilterForRequestUrl, parsePastedRequest, splitShellArguments } from '@/lib/pasteRequest'
+
+// As copied with "Copy as cURL (bash)" in Chrome DevTools
+const DEVTOOLS_CURL = `curl 'https://api.example.com/v1/users?page=2' \\
+  -H 'accept: application/json' \\
+  -H 'accept-language: en-US,en;q=0.9' \\
+  -H $'authorization: Bearer it\\'s-a-token' \\
+  -b 'session=abc; theme=dark' \\
+  -H 'priority: u=1, i' \\
+  -H 'sec-ch-ua-mobile: ?0' \\
+  -H 'sec-fetch-mode: cors' \\
+  -H 'user-agent: Mozilla/5.0' \\
+  -H 'x-tenant;' \\
+  --data-raw '{"a":1}' \\
+  --compressed`
+
+describe('pasteRequest', () => {
+  describe('splitShellArguments', () => {
+    it('handles quotes, escapes and line continuations', () => {
+      expect(splitShellArguments(`a 'b c' "d \\"e\\"" $'f\\ng' h\\ i \\\n j`)).toEqual([
+        'a', 'b c', 'd "e"', 'f\ng', 'h i', 'j',
+      ])
+    })
+  })
+
+  describe('parsePastedRequest', () => {
+    it('parses curl commands copied from DevTools', () => {
+      const parsed = parsePastedRequest(DEVTOOLS_CURL)!
+
+      expect(parsed.source).toBe('curl')
+      expect(parsed.url).toBe('https://api.example.com/v1/users?page=2')
+      expect(parsed.headers).toEqual([
+        { name: 'accept', value: 'application/json' },
+        { name: 'accept-language', value: 'en-US,en;q=0.9' },
+        { name: 'authorization', value: "Bearer it's-a-token" },
+        { name: 'Cookie', value: 'session=abc; theme=dark' },
+        { name: 'user-agent', value: 'Mozilla/5.0' },
+      ])
+      expect(parsed.skipped).toEqual(['priority', 'sec-ch-ua-mobile', 'sec-fetch-mode'])
+      expect(parsed.empty).toEqual(['x-tenant'])
+    })
+
+    it('maps curl shorthand options to headers', () => {
+      const parsed = parsePastedRequest(
+        `$ curl -X POST -u user:pass -A 'Agent/1' -e https://example.com/ -HX-Inline:1 -H 'Accept:' --url http://localhost:3000/api`
+      )!
+
+      expect(parsed.url).toBe('http://localhost:3000/api')
+      expect(parsed.headers).toEqual([
+        { name: 'Authorization', value: 'Basic dXNlcjpwYXNz' },
+        { name: 'User-Agent', value: 'Agent/1' },
+        { name: 'Referer', value: 'https://example.com/' },
+        { name: 'X-Inline', value: '1' },
+      ])
+    })
+
+    it('parses raw HTTP/1.1 requests', () => {
+      const parsed = parsePastedRequest([
+        'GET /v1/users HTTP/1.1',
+        'Host: api.example.com',
+        'Authorization: Bearer abc',
+        'Connection: keep-alive',
+        'X-Value: a: b',
+        '',
+        'body: not a header',
+      ].join('\r\n'))!
+
+      expect(parsed.source).toBe('raw')
+      expect(parsed.url).toBe('https://api.example.com/v1/users')
+      expect(parsed.headers).toEqual([
+        { name: 'Authorization', value: 'Bearer abc' },
+        { name: 'X-Value', value: 'a: b' },
+      ])
+      expect(parsed.skipped).toEqual(['Host', 'Connection'])
+    })
+
+    it('parses HTTP/2 header blocks with pseudo-headers', () => {
+      const parsed = parsePastedRequest([
+        ':authority: api.example.com',
+        ':method: GET',
+        ':path: /graphql',
+        ':scheme: https',
+        'x-api-key: 123',
+      ].join('\n'))!
+
+      expect(parsed.url).toBe('https://api.example.com/graphql')
+      expect(parsed.headers).toEqual([{ name: 'x-api-key', value: '123' }])
+    })
+
+    it('returns null when nothing is found', () => {
+      expect(parsePastedRequest('just some text')).toBeNull()
+    })
+  })
+
+  describe('getUrlFilterForRequestUrl', () => {
+    it('suggests a filter for the request host', () => {
+      expect(getUrlFilterForRequestUrl('https://api.example.com/x')).toEqual({ matchType: 'host_equals', pattern: 'api.example.com' })
+      expect(getUrlFilterForRequestUrl('http://localhost:3000/x')).toEqual({ matchType: 'localhost_port', pattern: 'localhost:3000' })
+      expect(getUrlFilterForRequestUrl('file:///tmp/x')).toBeNull()
+    })
+  })
+})
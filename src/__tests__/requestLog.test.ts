@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { RequestLogEntry, RequestLogRule } from '@/types'
+import {
+  addRuleGeneration,
+  clearRequestLog,
+  createRequestLogEntry,
+  fetchRequestLog,
+  filterRequestLog,
+  getRulesAt,
+  prependRequestLogEntries,
+} from '@/lib/requestLog'
+
+const RULES: Record<number, RequestLogRule> = {
+  1: {
+    profileId: 'p1',
+    profileName: 'Staging',
+    headers: [{ name: 'X-Env', operation: 'set', type: 'request' }],
+  },
+}
+
+function createEntry(overrides: Partial<RequestLogEntry> = {}): RequestLogEntry {
+  return {
+    id: 'entry',
+    timeStamp: 1000,
+    tabId: 1,
+    url: 'https://api.example.com/users',
+    tabUrl: 'https://app.example.com/',
+    ruleId: 1,
+    rule: RULES[1] ?? null,
+    ...overrides,
+  }
+}
+
+describe('requestLog', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('rule generations', () => {
+    it('describes a match with the rules of its time after a rebuild reuses the ID', () => {
+      const production: RequestLogRule = { profileId: 'p2', profileName: 'Production', headers: [] }
+      let generations = addRuleGeneration([], { since: 100, rules: RULES })
+      const match = { ruleId: 1, tabId: 3, timeStamp: 150 }
+      // A navigation rebuilds the rules and hands rule 1 to another profile
+      generations = addRuleGeneration(generations, { since: 200, rules: { 1: production } })
+
+      expect(createRequestLogEntry(match, getRulesAt(generations, match.timeStamp), null).rule).toBe(RULES[1])
+      expect(createRequestLogEntry({ ...match, timeStamp: 250 }, getRulesAt(generations, 250), null).rule).toBe(production)
+    })
+
+    it('forgets the oldest builds beyond the limit', () => {
+      let generations = addRuleGeneration([], { since: 100, rules: RULES }, 2)
+      generations = addRuleGeneration(generations, { since: 200, rules: {} }, 2)
+      generations = addRuleGeneration(generations, { since: 300, rules: {} }, 2)
+
+      expect(generations.map(g => g.since)).toEqual([200, 300])
+      expect(createRequestLogEntry({ ruleId: 1, tabId: 3, timeStamp: 150 }, getRulesAt(generations, 150), null).rule).toBeNull()
+    })
+  })
+
+  describe('createRequestLogEntry', () => {
+    it('describes debug matches with the request details', () => {
+      const entry = createRequestLogEntry(
+        { ruleId: 1, tabId: 3, timeStamp: 1000, requestId: '42', url: 'https://api.example.com/', method: 'post', resourceType: 'xmlhttprequest' },
+        RULES,
+        'https://app.example.com/'
+      )
+
+      expect(entry).toEqual({
+        id: '42:1',
+        timeStamp: 1000,
+        tabId: 3,
+        url: 'https://api.example.com/',
+        tabUrl: 'https://app.example.com/',
+        method: 'POST',
+        resourceType: 'xmlhttprequest',
+        ruleId: 1,
+        rule: RULES[1],
+      })
+    })
+
+    it('leaves out what getMatchedRules does not report', () => {
+      const entry = createRequestLogEntry({ ruleId: 7, tabId: -1, timeStamp: 1000 }, RULES, null)
+
+      expect(entry).toEqual({ id: '1000:-1:7', timeStamp: 1000, tabId: -1, url: null, tabUrl: null, ruleId: 7, rule: null })
+    })
+  })
+
+  describe('prependRequestLogEntries', () => {
+    it('keeps the newest entries up to the limit', () => {
+      const log = [createEntry({ id: 'b' }), createEntry({ id: 'a' })]
+
+      expect(prependRequestLogEntries(log, [createEntry({ id: 'c' })], 2).map(e => e.id)).toEqual(['c', 'b'])
+    })
+  })
+
+  describe('filterRequestLog', () => {
+    const entries = [
+      createEntry({ id: 'api', method: 'GET' }),
+      createEntry({ id: 'cdn', url: 'https://cdn.example.com/app.js', rule: null }),
+    ]
+
+    it('matches every word against URLs, profile and header names', () => {
+      expect(filterRequestLog(entries, '').map(e => e.id)).toEqual(['api', 'cdn'])
+      expect(filterRequestLog(entries, 'staging x-env').map(e => e.id)).toEqual(['api'])
+      expect(filterRequestLog(entries, 'CDN').map(e => e.id)).toEqual(['cdn'])
+      expect(filterRequestLog(entries, 'app.example.com get').map(e => e.id)).toEqual(['api'])
+      expect(filterRequestLog(entries, 'other')).toEqual([])
+    })
+  })
+
+  describe('background messages', () => {
+    it('returns null outside the extension', async () => {
+      vi.stubGlobal('chrome', undefined)
+
+      expect(await fetchRequestLog()).toBeNull()
+      expect(await clearRequestLog()).toBe(false)
+    })
+
+    it('asks the background script for the log', async () => {
+      const sendMessage = vi.fn(async (message: { type: string }) =>
+        message.type === 'GET_REQUEST_LOG' ? { source: 'debug', entries: [] } : { ok: true }
+      )
+      vi.stubGlobal('chrome', { runtime: { sendMessage } })
+
+      expect(await fetchRequestLog()).toEqual({ source: 'debug', entries: [] })
+      expect(await clearRequestLog()).toBe(true)
+      expect(sendMessage.mock.calls.map(([message]) => message.type)).toEqual(['GET_REQUEST_LOG', 'CLEAR_REQUEST_LOG'])
+    })
+
+    it('returns null when the background script reports an error', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.stubGlobal('chrome', { runtime: { sendMessage: vi.fn(async () => ({ error: 'quota exceeded' })) } })
+
+      expect(await fetchRequestLog()).toBeNull()
+    })
+  })
+})
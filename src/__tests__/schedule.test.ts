@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import type { ProfileSchedule, ScheduleWindow } from '@/types'
+import {
+  formatMinuteOfDay,
+  formatRemainingTime,
+  getNextScheduleChange,
+  getScheduleRemainingMs,
+  getScheduleState,
+  isWithinScheduleWindow,
+  parseMinuteOfDay,
+} from '@/lib/schedule'
+
+// Monday 5 January 2026, local time
+const monday = (hours: number, minutes = 0) => new Date(2026, 0, 5, hours, minutes).getTime()
+const HOUR = 60 * 60 * 1000
+
+const BUSINESS_HOURS: ScheduleWindow = { id: 'w1', days: [1, 2, 3, 4, 5], start: 9 * 60, end: 17 * 60 }
+const NIGHT_SHIFT: ScheduleWindow = { id: 'w2', days: [0], start: 22 * 60, end: 6 * 60 }
+
+const withSchedule = (schedule: ProfileSchedule) => ({ schedule })
+
+describe('schedule', () => {
+  describe('isWithinScheduleWindow', () => {
+    it('matches the days and hours of a window', () => {
+      expect(isWithinScheduleWindow(BUSINESS_HOURS, new Date(monday(9)))).toBe(true)
+      expect(isWithinScheduleWindow(BUSINESS_HOURS, new Date(monday(17)))).toBe(false)
+      expect(isWithinScheduleWindow(BUSINESS_HOURS, new Date(monday(8, 59)))).toBe(false)
+      expect(isWithinScheduleWindow(BUSINESS_HOURS, new Date(monday(12) - 24 * HOUR))).toBe(false)
+    })
+
+    it('continues windows past midnight into the next day', () => {
+      expect(isWithinScheduleWindow(NIGHT_SHIFT, new Date(monday(5)))).toBe(true)
+      expect(isWithinScheduleWindow(NIGHT_SHIFT, new Date(monday(6)))).toBe(false)
+      expect(isWithinScheduleWindow(NIGHT_SHIFT, new Date(monday(23)))).toBe(false)
+      expect(isWithinScheduleWindow(NIGHT_SHIFT, new Date(monday(23) - 24 * HOUR))).toBe(true)
+    })
+  })
+
+  describe('getScheduleState', () => {
+    it('checks the expiry before the windows', () => {
+      expect(getScheduleState({}, monday(10))).toBe('unscheduled')
+      expect(getScheduleState(withSchedule({ windows: [] }), monday(10))).toBe('unscheduled')
+      expect(getScheduleState(withSchedule({ expiresAt: monday(11) }), monday(10))).toBe('active')
+      expect(getScheduleState(withSchedule({ expiresAt: monday(10) }), monday(10))).toBe('expired')
+      expect(getScheduleState(withSchedule({ windows: [BUSINESS_HOURS] }), monday(18))).toBe('outside_windows')
+      expect(getScheduleState(withSchedule({ expiresAt: monday(9), windows: [BUSINESS_HOURS] }), monday(18))).toBe('expired')
+    })
+  })
+
+  describe('getNextScheduleChange', () => {
+    it('finds the next window start or end', () => {
+      const profile = withSchedule({ windows: [BUSINESS_HOURS] })
+
+      expect(getNextScheduleChange(profile, monday(8))).toBe(monday(9))
+      expect(getNextScheduleChange(profile, monday(10))).toBe(monday(17))
+      // Friday evening waits for Monday morning
+      expect(getNextScheduleChange(profile, monday(18) + 4 * 24 * HOUR)).toBe(monday(9) + 7 * 24 * HOUR)
+    })
+
+    it('stops at the expiry', () => {
+      expect(getNextScheduleChange(withSchedule({ expiresAt: monday(12), windows: [BUSINESS_HOURS] }), monday(10)))
+        .toBe(monday(12))
+      expect(getNextScheduleChange(withSchedule({ expiresAt: monday(12) }), monday(13))).toBeNull()
+      expect(getNextScheduleChange({}, monday(10))).toBeNull()
+    })
+
+    it('skips boundaries where overlapping windows keep the profile on', () => {
+      const profile = withSchedule({ windows: [BUSINESS_HOURS, { id: 'w3', days: [1], start: 16 * 60, end: 20 * 60 }] })
+
+      expect(getNextScheduleChange(profile, monday(10))).toBe(monday(20))
+    })
+  })
+
+  describe('getScheduleRemainingMs', () => {
+    it('returns the time until the profile stops applying', () => {
+      expect(getScheduleRemainingMs(withSchedule({ expiresAt: monday(10, 30) }), monday(10))).toBe(HOUR / 2)
+      expect(getScheduleRemainingMs(withSchedule({ windows: [BUSINESS_HOURS] }), monday(15))).toBe(2 * HOUR)
+      expect(getScheduleRemainingMs(withSchedule({ windows: [BUSINESS_HOURS] }), monday(18))).toBeNull()
+      expect(getScheduleRemainingMs({}, monday(10))).toBeNull()
+    })
+  })
+
+  describe('formatting', () => {
+    it('formats remaining time in the largest whole unit', () => {
+      expect(formatRemainingTime(1000)).toBe('1m')
+      expect(formatRemainingTime(29.5 * 60 * 1000)).toBe('30m')
+      expect(formatRemainingTime(90 * 60 * 1000)).toBe('1h')
+      expect(formatRemainingTime(50 * HOUR)).toBe('2d')
+    })
+
+    it('converts between minutes after midnight and time input values', () => {
+      expect(formatMinuteOfDay(9 * 60 + 5)).toBe('09:05')
+      expect(parseMinuteOfDay('17:30')).toBe(17 * 60 + 30)
+      expect(parseMinuteOfDay('24:00')).toBeNull()
+      expect(parseMinuteOfDay('')).toBeNull()
+    })
+  })
+})
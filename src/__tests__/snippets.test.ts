@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest'
+import type { HeaderRule, Profile, UrlFilter } from '@/types'
+import { buildSnippet, getSnippetHeaders, isProfileAppliedToSnippetRequest, isProfileAppliedToUrl } from '@/lib/snippets'
+
+function createHeader(overrides: Partial<HeaderRule> = {}): HeaderRule {
+  return {
+    id: 'header-id',
+    enabled: true,
+    name: 'X-Test',
+    value: 'value',
+    comment: '',
+    type: 'request',
+    operation: 'set',
+    ...overrides,
+  }
+}
+
+function createFilter(overrides: Partial<UrlFilter> = {}): UrlFilter {
+  return {
+    id: 'filter-id',
+    enabled: true,
+    type: 'include',
+    matchType: 'host_equals',
+    pattern: 'api.example.com',
+    ...overrides,
+  }
+}
+
+function createProfile(overrides: Partial<Profile> = {}): Profile {
+  return {
+    id: 'profile-id',
+    name: 'Test Profile',
+    color: '#7c3aed',
+    headers: [],
+    urlFilters: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    ...overrides,
+  }
+}
+
+const URL = 'https://api.example.com/users?id=1'
+
+describe('snippets', () => {
+  describe('getSnippetHeaders', () => {
+    it('includes only enabled request headers that apply to the URL', () => {
+      const profile = createProfile({
+        headers: [
+          createHeader({ name: 'Authorization', value: 'Bearer x' }),
+          createHeader({ name: 'X-Disabled', enabled: false }),
+          createHeader({ name: 'X-Response', type: 'response' }),
+          createHeader({ name: 'X-Other', urlFilters: [createFilter({ pattern: 'other.example.com' })] }),
+          createHeader({ name: 'X-Scoped', urlFilters: [createFilter({ target: 'request' })] }),
+          createHeader({ name: ' ' }),
+        ],
+      })
+
+      expect(getSnippetHeaders(profile, URL)).toEqual([
+        { name: 'Authorization', value: 'Bearer x' },
+        { name: 'X-Scoped', value: 'value' },
+      ])
+    })
+
+    it('returns nothing when the profile filters exclude the URL', () => {
+      const profile = createProfile({
+        headers: [createHeader()],
+        urlFilters: [createFilter({ type: 'exclude', matchType: 'path_starts_with', pattern: '/users' })],
+      })
+
+      expect(isProfileAppliedToUrl(profile, URL)).toBe(false)
+      expect(getSnippetHeaders(profile, URL)).toEqual([])
+      expect(isProfileAppliedToUrl(profile, 'https://api.example.com/teams')).toBe(true)
+    })
+
+    it('applies set, append and remove in order', () => {
+      const profile = createProfile({
+        headers: [
+          createHeader({ name: 'Accept', value: 'text/html' }),
+          createHeader({ name: 'accept', value: 'application/json', operation: 'append' }),
+          createHeader({ name: 'Cookie', operation: 'remove' }),
+          createHeader({ name: 'X-Later', operation: 'remove' }),
+          createHeader({ name: 'X-Later', value: 'back' }),
+        ],
+      })
+
+      expect(getSnippetHeaders(profile, URL)).toEqual([
+        { name: 'Accept', value: 'text/html, application/json' },
+        { name: 'Cookie', value: null },
+        { name: 'X-Later', value: 'back' },
+      ])
+    })
+
+    it('resolves header values', () => {
+      const profile = createProfile({ headers: [createHeader({ value: '{{token}}' })] })
+
+      expect(getSnippetHeaders(profile, URL, { variables: [{ id: 'v', name: 'token', value: 'abc' }] })).toEqual([
+        { name: 'X-Test', value: 'abc' },
+      ])
+    })
+
+    it('leaves out the headers the rules skip', () => {
+      const profile = createProfile({
+        headers: [
+          createHeader({ name: 'X-Empty', value: '' }),
+          createHeader({ name: 'X Bad', value: 'x' }),
+          createHeader({ name: 'X-Blank', value: '{{blank}}' }),
+          createHeader({ name: 'X-Kept' }),
+        ],
+      })
+
+      expect(getSnippetHeaders(profile, URL, { variables: [{ id: 'v', name: 'blank', value: '' }] })).toEqual([
+        { name: 'X-Kept', value: 'value' },
+      ])
+    })
+
+    it('sends nothing when the profile leaves out GET requests from fetch', () => {
+      const headers = [createHeader()]
+
+      expect(getSnippetHeaders(createProfile({ headers, requestMethods: ['get', 'post'] }), URL)).toHaveLength(1)
+      expect(isProfileAppliedToSnippetRequest({ requestMethods: ['post'] })).toBe(false)
+      expect(getSnippetHeaders(createProfile({ headers, requestMethods: ['post'] }), URL)).toEqual([])
+      expect(getSnippetHeaders(createProfile({ headers, resourceTypes: ['main_frame'] }), URL)).toEqual([])
+    })
+  })
+
+  describe('buildSnippet', () => {
+    const headers = [
+      { name: 'Authorization', value: "Bearer it's" },
+      { name: 'X-Empty', value: '' },
+      { name: 'Cookie', value: null },
+    ]
+
+    it('builds curl commands', () => {
+      expect(buildSnippet('curl', URL, headers)).toBe([
+        "curl 'https://api.example.com/users?id=1' \\",
+        `  -H 'Authorization: Bearer it'\\''s' \\`,
+        "  -H 'X-Empty;' \\",
+        "  -H 'Cookie:'",
+      ].join('\n'))
+    })
+
+    it('builds HTTPie commands', () => {
+      expect(buildSnippet('httpie', URL, headers)).toBe([
+        "http GET 'https://api.example.com/users?id=1' \\",
+        `  'Authorization:Bearer it'\\''s' \\`,
+        "  'X-Empty;' \\",
+        "  'Cookie:'",
+      ].join('\n'))
+    })
+
+    it('builds fetch calls and lists headers fetch cannot remove', () => {
+      expect(buildSnippet('fetch', URL, headers)).toBe([
+        '// Removed by the profile, cannot be removed with fetch: Cookie',
+        'await fetch("https://api.example.com/users?id=1", {',
+        '  headers: {',
+        `    "Authorization": "Bearer it's",`,
+        '    "X-Empty": "",',
+        '  },',
+        '})',
+      ].join('\n'))
+      expect(buildSnippet('fetch', URL, [])).toBe('await fetch("https://api.example.com/users?id=1")')
+    })
+  })
+})
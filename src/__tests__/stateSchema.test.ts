@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatSchemaIssue,
+  validateHeaderSuggestions,
+  validateProfile,
+  validateProfiles,
+  validateState,
+  validateVariables,
+} from '@/lib/stateSchema'
+
+const NOW = 1_700_000_000_000
+
+const validProfile = {
+  id: 'p1',
+  name: 'Dev',
+  color: '#2563eb',
+  enabled: true,
+  headers: [{ id: 'h1', enabled: true, name: 'X-Dev', value: '1', comment: '', type: 'request', operation: 'set' }],
+  urlFilters: [{ id: 'f1', enabled: true, matchType: 'host_equals', pattern: 'example.com', type: 'include', target: 'tab' }],
+  resourceTypes: ['xmlhttprequest'],
+  requestMethods: ['get'],
+  variables: [{ id: 'v1', name: 'TOKEN', value: 'abc', secret: true }],
+  schedule: { expiresAt: NOW, windows: [{ id: 'w1', days: [1, 2], start: 540, end: 1020 }] },
+  createdAt: 1,
+  updatedAt: 2,
+}
+
+describe('stateSchema', () => {
+  describe('validateProfile', () => {
+    it('keeps a valid profile as it is', () => {
+      expect(validateProfile(validProfile, 'profile', NOW)).toEqual({ value: validProfile, issues: [] })
+    })
+
+    it('fills in missing optional fields without reporting them', () => {
+      const { value, issues } = validateProfile({
+        id: 'p1',
+        name: 'Hand-written',
+        headers: [{ name: 'X-Team' }],
+        urlFilters: [{ pattern: 'example.com' }],
+      }, 'profile', NOW)
+
+      expect(issues.filter(i => !i.path.endsWith('.id'))).toEqual([])
+      expect(value).toMatchObject({
+        color: '#7c3aed',
+        headers: [{ enabled: true, name: 'X-Team', value: '', comment: '', type: 'request', operation: 'set' }],
+        urlFilters: [{ enabled: true, matchType: 'dnr_url_filter', pattern: 'example.com', type: 'include' }],
+        createdAt: NOW,
+      })
+    })
+
+    it('drops headers whose type or operation would have to be guessed', () => {
+      const { value, issues } = validateProfile({
+        ...validProfile,
+        headers: [
+          { ...validProfile.headers[0], operation: 'delete' },
+          { ...validProfile.headers[0], type: 'both' },
+          { ...validProfile.headers[0], name: 42 },
+          'X-Text: header',
+          validProfile.headers[0],
+        ],
+      }, 'profile', NOW)
+
+      expect(value?.headers).toEqual([validProfile.headers[0]])
+      expect(issues.map(i => [i.path, i.action])).toEqual([
+        ['profile.headers[0]', 'dropped'],
+        ['profile.headers[1]', 'dropped'],
+        ['profile.headers[2]', 'dropped'],
+        ['profile.headers[3]', 'dropped'],
+      ])
+    })
+
+    it('repairs values of the wrong type', () => {
+      const { value, issues } = validateProfile({
+        ...validProfile,
+        color: 'not a color',
+        enabled: 'yes',
+        headers: [{ ...validProfile.headers[0], id: 7, value: 42, enabled: 'true' }],
+        urlFilters: [{ ...validProfile.urlFilters[0], target: 'frame' }],
+        createdAt: 'yesterday',
+      }, 'profile', NOW)
+
+      expect(value).toMatchObject({
+        color: '#7c3aed',
+        enabled: false,
+        headers: [{ value: '42', enabled: true }],
+        createdAt: NOW,
+      })
+      expect(value?.headers[0]?.id).toEqual(expect.any(String))
+      expect(value?.urlFilters[0]).not.toHaveProperty('target')
+      expect(issues.map(i => i.path)).toEqual([
+        'profile.color',
+        'profile.headers[0].id',
+        'profile.headers[0].enabled',
+        'profile.headers[0].value',
+        'profile.urlFilters[0].target',
+        'profile.createdAt',
+        'profile.enabled',
+      ])
+      expect(issues.every(i => i.action === 'repaired')).toBe(true)
+    })
+
+    it('drops unknown URL filter match types, resource types, methods and schedule windows', () => {
+      const { value, issues } = validateProfile({
+        ...validProfile,
+        urlFilters: [{ ...validProfile.urlFilters[0], matchType: 'glob' }],
+        resourceTypes: ['xmlhttprequest', 'document'],
+        requestMethods: 'GET',
+        schedule: { windows: [{ id: 'w', days: [1], start: 540, end: 2000 }, { id: 'w2', days: [7, 1], start: 0, end: 60 }] },
+      }, 'profile', NOW)
+
+      expect(value?.urlFilters).toEqual([])
+      expect(value?.resourceTypes).toEqual(['xmlhttprequest'])
+      expect(value).not.toHaveProperty('requestMethods')
+      expect(value?.schedule).toEqual({ windows: [{ id: 'w2', days: [1], start: 0, end: 60 }] })
+      expect(issues.map(i => [i.path, i.action])).toEqual([
+        ['profile.urlFilters[0]', 'dropped'],
+        ['profile.resourceTypes', 'dropped'],
+        ['profile.requestMethods', 'repaired'],
+        ['profile.schedule.windows[0]', 'dropped'],
+        ['profile.schedule.windows[1].days', 'repaired'],
+      ])
+    })
+
+    it('returns null for values that are not a profile', () => {
+      expect(validateProfile('Dev').value).toBeNull()
+      expect(validateProfiles([null, validProfile], 'profiles', NOW).value).toEqual([validProfile])
+    })
+  })
+
+  it('drops variables without a name', () => {
+    const { value, issues } = validateVariables([{ id: 'v', name: '' }, { id: 'w', name: 'A', value: 1, secret: 'no' }])
+
+    expect(value).toEqual([{ id: 'w', name: 'A', value: '1' }])
+    expect(issues.map(formatSchemaIssue)).toEqual([
+      'variables[0]: Variable name is "" (left out)',
+      'variables[1].value: value is a number; converted to text',
+      'variables[1].secret: secret is "no"; set to false',
+    ])
+  })
+
+  it('keeps valid header suggestions and drops the rest', () => {
+    const { value, issues } = validateHeaderSuggestions({
+      names: ['Authorization', 3],
+      valuesByName: { authorization: [{ value: 'Bearer x', comment: 'Dev' }, { comment: 'no value' }], accept: 'text/html' },
+      hiddenNames: ['x-debug'],
+    })
+
+    expect(value).toEqual({
+      names: ['Authorization'],
+      valuesByName: { authorization: [{ value: 'Bearer x', comment: 'Dev' }], accept: [] },
+      hiddenNames: ['x-debug'],
+    })
+    expect(issues.map(i => i.path)).toEqual([
+      'headerSuggestions.valuesByName.authorization[1]',
+      'headerSuggestions.valuesByName.accept',
+      'headerSuggestions.names[1]',
+    ])
+    expect(validateHeaderSuggestions(['Authorization']).value).toBeUndefined()
+  })
+
+  it('checks a whole state and unselects a missing active profile', () => {
+    const { value, issues } = validateState({
+      schemaVersion: 5,
+      profiles: [validProfile],
+      activeProfileId: 'gone',
+      darkModePreference: 'dim',
+      paused: true,
+      subscriptions: [{ id: 's', url: 'https://example.com/team.json', createdAt: 1 }, { url: 'https://example.com' }],
+    } as never, NOW)
+
+    expect(value).toMatchObject({
+      schemaVersion: 5,
+      profiles: [validProfile],
+      activeProfileId: null,
+      darkModePreference: 'system',
+      languagePreference: 'auto',
+      paused: true,
+      variables: [],
+      subscriptions: [{ id: 's' }],
+    })
+    expect(issues.map(i => i.path)).toEqual(['activeProfileId', 'subscriptions[1]', 'darkModePreference'])
+  })
+})
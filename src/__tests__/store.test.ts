@@ -1,6 +1,10 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { setActivePinia, createPinia } from 'pinia'
 import { useHeadersStore } from '../stores/headers'
+import { encryptExport } from '../lib/exportCrypto'
+import { CURRENT_SCHEMA_VERSION } from '../lib/migrations'
+import requestlyExport from '../__import_examples__/Requestly/requestly-rules.json?raw'
+import headerEditorExport from '../__import_examples__/HeaderEditor/header-editor-rules.json?raw'
 
 // Mock chrome.storage
 vi.stubGlobal('chrome', undefined)
@@ -95,6 +99,51 @@ describe('useHeadersStore', () => {
       expect(profile.name).toBe('New Name')
       expect(profile.color).toBe('#ff0000')
     })
+
+    it('enables new profiles alongside existing ones', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      store.addProfile()
+
+      expect(store.profiles.map(p => p.enabled)).toEqual([true, true])
+    })
+
+    it('toggles a profile on and off independently of the active profile', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      store.addProfile()
+
+      const first = store.profiles[0]
+      if (!first) throw new Error('No profile')
+
+      store.toggleProfileEnabled(first.id)
+      expect(first.enabled).toBe(false)
+      expect(store.profiles[1]?.enabled).toBe(true)
+      expect(store.activeProfileId).toBe(store.profiles[1]?.id)
+
+      store.undo()
+      expect(store.profiles[0]?.enabled).toBe(true)
+    })
+
+    it('turns a profile on when it gets an end time, and clears a passed end time when turned back on', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      const profile = store.profiles[0]
+      if (!profile) throw new Error('No profile')
+      store.toggleProfileEnabled(profile.id)
+
+      store.setProfileSchedule(profile.id, { expiresAt: Date.now() + 60 * 1000 })
+      expect(profile.enabled).toBe(true)
+
+      store.setProfileSchedule(profile.id, { expiresAt: Date.now() - 1 })
+      store.toggleProfileEnabled(profile.id)
+      store.toggleProfileEnabled(profile.id)
+      expect(profile.enabled).toBe(true)
+      expect(profile.schedule?.expiresAt).toBeUndefined()
+
+      store.setProfileSchedule(profile.id, null)
+      expect(profile.schedule).toBeUndefined()
+    })
   })
 
   describe('header management', () => {
@@ -242,6 +291,85 @@ describe('useHeadersStore', () => {
       expect(store.canRedo).toBe(false)
       expect(store.requestHeaders.length).toBe(1)
     })
+
+    it('names the edits undo and redo would revert or repeat', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+
+      store.addHeader('request')
+      store.updateHeader(store.requestHeaders[0]!.id, { name: 'X-Test' })
+      expect(store.undoAction).toBe('update_header')
+      expect(store.redoAction).toBeNull()
+
+      store.undo()
+      expect(store.requestHeaders[0]?.name).toBe('')
+      expect(store.undoAction).toBe('add_header')
+      expect(store.redoAction).toBe('update_header')
+    })
+
+    describe('across popup opens', () => {
+      let local: Record<string, unknown>
+      let session: Record<string, unknown>
+
+      beforeEach(() => {
+        local = {}
+        session = {}
+        const area = (items: Record<string, unknown>) => ({
+          get: vi.fn(async (key: string) => (key in items ? { [key]: JSON.parse(JSON.stringify(items[key])) } : {})),
+          set: vi.fn(async (values: Record<string, unknown>) => { Object.assign(items, JSON.parse(JSON.stringify(values))) }),
+        })
+        vi.stubGlobal('chrome', {
+          storage: { local: area(local), session: area(session), onChanged: { addListener: vi.fn() } },
+        })
+      })
+
+      afterEach(() => {
+        vi.stubGlobal('chrome', undefined)
+      })
+
+      async function reopenPopup() {
+        await Promise.resolve()
+        setActivePinia(createPinia())
+        const store = useHeadersStore()
+        await store.loadState()
+        return store
+      }
+
+      it('keeps the undo history in session storage', async () => {
+        const first = await reopenPopup()
+        first.addHeader('request')
+        first.updateHeader(first.requestHeaders[0]!.id, { name: 'X-Kept' })
+        first.undo()
+
+        const store = await reopenPopup()
+        expect(store.requestHeaders[0]?.name).toBe('')
+        expect(store.undoAction).toBe('add_header')
+        expect(store.redoAction).toBe('update_header')
+
+        store.redo()
+        expect(store.requestHeaders[0]?.name).toBe('X-Kept')
+        store.undo()
+        store.undo()
+        expect(store.requestHeaders).toHaveLength(0)
+        expect(store.canUndo).toBe(false)
+      })
+
+      it('makes changes from while the popup was closed an undo step', async () => {
+        const first = await reopenPopup()
+        first.addProfile()
+        const firstId = first.profiles[0]!.id
+        await Promise.resolve()
+        local.openheaders_state = { ...(local.openheaders_state as object), activeProfileId: firstId }
+
+        const store = await reopenPopup()
+        expect(store.activeProfileId).toBe(firstId)
+        expect(store.undoAction).toBe('outside_change')
+
+        store.undo()
+        expect(store.activeProfileId).toBe(store.profiles[1]!.id)
+        expect(store.undoAction).toBe('add_profile')
+      })
+    })
   })
 
   describe('import/export', () => {
@@ -259,12 +387,30 @@ describe('useHeadersStore', () => {
       const exported = store.exportProfiles()
       const data = JSON.parse(exported)
 
-      expect(data.version).toBe(1)
+      expect(data.version).toBe(CURRENT_SCHEMA_VERSION)
       expect(data.profiles).toBeDefined()
       expect(data.profiles.length).toBe(1)
       expect(data.exportedAt).toBeDefined()
     })
 
+    it('exports profiles in ModHeader format', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+
+      store.addHeader('request')
+      const header = store.requestHeaders[0]!
+      store.updateHeader(header.id, { name: 'X-Test', value: 'test-value' })
+      store.addProfile()
+
+      const all = store.exportProfilesToModHeader()
+      expect(JSON.parse(all.data).map((p: { title: string }) => p.title)).toEqual(store.profiles.map(p => p.name))
+      expect(all.warnings).toEqual([])
+
+      const single = JSON.parse(store.exportProfilesToModHeader(store.profiles[0]!.id).data)
+      expect(single).toHaveLength(1)
+      expect(single[0].headers).toEqual([{ enabled: false, name: 'X-Test', value: 'test-value' }])
+    })
+
     it('imports profiles from JSON', async () => {
       const store = useHeadersStore()
       await store.loadState()
@@ -299,6 +445,76 @@ describe('useHeadersStore', () => {
       expect(result).toBe(true)
       expect(store.profiles.length).toBe(2) // Original + imported
       expect(store.profiles[1]?.name).toBe('Imported Profile')
+      // Imports never start modifying traffic on their own
+      expect(store.profiles[1]?.enabled).toBe(false)
+    })
+
+    it('previews imports and matches profiles by name', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      const existing = store.profiles[0]!
+
+      const preview = store.previewImport(JSON.stringify({
+        version: 1,
+        profiles: [
+          { id: 'a', name: ` ${existing.name.toUpperCase()} `, color: '#000', headers: [], urlFilters: [] },
+          { id: 'b', name: 'New', color: '#000', headers: [], urlFilters: [] },
+        ],
+      }))!
+
+      expect(preview.format).toBe('openheaders')
+      expect(preview.profiles.map(p => [p.existingProfileId, p.action])).toEqual([
+        [existing.id, 'skip'],
+        [null, 'add'],
+      ])
+      // Previewing changes nothing
+      expect(store.profiles).toHaveLength(1)
+    })
+
+    it('applies skip, add and replace choices', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      const existing = store.profiles[0]!
+      store.addHeader('request')
+      store.addProfile()
+      const secondName = store.profiles[1]!.name
+
+      const preview = store.previewImport(JSON.stringify({
+        version: 1,
+        profiles: [
+          {
+            id: 'a',
+            name: existing.name,
+            color: '#000',
+            headers: [{ id: 'h', enabled: true, name: 'X-Shared', value: '1', comment: '', type: 'request', operation: 'set' }],
+            urlFilters: [],
+          },
+          { id: 'b', name: secondName, color: '#000', headers: [], urlFilters: [] },
+          { id: 'c', name: 'New', color: '#000', headers: [], urlFilters: [] },
+        ],
+      }))!
+
+      const result = store.applyImport(preview, ['replace', 'skip', 'add'])
+
+      expect(result).toEqual({ imported: 2, replaced: 1, skipped: 1, addedVariables: 0, warnings: [] })
+      expect(store.profiles.map(p => p.name)).toEqual([existing.name, secondName, 'New'])
+      const replaced = store.profiles[0]!
+      expect(replaced.id).toBe(existing.id)
+      expect(replaced.enabled).toBe(existing.enabled)
+      expect(replaced.headers.map(h => h.name)).toEqual(['X-Shared'])
+      expect(store.profiles[2]!.enabled).toBe(false)
+    })
+
+    it('returns conversion warnings with the import result', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+
+      const preview = store.previewImport(requestlyExport)!
+      const result = store.applyImport(preview)
+
+      expect(preview.format).toBe('requestly')
+      expect(result.imported).toBe(2)
+      expect(result.warnings).toEqual([expect.stringContaining('Redirect')])
     })
 
     it('rejects invalid import data', async () => {
@@ -312,6 +528,60 @@ describe('useHeadersStore', () => {
       consoleSpy.mockRestore()
     })
 
+    it('imports passphrase-encrypted exports', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const source = useHeadersStore()
+      await source.loadState()
+      source.updateProfile(source.activeProfileId!, { name: 'Encrypted' })
+      const encrypted = await encryptExport(source.exportProfiles(), 'passphrase-1', { iterations: 1000 })
+
+      setActivePinia(createPinia())
+      localStorage.clear()
+      const store = useHeadersStore()
+      await store.loadState()
+
+      // The plain importer refuses the envelope instead of treating it as profiles
+      expect(store.importProfiles(encrypted)).toBe(false)
+      expect(await store.importEncryptedProfiles(encrypted, 'wrong-passphrase')).toBe(false)
+      expect(store.profiles.some(p => p.name === 'Encrypted')).toBe(false)
+
+      expect(await store.importEncryptedProfiles(encrypted, 'passphrase-1')).toBe(true)
+      expect(store.profiles.some(p => p.name === 'Encrypted')).toBe(true)
+      consoleSpy.mockRestore()
+    })
+
+    it('imports Requestly header rules as disabled profiles', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const store = useHeadersStore()
+      await store.loadState()
+      const before = store.profiles.length
+
+      const result = store.importProfiles(requestlyExport)
+
+      expect(result).toBe(true)
+      const imported = store.profiles.slice(before)
+      expect(imported.map(p => [p.name, p.enabled])).toEqual([
+        ['Staging API', false],
+        ['Legacy debug headers', false],
+      ])
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Redirect'))
+      expect(store.getHeaderNameSuggestions('request')).toContain('Authorization')
+      warnSpy.mockRestore()
+    })
+
+    it('imports Header Editor rules grouped into profiles', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const store = useHeadersStore()
+      await store.loadState()
+      const before = store.profiles.length
+
+      const result = store.importProfiles(headerEditorExport)
+
+      expect(result).toBe(true)
+      expect(store.profiles.slice(before).map(p => p.name)).toEqual(['Staging', 'Ungrouped'])
+      warnSpy.mockRestore()
+    })
+
     it('imports ModHeader format profiles', async () => {
       const store = useHeadersStore()
       await store.loadState()
@@ -596,6 +866,199 @@ describe('useHeadersStore', () => {
     })
   })
 
+  describe('template variables', () => {
+    it('adds, updates and removes variables', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+
+      store.addVariable()
+      const variable = store.variables[0]!
+      store.updateVariable(variable.id, { name: 'API_TOKEN', value: 'abc' })
+
+      expect(store.variables).toEqual([{ id: variable.id, name: 'API_TOKEN', value: 'abc' }])
+
+      store.removeVariable(variable.id)
+      expect(store.variables).toEqual([])
+    })
+
+    it('persists variables and restores them on undo', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+
+      store.addVariable()
+      store.updateVariable(store.variables[0]!.id, { name: 'TENANT', value: 'acme' })
+      store.clearVariables()
+
+      expect(store.variables).toEqual([])
+      store.undo()
+      expect(store.variables[0]?.name).toBe('TENANT')
+
+      const saved = JSON.parse(localStorage.getItem('openheaders_state')!)
+      expect(saved.variables[0].value).toBe('acme')
+    })
+
+    it('loads variables from storage', async () => {
+      localStorage.setItem('openheaders_state', JSON.stringify({
+        profiles: [],
+        activeProfileId: null,
+        darkModePreference: 'system',
+        languagePreference: 'auto',
+        variables: [{ id: 'v1', name: 'KEY', value: 'value' }],
+      }))
+
+      const store = useHeadersStore()
+      await store.loadState()
+
+      expect(store.variables).toEqual([{ id: 'v1', name: 'KEY', value: 'value' }])
+    })
+
+    it('manages variables scoped to a profile', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      const profileId = store.activeProfileId!
+
+      store.addVariable(profileId)
+      const variable = store.activeProfile!.variables![0]!
+      store.updateVariable(variable.id, { name: 'TOKEN', value: 'abc', secret: true })
+
+      expect(store.variables).toEqual([])
+      expect(store.activeProfile!.variables).toEqual([{ id: variable.id, name: 'TOKEN', value: 'abc', secret: true }])
+
+      store.removeVariable(variable.id)
+      expect(store.activeProfile!.variables).toEqual([])
+    })
+
+    it('gives duplicated profiles their own variable IDs', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      const profileId = store.activeProfileId!
+      store.addVariable(profileId)
+
+      store.duplicateProfile(profileId)
+
+      const original = store.profiles.find(p => p.id === profileId)!.variables![0]!
+      expect(store.activeProfile!.variables![0]!.id).not.toBe(original.id)
+    })
+
+    it('leaves secret values out of exports unless included', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      const profileId = store.activeProfileId!
+
+      store.addVariable()
+      store.updateVariable(store.variables[0]!.id, { name: 'TENANT', value: 'acme' })
+      store.addVariable(profileId)
+      store.updateVariable(store.activeProfile!.variables![0]!.id, { name: 'TOKEN', value: 'abc', secret: true })
+
+      expect(store.hasSecretsToExport()).toBe(true)
+
+      const redacted = JSON.parse(store.exportProfiles())
+      expect(redacted.variables).toEqual([expect.objectContaining({ name: 'TENANT', value: 'acme' })])
+      expect(redacted.profiles[0].variables).toEqual([expect.objectContaining({ name: 'TOKEN', value: '', secret: true })])
+
+      const full = JSON.parse(store.exportProfile(profileId, { includeSecrets: true }))
+      expect(full.profiles[0].variables[0].value).toBe('abc')
+
+      // Exporting never changes the stored value
+      expect(store.activeProfile!.variables![0]!.value).toBe('abc')
+    })
+
+    it('imports profile variables and adds missing global variables', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      store.addVariable()
+      store.updateVariable(store.variables[0]!.id, { name: 'TENANT', value: 'local' })
+
+      const result = store.importProfiles(JSON.stringify({
+        version: 1,
+        profiles: [{
+          id: 'imported',
+          name: 'Imported',
+          color: '#000000',
+          headers: [],
+          urlFilters: [],
+          variables: [{ id: 'v1', name: 'TOKEN', value: '', secret: true }],
+          createdAt: 0,
+          updatedAt: 0,
+        }],
+        variables: [
+          { id: 'g1', name: 'TENANT', value: 'remote' },
+          { id: 'g2', name: 'REGION', value: 'eu' },
+        ],
+      }))
+
+      expect(result).toBe(true)
+      const imported = store.profiles.find(p => p.name === 'Imported')!
+      expect(imported.variables).toEqual([expect.objectContaining({ name: 'TOKEN', secret: true })])
+      expect(imported.variables![0]!.id).not.toBe('v1')
+      expect(store.variables.map(v => [v.name, v.value])).toEqual([['TENANT', 'local'], ['REGION', 'eu']])
+    })
+
+    it('reports nothing imported when every variable already exists', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      store.addVariable()
+      store.updateVariable(store.variables[0]!.id, { name: 'TENANT', value: 'local' })
+      const undoAction = store.undoAction
+
+      const result = store.importProfiles(JSON.stringify({
+        version: 1,
+        profiles: [],
+        variables: [{ id: 'g1', name: 'TENANT', value: 'remote' }],
+      }))
+
+      expect(result).toBe(false)
+      expect(store.variables.map(v => [v.name, v.value])).toEqual([['TENANT', 'local']])
+      expect(store.undoAction).toBe(undoAction)
+    })
+  })
+
+  describe('pasted headers', () => {
+    it('adds pasted headers with canonical names in one undo step', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+
+      const added = store.addPastedHeaders(
+        [
+          { name: 'authorization', value: 'Bearer abc' },
+          { name: 'x-tenant', value: 'acme' },
+          { name: ' ', value: 'x' },
+          { name: 'x-empty', value: '' },
+        ],
+        { matchType: 'host_equals', pattern: 'api.example.com' }
+      )
+
+      expect(added).toBe(2)
+      expect(store.requestHeaders.map(h => [h.name, h.value, h.enabled])).toEqual([
+        ['Authorization', 'Bearer abc', true],
+        ['x-tenant', 'acme', true],
+      ])
+      expect(store.activeProfile!.urlFilters).toEqual([expect.objectContaining({
+        type: 'include',
+        target: 'request',
+        matchType: 'host_equals',
+        pattern: 'api.example.com',
+      })])
+      expect(store.getHeaderValueSuggestions('Authorization').map(s => s.value)).toContain('Bearer abc')
+
+      store.undo()
+      expect(store.requestHeaders).toEqual([])
+      expect(store.activeProfile!.urlFilters).toEqual([])
+    })
+
+    it('does not add the same URL filter twice', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      const filter = { matchType: 'host_equals', pattern: 'api.example.com' } as const
+
+      store.addPastedHeaders([{ name: 'X-A', value: '1' }], filter)
+      store.addPastedHeaders([{ name: 'X-B', value: '2' }], filter)
+
+      expect(store.activeProfile!.urlFilters).toHaveLength(1)
+      expect(store.addPastedHeaders([], filter)).toBe(0)
+    })
+  })
+
   describe('header duplication', () => {
     it('duplicates a header with all properties', async () => {
       const store = useHeadersStore()
@@ -644,6 +1107,25 @@ describe('useHeadersStore', () => {
       expect(store.requestHeaders[2]?.name).toBe('Second') // duplicate
       expect(store.requestHeaders[3]?.name).toBe('Third')
     })
+
+    it('gives duplicated header url filters new IDs', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+
+      store.addHeader('request')
+      const original = store.requestHeaders[0]!
+      store.updateHeader(original.id, {
+        urlFilters: [
+          { id: 'scope-1', enabled: true, matchType: 'host_equals', pattern: 'api.example.com', type: 'include' },
+        ],
+      })
+
+      store.duplicateHeader(original.id)
+
+      const duplicateFilter = store.requestHeaders[1]!.urlFilters?.[0]
+      expect(duplicateFilter?.pattern).toBe('api.example.com')
+      expect(duplicateFilter?.id).not.toBe('scope-1')
+    })
   })
 
   describe('persistence', () => {
@@ -721,6 +1203,88 @@ describe('useHeadersStore', () => {
       expect(store.isDarkMode).toBe(true)
     })
 
+    it('migrates states without enabled flags to only the active profile enabled', async () => {
+      const createStoredProfile = (id: string) => ({
+        id,
+        name: id,
+        color: '#ff0000',
+        headers: [],
+        urlFilters: [],
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      })
+      localStorage.setItem('openheaders_state', JSON.stringify({
+        profiles: [createStoredProfile('a'), createStoredProfile('b')],
+        activeProfileId: 'b',
+        darkModePreference: 'system',
+      }))
+
+      const store = useHeadersStore()
+      await store.loadState()
+
+      expect(store.profiles.map(p => p.enabled)).toEqual([false, true])
+    })
+
+    it('saves the schema version with the state', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      store.addProfile()
+
+      expect(JSON.parse(localStorage.getItem('openheaders_state')!).schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
+    })
+
+    it('refuses states from a newer version and does not save over them', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const newer = JSON.stringify({
+        schemaVersion: CURRENT_SCHEMA_VERSION + 1,
+        profiles: [{ id: 'future', name: 'Future', color: '#ff0000', headers: [], urlFilters: [], createdAt: 0, updatedAt: 0 }],
+        activeProfileId: 'future',
+      })
+      localStorage.setItem('openheaders_state', newer)
+
+      const store = useHeadersStore()
+      await store.loadState()
+      store.addProfile()
+
+      expect(store.isStateFromNewerVersion).toBe(true)
+      expect(store.profiles.map(p => p.id)).not.toContain('future')
+      expect(localStorage.getItem('openheaders_state')).toBe(newer)
+      consoleSpy.mockRestore()
+    })
+
+    it('repairs or leaves out malformed entries of the saved state', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      localStorage.setItem('openheaders_state', JSON.stringify({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        profiles: [{
+          id: 'p1',
+          name: 'Broken',
+          color: '#ff0000',
+          enabled: true,
+          headers: [
+            { id: 'h1', enabled: true, name: 'X-Bad', value: '1', comment: '', type: 'request', operation: 'delete' },
+            { id: 'h2', enabled: true, name: 'X-Good', value: 2, comment: '', type: 'request', operation: 'set' },
+          ],
+          urlFilters: [{ id: 'f1', enabled: true, matchType: 'glob', pattern: '*', type: 'include' }],
+          createdAt: 0,
+          updatedAt: 0,
+        }],
+        activeProfileId: 'p1',
+        darkModePreference: 'system',
+        languagePreference: 'auto',
+      }))
+
+      const store = useHeadersStore()
+      await store.loadState()
+
+      expect(store.requestHeaders.map(h => [h.name, h.value])).toEqual([['X-Good', '2']])
+      expect(store.activeProfile?.urlFilters).toEqual([])
+      expect(warnSpy).toHaveBeenCalledWith('Repaired the saved state:', expect.arrayContaining([
+        expect.stringContaining('profiles[0].headers[0]'),
+      ]))
+      warnSpy.mockRestore()
+    })
+
     it('handles corrupted localStorage gracefully', async () => {
       const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
       localStorage.setItem('openheaders_state', 'not valid json')
@@ -921,6 +1485,40 @@ describe('useHeadersStore', () => {
       consoleSpy.mockRestore()
     })
 
+    it('migrates old exports and rejects exports from a newer version', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const store = useHeadersStore()
+      await store.loadState()
+      const exported = (version: number) => JSON.stringify({
+        version,
+        profiles: [{ id: 'old', name: 'Old', color: '#ff0000', headers: [], urlFilters: [{ id: 'f', pattern: 'example.com' }] }],
+      })
+
+      expect(store.importProfiles(exported(1))).toBe(true)
+      expect(store.profiles[1]?.urlFilters[0]?.matchType).toBe('dnr_url_filter')
+      expect(store.importProfiles(exported(CURRENT_SCHEMA_VERSION + 1))).toBe(false)
+      expect(store.profiles).toHaveLength(2)
+      consoleSpy.mockRestore()
+    })
+
+    it('lists invalid entries of an import among the preview warnings', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+
+      const preview = store.previewImport(JSON.stringify({
+        version: CURRENT_SCHEMA_VERSION,
+        profiles: [{
+          id: 'p',
+          name: 'Shared',
+          headers: [{ id: 'h', name: 'X-Bad', value: '', type: 'request', operation: 'drop' }],
+          urlFilters: [],
+        }],
+      }))
+
+      expect(preview?.profiles[0]?.profile.headers).toEqual([])
+      expect(preview?.warnings).toEqual([expect.stringMatching(/^profiles\[0\]\.headers\[0\]: Operation "drop"/)])
+    })
+
     it('skips profiles without id or name', async () => {
       const store = useHeadersStore()
       await store.loadState()
@@ -1090,6 +1688,62 @@ describe('useHeadersStore', () => {
   })
 
   describe('profile switching', () => {
+    it('pauses without adding history or changing enabled profiles', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      const enabled = store.profiles.map(p => p.enabled)
+
+      store.setPaused(true)
+
+      expect(store.paused).toBe(true)
+      expect(store.canUndo).toBe(false)
+      expect(store.profiles.map(p => p.enabled)).toEqual(enabled)
+      expect(JSON.parse(localStorage.getItem('openheaders_state')!).paused).toBe(true)
+    })
+
+    it('picks up state changes made by the background script', async () => {
+      const listeners: Array<(changes: Record<string, chrome.storage.StorageChange>, areaName: string) => void> = []
+      const set = vi.fn().mockResolvedValue(undefined)
+      vi.stubGlobal('chrome', {
+        storage: {
+          local: { get: vi.fn().mockResolvedValue({}), set },
+          onChanged: { addListener: (listener: typeof listeners[number]) => listeners.push(listener) },
+        },
+      })
+      try {
+        const store = useHeadersStore()
+        await store.loadState()
+        const notify = (newValue: unknown) => listeners.forEach(listener => listener({ openheaders_state: { newValue } }, 'local'))
+        const lastWrite = () => JSON.parse(JSON.stringify(set.mock.lastCall?.[0].openheaders_state))
+
+        store.addProfile()
+        const addedProfile = lastWrite()
+        store.updateProfile(store.activeProfileId!, { name: 'Renamed' })
+
+        // A late change event for the popup's own earlier write does not undo the rename
+        notify(addedProfile)
+        expect(store.activeProfile?.name).toBe('Renamed')
+
+        const firstId = store.profiles[0]!.id
+        notify({ ...lastWrite(), activeProfileId: firstId, paused: true })
+
+        expect(store.activeProfileId).toBe(firstId)
+        expect(store.paused).toBe(true)
+        store.undo()
+        expect(store.activeProfileId).not.toBe(firstId)
+        expect(store.paused).toBe(true)
+
+        // Resuming or turning on sync elsewhere is not an undo step
+        notify({ ...lastWrite(), paused: false, syncEnabled: true })
+        expect(store.paused).toBe(false)
+        expect(store.syncEnabled).toBe(true)
+        expect(store.undoAction).toBe('update_profile')
+        expect(store.redoAction).toBe('outside_change')
+      } finally {
+        vi.stubGlobal('chrome', undefined)
+      }
+    })
+
     it('shows correct headers when switching between profiles', async () => {
       const store = useHeadersStore()
       await store.loadState()
@@ -1205,4 +1859,142 @@ describe('useHeadersStore', () => {
       expect(store.requestHeaders.some(h => h.name === 'X-From-Profile-2')).toBe(false)
     })
   })
+
+  describe('sync', () => {
+    it('stamps header edits and keeps the chosen side of a sync conflict', async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      store.setSyncEnabled(true)
+      store.addHeader('request')
+      const header = store.requestHeaders[0]!
+      expect(header.updatedAt).toBeGreaterThan(0)
+
+      const profile = JSON.parse(JSON.stringify(store.activeProfile!))
+      const remote = { ...profile, name: 'Remote', enabled: undefined, headers: [{ ...header, value: 'remote' }] }
+      store.resolveSyncConflict({ profileId: profile.id, profileName: 'Remote', local: profile, remote, detectedAt: 0 }, 'remote')
+
+      expect(store.activeProfile?.name).toBe('Remote')
+      expect(store.activeProfile?.enabled).toBe(profile.enabled)
+      expect(store.requestHeaders[0]?.value).toBe('remote')
+      expect(JSON.parse(localStorage.getItem('openheaders_state')!).syncEnabled).toBe(true)
+
+      store.undo()
+      expect(store.activeProfile?.name).toBe(profile.name)
+    })
+  })
+
+  describe('subscriptions', () => {
+    const subscribe = async () => {
+      const store = useHeadersStore()
+      await store.loadState()
+      expect(store.addSubscription('https://example.com/profiles.json')).toBe(true)
+      const subscriptionId = store.subscriptions[0]!.id
+      // As pulled by the background script
+      store.profiles.push({
+        id: 'team',
+        name: 'Team',
+        color: '#0ea5e9',
+        enabled: true,
+        subscriptionId,
+        headers: [{ id: 'h1', enabled: true, name: 'X-Team', value: '1', comment: '', type: 'request', operation: 'set' }],
+        urlFilters: [{ id: 'f1', enabled: true, type: 'include', matchType: 'host_equals', pattern: 'example.com' }],
+        variables: [{ id: 'v1', name: 'TOKEN', value: '', secret: true }, { id: 'v2', name: 'ENV', value: 'prod' }],
+        createdAt: 0,
+        updatedAt: 0,
+      })
+      store.setActiveProfile('team')
+      return { store, subscriptionId }
+    }
+
+    it('only subscribes to new http(s) URLs', async () => {
+      const { store } = await subscribe()
+
+      expect(store.addSubscription(' https://example.com/profiles.json ')).toBe(false)
+      expect(store.addSubscription('ftp://example.com/profiles.json')).toBe(false)
+      expect(store.subscriptions).toHaveLength(1)
+    })
+
+    it('does not edit the headers or name of a subscribed profile', async () => {
+      const { store } = await subscribe()
+
+      expect(store.isActiveProfileReadOnly).toBe(true)
+      store.addHeader('request')
+      store.updateHeader('h1', { value: '2' })
+      store.toggleHeader('h1')
+      store.removeHeader('h1')
+      store.updateProfile('team', { name: 'Renamed' })
+
+      expect(store.activeProfile?.headers).toEqual([expect.objectContaining({ id: 'h1', value: '1', enabled: true })])
+      expect(store.activeProfile?.name).toBe('Team')
+    })
+
+    it('does not edit the filters, settings or variables of a subscribed profile', async () => {
+      const { store } = await subscribe()
+      const before = JSON.parse(JSON.stringify(store.activeProfile))
+
+      store.addUrlFilter('exclude')
+      store.duplicateUrlFilter('f1')
+      store.updateUrlFilter('f1', { pattern: 'other.com' })
+      store.reorderUrlFilters(['f1'])
+      store.removeUrlFilter('f1')
+      store.clearUrlFilters()
+      store.updateProfile('team', { color: '#000000', resourceTypes: ['script'] })
+      store.setProfileSchedule('team', { expiresAt: Date.now() + 60_000 })
+      store.addVariable('team')
+      store.updateVariable('v2', { value: 'dev' })
+      store.updateVariable('v1', { name: 'RENAMED' })
+      store.removeVariable('v2')
+
+      expect(store.activeProfile).toEqual(before)
+    })
+
+    it('fills in secret variable values of a subscribed profile, which pulls keep', async () => {
+      const { store } = await subscribe()
+
+      store.updateVariable('v1', { value: 'secret' })
+
+      expect(store.activeProfile?.variables?.[0]).toEqual({ id: 'v1', name: 'TOKEN', value: 'secret', secret: true })
+    })
+
+    it('forks a subscribed profile into an editable one that takes over its switch', async () => {
+      const { store } = await subscribe()
+
+      store.forkProfile('team')
+
+      expect(store.profiles.map(p => [p.name, p.enabled, p.subscriptionId])).toEqual([
+        [store.profiles[0]!.name, store.profiles[0]!.enabled, undefined],
+        ['Team', false, store.subscriptions[0]!.id],
+        ['Team (Fork)', true, undefined],
+      ])
+      expect(store.isActiveProfileReadOnly).toBe(false)
+      expect(store.activeProfile?.headers[0]?.id).not.toBe('h1')
+      store.updateHeader(store.activeProfile!.headers[0]!.id, { value: '2' })
+      expect(store.activeProfile?.headers[0]?.value).toBe('2')
+    })
+
+    it('exports subscribed profiles without their subscription', async () => {
+      const { store } = await subscribe()
+
+      const exported = JSON.parse(store.exportProfile('team'))
+
+      expect(exported.profiles[0].name).toBe('Team')
+      expect(exported.profiles[0]).not.toHaveProperty('subscriptionId')
+      expect(store.activeProfile?.subscriptionId).toBe(store.subscriptions[0]!.id)
+    })
+
+    it('removes the pulled profiles with the subscription, undoably', async () => {
+      const { store } = await subscribe()
+      store.forkProfile('team')
+
+      store.removeSubscription(store.subscriptions[0]!.id)
+
+      expect(store.subscriptions).toEqual([])
+      expect(store.profiles.map(p => p.name)).not.toContain('Team')
+      expect(store.profiles.map(p => p.name)).toContain('Team (Fork)')
+
+      store.undo()
+      expect(store.subscriptions).toHaveLength(1)
+      expect(store.profiles.map(p => p.name)).toContain('Team')
+    })
+  })
 })
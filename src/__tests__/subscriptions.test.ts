@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { AppState, HeaderRule, Profile, ProfileSubscription } from '@/types'
+import {
+  applySubscriptionProfiles,
+  fetchSubscriptionProfiles,
+  getSubscriptionStatus,
+  isValidSubscriptionUrl,
+  parseSubscriptionProfiles,
+} from '@/lib/subscriptions'
+
+const SUBSCRIPTION: ProfileSubscription = { id: 'sub', url: 'https://example.com/profiles.json', createdAt: 0 }
+
+const header = (name: string, value: string): HeaderRule => ({
+  id: `remote-${name}`,
+  enabled: true,
+  name,
+  value,
+  comment: '',
+  type: 'request',
+  operation: 'set',
+})
+
+const profile = (id: string, overrides: Partial<Profile> = {}): Profile => ({
+  id,
+  name: id,
+  color: '#7c3aed',
+  headers: [],
+  urlFilters: [],
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+})
+
+const exportJson = (profiles: Profile[]) => JSON.stringify({ version: 1, profiles, exportedAt: 0 })
+
+function pull(json: string): Profile[] {
+  const result = parseSubscriptionProfiles(json)
+  if ('error' in result) throw new Error(result.message)
+  return result.profiles
+}
+
+const state = (profiles: Profile[]): AppState => ({
+  profiles,
+  activeProfileId: profiles[0]?.id ?? null,
+  darkModePreference: 'system',
+  languagePreference: 'auto',
+  subscriptions: [SUBSCRIPTION],
+})
+
+describe('subscriptions', () => {
+  describe('fetchSubscriptionProfiles', () => {
+    it('reads the profiles of a native export', async () => {
+      const fetchImpl = vi.fn().mockResolvedValue(new Response(exportJson([profile('Team', { enabled: true })])))
+
+      const result = await fetchSubscriptionProfiles(SUBSCRIPTION.url, fetchImpl)
+
+      expect(fetchImpl).toHaveBeenCalledWith(SUBSCRIPTION.url, { cache: 'no-store', credentials: 'omit' })
+      expect('profiles' in result && result.profiles.map(p => p.name)).toEqual(['Team'])
+    })
+
+    it('reports HTTP, network and format errors', async () => {
+      const notFound = vi.fn().mockResolvedValue(new Response('Not Found', { status: 404 }))
+      const offline = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'))
+      const modHeader = vi.fn().mockResolvedValue(new Response(JSON.stringify([{ title: 'Profile 1', headers: [] }])))
+
+      expect(await fetchSubscriptionProfiles(SUBSCRIPTION.url, notFound)).toEqual({ error: 'fetch_failed', message: 'HTTP 404' })
+      expect(await fetchSubscriptionProfiles(SUBSCRIPTION.url, offline)).toEqual({ error: 'fetch_failed', message: 'Failed to fetch' })
+      expect(await fetchSubscriptionProfiles(SUBSCRIPTION.url, modHeader)).toMatchObject({ error: 'invalid_format' })
+      expect(parseSubscriptionProfiles('{')).toMatchObject({ error: 'invalid_format' })
+    })
+  })
+
+  it('keeps the last successful pull time after a failure', () => {
+    const synced = getSubscriptionStatus({ profiles: [profile('Team')] }, undefined, 100)
+    const failed = getSubscriptionStatus({ error: 'fetch_failed', message: 'HTTP 500' }, synced, 200)
+
+    expect(synced).toEqual({ lastSyncedAt: 100, lastCheckedAt: 100, error: null, profileCount: 1 })
+    expect(failed).toEqual({ lastSyncedAt: 100, lastCheckedAt: 200, error: 'fetch_failed', message: 'HTTP 500', profileCount: 1 })
+  })
+
+  it('only accepts http and https URLs', () => {
+    expect(isValidSubscriptionUrl(' http://localhost:3456/subscription.json ')).toBe(true)
+    expect(isValidSubscriptionUrl('file:///profiles.json')).toBe(false)
+    expect(isValidSubscriptionUrl('profiles.json')).toBe(false)
+  })
+
+  describe('applySubscriptionProfiles', () => {
+    it('adds pulled profiles disabled, where the subscription was', () => {
+      const next = applySubscriptionProfiles(
+        state([profile('local')]),
+        SUBSCRIPTION,
+        pull(exportJson([profile('Team', { enabled: true })])),
+        50
+      )
+
+      expect(next?.profiles.map(p => [p.name, p.enabled, p.subscriptionId])).toEqual([
+        ['local', undefined, undefined],
+        ['Team', false, 'sub'],
+      ])
+      expect(next?.profiles[1]?.createdAt).toBe(50)
+    })
+
+    it('updates profiles in place, keeping IDs, enabled switches and secret values', () => {
+      const remote = profile('Team', {
+        headers: [header('X-Team', 'v1')],
+        variables: [{ id: 'remote-var', name: 'TOKEN', value: '', secret: true }],
+      })
+      const first = applySubscriptionProfiles(state([profile('local')]), SUBSCRIPTION, pull(exportJson([remote])), 50)!
+      const pulled = first.profiles[1]!
+      pulled.enabled = true
+      pulled.variables![0]!.value = 'local-secret'
+
+      // Nothing changed in the file
+      expect(applySubscriptionProfiles(first, SUBSCRIPTION, pull(exportJson([remote])), 60)).toBeNull()
+
+      const changed = { ...remote, headers: [header('X-Team', 'v2')] }
+      const next = applySubscriptionProfiles(first, SUBSCRIPTION, pull(exportJson([changed])), 70)!
+      const updated = next.profiles[1]!
+
+      expect(updated.id).toBe(pulled.id)
+      expect(updated.headers[0]).toMatchObject({ id: pulled.headers[0]!.id, value: 'v2' })
+      expect(updated.enabled).toBe(true)
+      expect(updated.variables?.[0]).toMatchObject({ id: pulled.variables![0]!.id, value: 'local-secret' })
+      expect(updated.updatedAt).toBe(70)
+    })
+
+    it('removes profiles no longer in the file and leaves other profiles alone', () => {
+      const first = applySubscriptionProfiles(
+        state([profile('local')]),
+        SUBSCRIPTION,
+        pull(exportJson([profile('Team'), profile('Staging')])),
+        50
+      )!
+      const withActive = { ...first, activeProfileId: first.profiles[2]!.id }
+
+      const next = applySubscriptionProfiles(withActive, SUBSCRIPTION, pull(exportJson([profile('Team')])), 60)!
+
+      expect(next.profiles.map(p => p.name)).toEqual(['local', 'Team'])
+      expect(next.activeProfileId).toBe('local')
+    })
+  })
+})
@@ -0,0 +1,214 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { AppState, HeaderRule, Profile, SyncPayload } from '@/types'
+import {
+  SYNC_MANIFEST_KEY,
+  applySyncPayload,
+  chunkSyncData,
+  mergeSyncPayloads,
+  readSyncPayload,
+  toSyncPayload,
+  writeSyncPayload,
+  type SyncStorageArea,
+} from '@/lib/sync'
+
+// An in-memory stand-in for chrome.storage.sync
+function createStorageArea(): SyncStorageArea & { items: Map<string, unknown> } {
+  const items = new Map<string, unknown>()
+  return {
+    items,
+    get: vi.fn(async (keys: string | string[]) => {
+      const result: Record<string, unknown> = {}
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        if (items.has(key)) result[key] = structuredClone(items.get(key))
+      }
+      return result
+    }),
+    set: vi.fn(async (values: Record<string, unknown>) => {
+      for (const [key, value] of Object.entries(values)) items.set(key, structuredClone(value))
+    }),
+    remove: vi.fn(async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) items.delete(key)
+    }),
+  }
+}
+
+const header = (id: string, value: string, updatedAt = 0): HeaderRule => ({
+  id,
+  enabled: true,
+  name: `X-${id}`,
+  value,
+  comment: '',
+  type: 'request',
+  operation: 'set',
+  updatedAt,
+})
+
+const profile = (id: string, overrides: Partial<Profile> = {}): Profile => ({
+  id,
+  name: id,
+  color: '#7c3aed',
+  headers: [],
+  urlFilters: [],
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+})
+
+const payload = (profiles: Profile[]): SyncPayload => ({ profiles, variables: [] })
+
+describe('sync', () => {
+  describe('chunkSyncData', () => {
+    it('splits data into pieces that fit an item without splitting characters', () => {
+      const json = JSON.stringify({ value: 'å"😀'.repeat(50) })
+
+      const chunks = chunkSyncData(json, 40)
+
+      expect(chunks.join('')).toBe(json)
+      for (const chunk of chunks) {
+        expect(new TextEncoder().encode(JSON.stringify(chunk)).length - 2).toBeLessThanOrEqual(40)
+      }
+    })
+  })
+
+  describe('storage', () => {
+    it('round-trips a payload and removes chunks it no longer needs', async () => {
+      const area = createStorageArea()
+      const large = payload([profile('p1', { headers: [header('h1', 'x'.repeat(20000))] })])
+      const small = payload([profile('p1')])
+
+      expect(await writeSyncPayload(area, large)).toBe('written')
+      expect(await readSyncPayload(area)).toEqual(large)
+      const largeKeys = area.items.size
+
+      expect(await writeSyncPayload(area, small)).toBe('written')
+      expect(await readSyncPayload(area)).toEqual(small)
+      expect(area.items.size).toBeLessThan(largeKeys)
+      expect(await writeSyncPayload(area, small)).toBe('unchanged')
+    })
+
+    it('refuses payloads over the total quota', async () => {
+      const area = createStorageArea()
+
+      expect(await writeSyncPayload(area, payload([profile('p1', { name: 'x'.repeat(110 * 1024) })]))).toBe('too_large')
+      expect(area.set).not.toHaveBeenCalled()
+    })
+
+    it('counts the quota in UTF-8 bytes, like the chunks', async () => {
+      const area = createStorageArea()
+      // 60 000 characters, but 120 000 bytes
+      const name = 'å'.repeat(60000)
+
+      expect(await writeSyncPayload(area, payload([profile('p1', { name })]))).toBe('too_large')
+      expect(area.set).not.toHaveBeenCalled()
+    })
+
+    it('reports nothing synced and half-written data', async () => {
+      const area = createStorageArea()
+      expect(await readSyncPayload(area)).toBeNull()
+
+      await area.set({ [SYNC_MANIFEST_KEY]: { version: 1, chunkCount: 2, updatedAt: 0 }, openheaders_sync_0: '{"profiles":' })
+      expect(await readSyncPayload(area)).toBe('incomplete')
+    })
+
+    it('refuses data written in a newer format', async () => {
+      const area = createStorageArea()
+      await writeSyncPayload(area, payload([profile('p1')]))
+      await area.set({ [SYNC_MANIFEST_KEY]: { ...(area.items.get(SYNC_MANIFEST_KEY) as object), version: 2 } })
+
+      expect(await readSyncPayload(area)).toBe('newer_version')
+    })
+  })
+
+  describe('local data', () => {
+    const state: AppState = {
+      profiles: [profile('p1', {
+        enabled: true,
+        variables: [{ id: 'v1', name: 'TOKEN', value: 'secret', secret: true }],
+      })],
+      activeProfileId: 'p1',
+      darkModePreference: 'dark',
+      languagePreference: 'sv',
+      variables: [{ id: 'g1', name: 'KEY', value: 'global-secret', secret: true }, { id: 'g2', name: 'ENV', value: 'dev' }],
+    }
+
+    it('leaves secrets and enabled switches out of the payload', () => {
+      const synced = toSyncPayload(state)
+
+      expect(synced.profiles[0]).not.toHaveProperty('enabled')
+      expect(synced.profiles[0]?.variables?.[0]?.value).toBe('')
+      expect(synced.variables.map(v => v.value)).toEqual(['', 'dev'])
+    })
+
+    it('leaves subscribed profiles to each device', () => {
+      const subscribed = profile('team', { subscriptionId: 'sub' })
+      const withSubscription = { ...state, profiles: [subscribed, ...state.profiles] }
+
+      expect(toSyncPayload(withSubscription).profiles.map(p => p.id)).toEqual(['p1'])
+      expect(applySyncPayload(withSubscription, payload([profile('p1'), profile('p2')])).profiles.map(p => p.id))
+        .toEqual(['team', 'p1', 'p2'])
+    })
+
+    it('keeps local secrets, switches and preferences when applying a payload', () => {
+      const synced = toSyncPayload(state)
+      synced.profiles.push(profile('p2'))
+
+      const next = applySyncPayload(state, synced)
+
+      expect(next.profiles.map(p => p.enabled)).toEqual([true, false])
+      expect(next.profiles[0]?.variables?.[0]?.value).toBe('secret')
+      expect(next.variables?.[0]?.value).toBe('global-secret')
+      expect(next.darkModePreference).toBe('dark')
+    })
+  })
+
+  describe('mergeSyncPayloads', () => {
+    it('takes one-sided edits, additions and deletions', () => {
+      const base = payload([profile('kept'), profile('edited'), profile('deleted')])
+      const local = payload([profile('kept'), profile('edited'), profile('deleted'), profile('new-here')])
+      const remote = payload([profile('kept'), profile('edited', { name: 'Renamed', updatedAt: 5 }), profile('new-there')])
+
+      const { payload: merged, conflicts } = mergeSyncPayloads(local, remote, base)
+
+      expect(merged.profiles.map(p => p.name)).toEqual(['kept', 'Renamed', 'new-here', 'new-there'])
+      expect(conflicts).toEqual([])
+    })
+
+    it('keeps a profile deleted on one side but edited on the other', () => {
+      const base = payload([profile('p1')])
+      const remote = payload([profile('p1', { name: 'Edited', updatedAt: 5 })])
+
+      expect(mergeSyncPayloads(payload([]), remote, base).payload.profiles.map(p => p.name)).toEqual(['Edited'])
+    })
+
+    it('merges headers of a profile edited on both sides and reports the conflict', () => {
+      const base = payload([profile('p1', { headers: [header('a', '1'), header('b', '1'), header('c', '1')] })])
+      const local = payload([profile('p1', {
+        name: 'Local',
+        updatedAt: 10,
+        headers: [header('a', 'local', 10), header('b', 'local', 10), header('c', '1'), header('d', 'new', 10)],
+      })])
+      const remote = payload([profile('p1', {
+        name: 'Remote',
+        updatedAt: 20,
+        headers: [header('a', 'remote', 5), header('b', '1')],
+      })])
+
+      const { payload: merged, conflicts } = mergeSyncPayloads(local, remote, base, 99)
+
+      const result = merged.profiles[0]!
+      // Profile fields come from the later edit, headers from the later edit of each header
+      expect(result.name).toBe('Remote')
+      expect(result.updatedAt).toBe(20)
+      expect(result.headers.map(h => [h.id, h.value])).toEqual([['a', 'local'], ['b', 'local'], ['d', 'new']])
+      expect(conflicts).toEqual([{ profileId: 'p1', profileName: 'Remote', local: local.profiles[0], remote: remote.profiles[0], detectedAt: 99 }])
+    })
+
+    it('compares data regardless of key order', () => {
+      const { id, ...rest } = profile('p1')
+      const local = payload([profile('p1', { name: 'Changed' })])
+      const remote = payload([{ ...rest, name: 'Changed', id }])
+
+      expect(mergeSyncPayloads(local, remote, null).conflicts).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import type { TemplateVariable } from '@/types'
+import {
+  findVariable,
+  getTemplatePlaceholders,
+  getUnresolvedPlaceholders,
+  hasDynamicTemplate,
+  hasTemplate,
+  redactSecretVariables,
+  resolveTemplate,
+  SECRET_MASK,
+} from '@/lib/templates'
+
+const variables: TemplateVariable[] = [
+  { id: 'v1', name: 'API_TOKEN', value: 'secret-token' },
+  { id: 'v2', name: 'tenant', value: 'acme' },
+]
+
+describe('templates', () => {
+  describe('getTemplatePlaceholders', () => {
+    it('lists placeholders in order, ignoring whitespace', () => {
+      expect(getTemplatePlaceholders('{{ uuid }}-{{env.API_TOKEN}}')).toEqual(['uuid', 'env.API_TOKEN'])
+    })
+
+    it('ignores text without placeholders', () => {
+      expect(hasTemplate('Bearer abc')).toBe(false)
+      expect(hasTemplate('{{ not valid }}')).toBe(false)
+    })
+  })
+
+  describe('resolveTemplate', () => {
+    it('resolves built-in placeholders', () => {
+      const context = { now: 1700000000123, uuid: () => 'fixed-uuid', profile: { id: 'p1', name: 'Staging' } }
+
+      expect(resolveTemplate('{{uuid}}', context)).toBe('fixed-uuid')
+      expect(resolveTemplate('{{timestamp}}', context)).toBe('1700000000123')
+      expect(resolveTemplate('{{timestamp.s}}', context)).toBe('1700000000')
+      expect(resolveTemplate('{{now.iso}}', context)).toBe('2023-11-14T22:13:20.123Z')
+      expect(resolveTemplate('{{profile.name}}/{{profile.id}}', context)).toBe('Staging/p1')
+    })
+
+    it('resolves user variables with or without the env prefix', () => {
+      expect(resolveTemplate('Bearer {{env.API_TOKEN}}', { variables })).toBe('Bearer secret-token')
+      expect(resolveTemplate('{{tenant}}', { variables })).toBe('acme')
+    })
+
+    it('prefers profile variables over global ones', () => {
+      const profile = { id: 'p1', name: 'Staging', variables: [{ id: 'p', name: 'tenant', value: 'staging' }] }
+
+      expect(resolveTemplate('{{tenant}}/{{API_TOKEN}}', { profile, variables })).toBe('staging/secret-token')
+    })
+
+    it('masks secret values when asked to', () => {
+      const secrets: TemplateVariable[] = [{ id: 's', name: 'API_TOKEN', value: 'abc', secret: true }]
+
+      expect(resolveTemplate('Bearer {{API_TOKEN}}', { variables: secrets })).toBe('Bearer abc')
+      expect(resolveTemplate('Bearer {{API_TOKEN}}', { variables: secrets, maskSecrets: true })).toBe(`Bearer ${SECRET_MASK}`)
+    })
+
+    it('leaves unknown placeholders untouched', () => {
+      expect(resolveTemplate('{{env.MISSING}}', { variables })).toBe('{{env.MISSING}}')
+      expect(getUnresolvedPlaceholders('{{env.MISSING}} {{tenant}}', { variables })).toEqual(['env.MISSING'])
+    })
+
+    it('generates a v4 uuid by default', () => {
+      expect(resolveTemplate('{{uuid}}')).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+    })
+  })
+
+  describe('hasDynamicTemplate', () => {
+    it('flags time-based placeholders only', () => {
+      expect(hasDynamicTemplate('{{timestamp}}')).toBe(true)
+      expect(hasDynamicTemplate('req-{{uuid}}')).toBe(true)
+      expect(hasDynamicTemplate('{{env.API_TOKEN}}')).toBe(false)
+    })
+  })
+
+  describe('findVariable', () => {
+    it('matches trimmed variable names', () => {
+      expect(findVariable([{ id: 'v', name: ' KEY ', value: 'x' }], 'env.KEY')?.value).toBe('x')
+      expect(findVariable(variables, 'env.')).toBeUndefined()
+    })
+  })
+
+  describe('redactSecretVariables', () => {
+    it('clears secret values unless they are included', () => {
+      const input: TemplateVariable[] = [
+        { id: 'a', name: 'TOKEN', value: 'abc', secret: true },
+        { id: 'b', name: 'TENANT', value: 'acme' },
+      ]
+
+      expect(redactSecretVariables(input).map(v => v.value)).toEqual(['', 'acme'])
+      expect(redactSecretVariables(input, true).map(v => v.value)).toEqual(['abc', 'acme'])
+      expect(input[0]!.value).toBe('abc')
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { AppState, HistoryEntry } from '@/types'
+import { applyJsonPatches, diffJson } from '@/lib/json'
+import {
+  MAX_HISTORY_BYTES,
+  MAX_HISTORY_ENTRIES,
+  UNDO_HISTORY_KEY,
+  createHistoryEntry,
+  readUndoHistory,
+  trimHistory,
+  writeUndoHistory,
+} from '@/lib/undoHistory'
+
+const state = (overrides: Partial<AppState> = {}): AppState => ({
+  profiles: [{
+    id: 'p1',
+    name: 'Dev',
+    color: '#7c3aed',
+    enabled: true,
+    headers: [
+      { id: 'h1', enabled: true, name: 'X-One', value: '1', comment: '', type: 'request', operation: 'set' },
+      { id: 'h2', enabled: true, name: 'X-Two', value: '2', comment: '', type: 'request', operation: 'set' },
+    ],
+    urlFilters: [],
+    createdAt: 0,
+    updatedAt: 0,
+  }],
+  activeProfileId: 'p1',
+  darkModePreference: 'system',
+  languagePreference: 'auto',
+  variables: [],
+  ...overrides,
+})
+
+const entry = (n: number): HistoryEntry => ({
+  action: 'update_header',
+  timestamp: n,
+  redo: [{ path: ['activeProfileId'], value: `after-${n}` }],
+  undo: [{ path: ['activeProfileId'], value: `before-${n}` }],
+})
+
+describe('undoHistory', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('diffJson', () => {
+    it('keeps only what changed', () => {
+      const before = state()
+      const after = state({ activeProfileId: null })
+      after.profiles[0]!.headers[1]!.value = '22'
+
+      expect(diffJson(before, after)).toEqual([
+        { path: ['profiles', 0, 'headers', 1, 'value'], value: '22' },
+        { path: ['activeProfileId'], value: null },
+      ])
+    })
+
+    it('turns an inserted or removed array item into one splice', () => {
+      const before = state()
+      const after = state()
+      const inserted = { ...after.profiles[0]!.headers[0]!, id: 'h3', name: 'X-Three' }
+      after.profiles[0]!.headers.splice(1, 0, inserted)
+
+      expect(diffJson(before, after)).toEqual([{ path: ['profiles', 0, 'headers'], splice: [1, 0, [inserted]] }])
+      expect(diffJson(after, before)).toEqual([{ path: ['profiles', 0, 'headers'], splice: [1, 1, []] }])
+    })
+
+    it('round-trips through applyJsonPatches, including removed keys', () => {
+      const before = state({ schemaVersion: 5, languagePreference: 'sv' })
+      const after = state({ darkModePreference: 'dark', variables: [{ id: 'v1', name: 'TOKEN', value: 'x' }] })
+      after.profiles[0]!.headers.reverse()
+
+      expect(applyJsonPatches(before, diffJson(before, after))).toEqual(after)
+      expect(applyJsonPatches(after, diffJson(after, before))).toEqual(before)
+      expect(before.profiles[0]!.headers[0]!.id).toBe('h1')
+    })
+
+    it('skips changes whose place no longer exists', () => {
+      const patches = [{ path: ['profiles', 3, 'name'], value: 'Gone' }, { path: ['activeProfileId'], value: null }]
+
+      expect(applyJsonPatches(state(), patches)).toEqual(state({ activeProfileId: null }))
+    })
+  })
+
+  it('creates entries with undo and redo diffs, and none for no change', () => {
+    const after = state({ activeProfileId: null })
+
+    expect(createHistoryEntry('update_profile', state(), after, 5)).toEqual({
+      action: 'update_profile',
+      timestamp: 5,
+      redo: [{ path: ['activeProfileId'], value: null }],
+      undo: [{ path: ['activeProfileId'], value: 'p1' }],
+    })
+    expect(createHistoryEntry('update_profile', state(), state())).toBeNull()
+  })
+
+  it('leaves the pause and sync switches out of entries', () => {
+    expect(createHistoryEntry('outside_change', state(), state({ paused: true, syncEnabled: true }))).toBeNull()
+    expect(createHistoryEntry('outside_change', state({ paused: true }), state({ activeProfileId: null }))?.undo).toEqual([
+      { path: ['activeProfileId'], value: 'p1' },
+    ])
+  })
+
+  describe('trimHistory', () => {
+    it('drops the oldest undo steps over the entry limit', () => {
+      const entries = Array.from({ length: MAX_HISTORY_ENTRIES + 2 }, (_, i) => entry(i))
+      const trimmed = trimHistory({ state: state(), entries, index: entries.length - 1 })
+
+      expect(trimmed.entries).toHaveLength(MAX_HISTORY_ENTRIES)
+      expect(trimmed.entries[0]?.timestamp).toBe(2)
+      expect(trimmed.index).toBe(MAX_HISTORY_ENTRIES - 1)
+    })
+
+    it('drops the newest redo steps once nothing is left to undo', () => {
+      const large = { ...entry(0), redo: [{ path: ['activeProfileId'], value: 'x'.repeat(MAX_HISTORY_BYTES) }] }
+      const trimmed = trimHistory({ state: state(), entries: [entry(1), large], index: 0 })
+
+      expect(trimmed).toEqual({ state: state(), entries: [entry(1)], index: 0 })
+    })
+  })
+
+  describe('storage', () => {
+    it('does nothing outside the extension', async () => {
+      vi.stubGlobal('chrome', { storage: { local: {} } })
+
+      await writeUndoHistory({ state: state(), entries: [], index: 0 })
+      expect(await readUndoHistory()).toBeNull()
+    })
+
+    it('saves and reads the history in session storage', async () => {
+      const items: Record<string, unknown> = {}
+      vi.stubGlobal('chrome', {
+        storage: {
+          session: {
+            get: vi.fn(async (key: string) => ({ [key]: items[key] })),
+            set: vi.fn(async (values: Record<string, unknown>) => { Object.assign(items, values) }),
+          },
+        },
+      })
+      const history = { state: state(), entries: [entry(1)], index: 1 }
+
+      await writeUndoHistory(history)
+
+      expect(items[UNDO_HISTORY_KEY]).toEqual(history)
+      expect(await readUndoHistory()).toEqual(history)
+    })
+  })
+})
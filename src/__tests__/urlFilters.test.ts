@@ -1,6 +1,14 @@
 import { describe, expect, it } from 'vitest'
 import type { Profile, UrlFilter } from '@/types'
-import { globToRegExp, isProfileEnabledForTabUrl, matchesUrlFilter, normalizeHostPattern } from '@/lib/urlFilters'
+import {
+  globToRegExp,
+  isHeaderEnabledForUrl,
+  isProfileEnabledForTabUrl,
+  matchesUrlFilter,
+  matchesUrlFilters,
+  normalizeHostPattern,
+  urlFilterToRegExpSource,
+} from '@/lib/urlFilters'
 
 function createProfile(overrides: Partial<Profile> = {}): Profile {
   return {
@@ -222,4 +230,70 @@ describe('urlFilters utilities', () => {
       expect(isProfileEnabledForTabUrl(profile, 'http://example.com/')).toBe(false)
     })
   })
+
+  describe('matchesUrlFilters', () => {
+    const url = 'https://api.example.com/v1'
+
+    it('matches everything without filters', () => {
+      expect(matchesUrlFilters(undefined, url)).toBe(true)
+      expect(matchesUrlFilters([], url)).toBe(true)
+    })
+
+    it('ignores filters with an empty pattern', () => {
+      expect(matchesUrlFilters([createFilter({ pattern: '  ' })], url)).toBe(true)
+    })
+
+    it('lets exclude filters win over includes', () => {
+      expect(matchesUrlFilters([
+        createFilter({ id: 'a', matchType: 'host_ends_with', pattern: 'example.com' }),
+        createFilter({ id: 'b', type: 'exclude', matchType: 'path_starts_with', pattern: '/v1' }),
+      ], url)).toBe(false)
+    })
+  })
+
+  describe('isHeaderEnabledForUrl', () => {
+    it('applies unscoped headers everywhere', () => {
+      expect(isHeaderEnabledForUrl({ urlFilters: undefined }, 'https://example.com/')).toBe(true)
+    })
+
+    it('applies scoped headers only where their filters match', () => {
+      const header = {
+        urlFilters: [createFilter({ matchType: 'url_contains', pattern: '/graphql' })],
+      }
+      expect(isHeaderEnabledForUrl(header, 'https://example.com/graphql')).toBe(true)
+      expect(isHeaderEnabledForUrl(header, 'https://example.com/rest')).toBe(false)
+    })
+  })
+
+  describe('urlFilterToRegExpSource', () => {
+    it.each([
+      ['host_equals', 'api.example.com', ['https://api.example.com/x', 'http://api.example.com:8080'], ['https://v2.api.example.com/x', 'https://example.com/?h=api.example.com']],
+      ['host_ends_with', 'example.com', ['https://example.com/', 'https://a.b.example.com/x'], ['https://notexample.com/', 'https://example.com.evil.test/']],
+      ['localhost_port', '3000', ['http://localhost:3000/app'], ['http://localhost:30001/', 'http://localhost/']],
+      ['localhost_port', '', ['http://localhost/', 'https://localhost:8443/x'], ['https://localhost.example.com/']],
+      ['url_starts_with', 'https://example.com/api', ['https://example.com/api/v1'], ['http://example.com/api', 'https://example.org/api']],
+      ['url_starts_with', 'example.com/api', ['https://example.com/api/v1'], ['https://www.example.com/api']],
+      ['path_starts_with', 'api', ['https://example.com/api/users'], ['https://example.com/app/api', 'https://api.example.com/']],
+      ['url_contains', 'token=a.b', ['https://example.com/?token=a.b'], ['https://example.com/?token=aXb']],
+      ['regex', '^https://example\\.com/v[0-9]+', ['https://example.com/v2/x'], ['https://example.com/api']],
+      ['dnr_url_filter', 'https://*.example.com/*', ['https://api.example.com/x'], ['https://example.org/x']],
+    ] as const)('matches the same URLs as a %s filter', (matchType, pattern, matching, other) => {
+      const filter = createFilter({ matchType, pattern })
+      const re = new RegExp(urlFilterToRegExpSource(filter)!)
+
+      for (const url of matching) {
+        expect(matchesUrlFilter(url, filter)).toBe(true)
+        expect(re.test(url)).toBe(true)
+      }
+      for (const url of other) {
+        expect(matchesUrlFilter(url, filter)).toBe(false)
+        expect(re.test(url)).toBe(false)
+      }
+    })
+
+    it('returns null for invalid patterns', () => {
+      expect(urlFilterToRegExpSource({ matchType: 'host_equals', pattern: '' })).toBeNull()
+      expect(urlFilterToRegExpSource({ matchType: 'localhost_port', pattern: 'example.com' })).toBeNull()
+    })
+  })
 })
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  checkRegexSupport,
+  needsRegexSupportCheck,
+  validateHeader,
+  validateHeaderName,
+  validateHeaderValue,
+  validateUrlFilter,
+} from '@/lib/validation'
+
+describe('validation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('validateHeaderName', () => {
+    it('accepts HTTP tokens and empty names', () => {
+      expect(validateHeaderName({ name: 'X-Custom_Header.v2', type: 'request', operation: 'set' })).toBeNull()
+      expect(validateHeaderName({ name: '  ', type: 'request', operation: 'set' })).toBeNull()
+    })
+
+    it('rejects spaces, colons and non-ASCII characters', () => {
+      for (const name of ['X Bad', 'X-Bad:', 'X-Åäö', '(X)']) {
+        expect(validateHeaderName({ name, type: 'request', operation: 'set' })).toBe('invalid_name')
+      }
+    })
+
+    it('only allows appending to the request headers Chrome lists', () => {
+      expect(validateHeaderName({ name: 'X-Custom', type: 'request', operation: 'append' })).toBe('append_not_supported')
+      expect(validateHeaderName({ name: 'Accept-Language', type: 'request', operation: 'append' })).toBeNull()
+      expect(validateHeaderName({ name: 'X-Custom', type: 'response', operation: 'append' })).toBeNull()
+    })
+  })
+
+  describe('validateHeaderValue', () => {
+    it('rejects line breaks and null bytes unless the header is removed', () => {
+      expect(validateHeaderValue({ value: 'a\r\nb', operation: 'set' })).toBe('invalid_value')
+      expect(validateHeaderValue({ value: 'a\0b', operation: 'append' })).toBe('invalid_value')
+      expect(validateHeaderValue({ value: 'a\nb', operation: 'remove' })).toBeNull()
+      expect(validateHeaderValue({ value: 'Bearer {{env.TOKEN}}', operation: 'set' })).toBeNull()
+    })
+
+    it('reports name errors before value errors', () => {
+      expect(validateHeader({ name: 'X Bad', value: 'a\nb', type: 'request', operation: 'set' })).toBe('invalid_name')
+    })
+  })
+
+  describe('validateUrlFilter', () => {
+    it('checks regex syntax, hosts and localhost ports', () => {
+      expect(validateUrlFilter({ matchType: 'regex', pattern: '(unclosed' })).toBe('invalid_regex')
+      expect(validateUrlFilter({ matchType: 'host_equals', pattern: 'https://' })).toBe('invalid_host')
+      expect(validateUrlFilter({ matchType: 'localhost_port', pattern: 'abc' })).toBe('invalid_localhost')
+      expect(validateUrlFilter({ matchType: 'host_equals', pattern: 'app.example.com' })).toBeNull()
+      expect(validateUrlFilter({ matchType: 'regex', pattern: '' })).toBeNull()
+    })
+
+    it('rejects non-ASCII patterns only for request URL filters', () => {
+      expect(validateUrlFilter({ matchType: 'url_contains', pattern: 'café', target: 'request' })).toBe('non_ascii_pattern')
+      expect(validateUrlFilter({ matchType: 'url_contains', pattern: 'café', target: 'tab' })).toBeNull()
+    })
+
+    it('rejects request URL excludes Chrome can only express as whole domains', () => {
+      const exclude = { type: 'exclude', target: 'request' } as const
+
+      expect(validateUrlFilter({ ...exclude, matchType: 'host_ends_with', pattern: 'example.com' })).toBeNull()
+      expect(validateUrlFilter({ ...exclude, matchType: 'localhost_port', pattern: 'localhost' })).toBeNull()
+      expect(validateUrlFilter({ ...exclude, matchType: 'host_equals', pattern: 'example.com' })).toBe('exclude_not_supported')
+      expect(validateUrlFilter({ ...exclude, matchType: 'localhost_port', pattern: '3000' })).toBe('exclude_not_supported')
+      expect(validateUrlFilter({ ...exclude, matchType: 'regex', pattern: 'tracking' })).toBe('exclude_not_supported')
+      expect(validateUrlFilter({ ...exclude, target: 'tab', matchType: 'regex', pattern: 'tracking' })).toBeNull()
+    })
+  })
+
+  describe('checkRegexSupport', () => {
+    it('maps Chrome reasons to errors', async () => {
+      const isRegexSupported = vi.fn()
+        .mockResolvedValueOnce({ isSupported: true })
+        .mockResolvedValueOnce({ isSupported: false, reason: 'syntaxError' })
+        .mockResolvedValueOnce({ isSupported: false, reason: 'memoryLimitExceeded' })
+      vi.stubGlobal('chrome', { declarativeNetRequest: { isRegexSupported } })
+
+      expect(await checkRegexSupport('a+')).toBeNull()
+      expect(await checkRegexSupport('(?=a)')).toBe('regex_not_supported')
+      expect(await checkRegexSupport('(a{1000}){1000}')).toBe('regex_too_complex')
+    })
+
+    it('skips the check outside the extension', async () => {
+      vi.stubGlobal('chrome', undefined)
+
+      expect(await checkRegexSupport('(?=a)')).toBeNull()
+      expect(needsRegexSupportCheck({ matchType: 'regex', pattern: 'a', target: 'request' })).toBe(true)
+      expect(needsRegexSupportCheck({ matchType: 'regex', pattern: 'a', target: 'tab' })).toBe(false)
+    })
+  })
+})
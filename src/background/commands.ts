@@ -0,0 +1,124 @@
+import type { AppState, UrlFilter } from '../types'
+import { generateId } from '../types'
+import { getEnabledProfiles } from '../lib/profiles'
+import { isSubscribedProfile } from '../lib/subscriptions'
+import { getUrlFilterTarget, normalizeHostPattern } from '../lib/urlFilters'
+import { isHttpUrl } from './rules'
+
+/** Keyboard shortcuts declared under `commands` in the manifest */
+export const PROFILE_COMMANDS = [
+  'next-profile',
+  'previous-profile',
+  'select-profile-1',
+  'select-profile-2',
+  'select-profile-3',
+  'select-profile-4',
+  'toggle-paused',
+] as const
+
+export type ProfileCommand = typeof PROFILE_COMMANDS[number]
+
+export function isProfileCommand(command: string): command is ProfileCommand {
+  return (PROFILE_COMMANDS as readonly string[]).includes(command)
+}
+
+/**
+ * Selects the profile at `index`. When the selected profile is the only one on, the
+ * new one takes its place, so switching works for people who run one profile at a time.
+ */
+function selectProfileAt(state: AppState, index: number, now: number): AppState | null {
+  const target = state.profiles[index]
+  if (!target || target.id === state.activeProfileId) return null
+
+  const enabled = getEnabledProfiles(state)
+  const movesEnabled = enabled.length === 1 && enabled[0]?.id === state.activeProfileId
+  if (!movesEnabled) return { ...state, activeProfileId: target.id }
+
+  return {
+    ...state,
+    activeProfileId: target.id,
+    profiles: state.profiles.map(profile => {
+      const isTarget = profile.id === target.id
+      if (profile.enabled === isTarget) return profile
+      return { ...profile, enabled: isTarget, updatedAt: now }
+    }),
+  }
+}
+
+/**
+ * Returns the state after auto mode picked a profile that is not applied, or null when it
+ * changes nothing. Like the shortcuts, it moves the switch over when the selected profile
+ * is the only one on, so switching tabs between staging and prod switches the headers too.
+ */
+export function selectAutoProfile(state: AppState, profileId: string, now = Date.now()): AppState | null {
+  const index = state.profiles.findIndex(p => p.id === profileId)
+  return index === -1 ? null : selectProfileAt(state, index, now)
+}
+
+/**
+ * Returns the state after a keyboard shortcut, or null when it changes nothing.
+ * Profile numbers match the sidebar and the toolbar icon; next and previous wrap around.
+ */
+export function applyProfileCommand(state: AppState, command: ProfileCommand, now = Date.now()): AppState | null {
+  if (command === 'toggle-paused') {
+    return { ...state, paused: !state.paused }
+  }
+
+  const count = state.profiles.length
+  if (count === 0) return null
+
+  const activeIndex = Math.max(0, state.profiles.findIndex(p => p.id === state.activeProfileId))
+  switch (command) {
+    case 'next-profile':
+      return selectProfileAt(state, (activeIndex + 1) % count, now)
+    case 'previous-profile':
+      return selectProfileAt(state, (activeIndex - 1 + count) % count, now)
+    default:
+      return selectProfileAt(state, Number(command.slice('select-profile-'.length)) - 1, now)
+  }
+}
+
+function isSiteFilter(filter: UrlFilter, host: string): boolean {
+  return filter.matchType === 'host_equals'
+    && getUrlFilterTarget(filter) === 'tab'
+    && normalizeHostPattern(filter.pattern) === host
+}
+
+/**
+ * Returns the state after the "Apply profile to this site" (`include`) or "Exclude this site
+ * from profile" (`exclude`) menu items, or null when it changes nothing. Adds a `host_equals`
+ * tab filter for the page's host and switches off an enabled filter of the other type for
+ * the same host, which would contradict it. Applying also turns the profile on.
+ * Subscribed profiles are read-only, so they are left alone.
+ */
+export function addSiteFilter(
+  state: AppState,
+  profileId: string,
+  pageUrl: string | undefined,
+  type: UrlFilter['type'],
+  now = Date.now()
+): AppState | null {
+  const host = pageUrl && isHttpUrl(pageUrl) ? normalizeHostPattern(pageUrl) : null
+  const profile = state.profiles.find(p => p.id === profileId)
+  if (!host || !profile || isSubscribedProfile(profile)) return null
+
+  const hasFilter = profile.urlFilters.some(f => f.enabled && f.type === type && isSiteFilter(f, host))
+  const turnsOn = type === 'include' && !getEnabledProfiles(state).some(p => p.id === profileId)
+  if (hasFilter && !turnsOn) return null
+
+  const urlFilters = profile.urlFilters.map(filter =>
+    filter.enabled && filter.type !== type && isSiteFilter(filter, host) ? { ...filter, enabled: false } : filter
+  )
+  if (!hasFilter) {
+    urlFilters.push({ id: generateId(), enabled: true, matchType: 'host_equals', pattern: host, type })
+  }
+
+  return {
+    ...state,
+    profiles: state.profiles.map(p => {
+      if (p.id === profileId) return { ...p, urlFilters, enabled: turnsOn || p.enabled, updatedAt: now }
+      // States saved before per-profile toggles need explicit flags once one profile has one
+      return turnsOn && typeof p.enabled !== 'boolean' ? { ...p, enabled: p.id === state.activeProfileId } : p
+    }),
+  }
+}
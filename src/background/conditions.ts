@@ -0,0 +1,249 @@
+import type { UrlFilter, UrlFilterTarget } from '../types'
+import {
+  escapeRegExp,
+  getActiveUrlFilters,
+  getUrlFiltersForTarget,
+  normalizeHostPattern,
+  parseLocalhostPattern,
+} from '../lib/urlFilters'
+import { isRequestExcludeSupported } from '../lib/validation'
+
+/**
+ * The request-URL part of a declarativeNetRequest rule condition.
+ * At most one of `urlFilter` and `regexFilter` is set, as Chrome requires.
+ */
+export interface RequestConditionPart {
+  requestDomains?: string[]
+  urlFilter?: string
+  regexFilter?: string
+}
+
+/**
+ * Request URL filters translated to declarativeNetRequest conditions.
+ * Each entry in `includes` becomes its own rule (DNR has no OR within a single condition).
+ */
+export interface RequestConditions {
+  includes: RequestConditionPart[]
+  excludedRequestDomains: string[]
+  warnings: string[]
+}
+
+// Any scheme: declarativeNetRequest matches http(s) and ws(s) requests
+const SCHEME_PATTERN = '^[a-z][a-z0-9+.-]*://'
+
+// Characters with a special meaning in a declarativeNetRequest urlFilter
+const URL_FILTER_SYNTAX = /[*|^]/
+
+function isDomainOnly(part: RequestConditionPart): boolean {
+  return !!part.requestDomains && !part.urlFilter && !part.regexFilter
+}
+
+function localhostPortRegex(port: string): string {
+  if (port === '80') return '^http://localhost(:80)?/'
+  if (port === '443') return '^https://localhost(:443)?/'
+  return `${SCHEME_PATTERN}localhost:${port}/`
+}
+
+/**
+ * Translates a single URL filter into the equivalent request-URL condition.
+ * Returns null when the pattern is empty or invalid.
+ */
+export function urlFilterToRequestCondition(filter: UrlFilter): RequestConditionPart | null {
+  const pattern = filter.pattern.trim()
+  const matchType = filter.matchType ?? 'dnr_url_filter'
+
+  switch (matchType) {
+    case 'host_equals': {
+      const host = normalizeHostPattern(pattern)
+      if (!host) return null
+      // requestDomains also matches subdomains, so exact hosts need a regex
+      return { regexFilter: `${SCHEME_PATTERN}${escapeRegExp(host)}(:[0-9]+)?/` }
+    }
+    case 'host_ends_with': {
+      const domain = normalizeHostPattern(pattern)
+      if (!domain) return null
+      return { requestDomains: [domain] }
+    }
+    case 'localhost_port': {
+      const parsed = parseLocalhostPattern(pattern)
+      if (!parsed) return null
+      if (!parsed.port) return { requestDomains: ['localhost'] }
+      return { regexFilter: localhostPortRegex(parsed.port) }
+    }
+    case 'url_starts_with': {
+      if (!pattern) return null
+      if (!pattern.includes('://')) {
+        return { regexFilter: `${SCHEME_PATTERN}${escapeRegExp(pattern)}` }
+      }
+      if (URL_FILTER_SYNTAX.test(pattern)) {
+        return { regexFilter: `^${escapeRegExp(pattern)}` }
+      }
+      return { urlFilter: `|${pattern}` }
+    }
+    case 'path_starts_with': {
+      if (!pattern) return null
+      const path = pattern.startsWith('/') ? pattern : `/${pattern}`
+      return { regexFilter: `${SCHEME_PATTERN}[^/?#]*${escapeRegExp(path)}` }
+    }
+    case 'url_contains': {
+      if (!pattern) return null
+      if (URL_FILTER_SYNTAX.test(pattern)) {
+        return { regexFilter: escapeRegExp(pattern) }
+      }
+      return { urlFilter: pattern }
+    }
+    case 'regex':
+      return pattern ? { regexFilter: pattern } : null
+    case 'dnr_url_filter':
+    default: {
+      if (!pattern) return null
+      if (pattern.includes('|') || pattern.includes('^')) {
+        return { regexFilter: `^${escapeRegExp(pattern).replace(/\\\*/g, '.*')}$` }
+      }
+      // Globs match the whole URL, while urlFilter matches a substring unless anchored
+      const start = pattern.startsWith('*') ? '' : '|'
+      const end = pattern.endsWith('*') ? '' : '|'
+      return { urlFilter: `${start}${pattern}${end}` }
+    }
+  }
+}
+
+/**
+ * Translates an exclude filter to an `excludedRequestDomains` entry.
+ * Returns null for filters that cannot be expressed as an excluded domain (see `isRequestExcludeSupported`).
+ */
+function excludeFilterToDomain(filter: UrlFilter): string | null {
+  if (!isRequestExcludeSupported(filter)) return null
+  const pattern = filter.pattern.trim()
+  return filter.matchType === 'localhost_port' ? 'localhost' : normalizeHostPattern(pattern)
+}
+
+/**
+ * Builds request-URL conditions from the request-target filters in a list.
+ * Include filters that only name domains share one condition; every other include gets its own.
+ * An exclude Chrome cannot express makes the list match nothing, rather than applying where it was excluded.
+ */
+export function buildRequestConditions(filters: UrlFilter[] | undefined): RequestConditions {
+  const active = getActiveUrlFilters(getUrlFiltersForTarget(filters, 'request'))
+  const warnings: string[] = []
+  const includes: RequestConditionPart[] = []
+  const includedDomains: string[] = []
+  const excludedRequestDomains: string[] = []
+  let hasIncludes = false
+  let hasUnsupportedExclude = false
+
+  for (const filter of active) {
+    if (filter.type === 'exclude') {
+      const domain = excludeFilterToDomain(filter)
+      if (domain) {
+        if (!excludedRequestDomains.includes(domain)) excludedRequestDomains.push(domain)
+      } else {
+        hasUnsupportedExclude = true
+        warnings.push(`Request URL exclude filters only support host ends with and localhost; ${filter.matchType} "${filter.pattern}" turns the rules off`)
+      }
+      continue
+    }
+
+    hasIncludes = true
+    const part = urlFilterToRequestCondition(filter)
+    if (!part) {
+      warnings.push(`Invalid request URL filter ${filter.matchType} "${filter.pattern}"`)
+      continue
+    }
+
+    if (isDomainOnly(part)) {
+      for (const domain of part.requestDomains ?? []) {
+        if (!includedDomains.includes(domain)) includedDomains.push(domain)
+      }
+    } else {
+      includes.push(part)
+    }
+  }
+
+  if (includedDomains.length > 0) {
+    includes.unshift({ requestDomains: includedDomains })
+  }
+
+  if (hasUnsupportedExclude) return { includes: [], excludedRequestDomains, warnings }
+
+  // No includes means every request matches; includes that all failed to translate match nothing
+  if (!hasIncludes) includes.push({})
+
+  return { includes, excludedRequestDomains, warnings }
+}
+
+function isSameOrSubdomain(domain: string, parent: string): boolean {
+  return domain === parent || domain.endsWith(`.${parent}`)
+}
+
+function intersectDomains(a: string[], b: string[]): string[] {
+  const result: string[] = []
+  for (const domain of [...a, ...b]) {
+    const inA = a.some(parent => isSameOrSubdomain(domain, parent))
+    const inB = b.some(parent => isSameOrSubdomain(domain, parent))
+    if (inA && inB && !result.includes(domain)) result.push(domain)
+  }
+  return result
+}
+
+/**
+ * Combines two condition parts so both must match.
+ * Returns null when they can never match together, or `'conflict'` when both need a URL pattern.
+ */
+export function mergeRequestConditionParts(
+  a: RequestConditionPart,
+  b: RequestConditionPart
+): RequestConditionPart | null | 'conflict' {
+  const aHasPattern = !!(a.urlFilter || a.regexFilter)
+  const bHasPattern = !!(b.urlFilter || b.regexFilter)
+  if (aHasPattern && bHasPattern) return 'conflict'
+
+  const merged: RequestConditionPart = aHasPattern
+    ? { urlFilter: a.urlFilter, regexFilter: a.regexFilter }
+    : { urlFilter: b.urlFilter, regexFilter: b.regexFilter }
+  if (!merged.urlFilter) delete merged.urlFilter
+  if (!merged.regexFilter) delete merged.regexFilter
+
+  if (a.requestDomains && b.requestDomains) {
+    const domains = intersectDomains(a.requestDomains, b.requestDomains)
+    if (domains.length === 0) return null
+    merged.requestDomains = domains
+  } else if (a.requestDomains || b.requestDomains) {
+    merged.requestDomains = a.requestDomains ?? b.requestDomains
+  }
+
+  return merged
+}
+
+/**
+ * Combines profile and header request conditions: a request must match both.
+ */
+export function combineRequestConditions(a: RequestConditions, b: RequestConditions): RequestConditions {
+  const warnings = [...a.warnings, ...b.warnings]
+  const includes: RequestConditionPart[] = []
+
+  for (const left of a.includes) {
+    for (const right of b.includes) {
+      const merged = mergeRequestConditionParts(left, right)
+      if (merged === 'conflict') {
+        warnings.push('Profile and header request URL filters both need a URL pattern; Chrome cannot combine them, so that pair is skipped')
+        continue
+      }
+      if (merged) includes.push(merged)
+    }
+  }
+
+  const excludedRequestDomains = [...a.excludedRequestDomains]
+  for (const domain of b.excludedRequestDomains) {
+    if (!excludedRequestDomains.includes(domain)) excludedRequestDomains.push(domain)
+  }
+
+  return { includes, excludedRequestDomains, warnings }
+}
+
+/**
+ * Whether a filter list has any active filter for the given target
+ */
+export function hasActiveFilters(filters: UrlFilter[] | undefined, target: UrlFilterTarget): boolean {
+  return getActiveUrlFilters(getUrlFiltersForTarget(filters, target)).length > 0
+}
@@ -1,11 +1,78 @@
-import type { HeaderRule, AppState, Profile } from '../types'
-import { isProfileEnabledForTabUrl } from '../lib/urlFilters'
+import type {
+  AppState,
+  AutoProfileSelection,
+  Profile,
+  RequestLog,
+  RequestLogEntry,
+  RuleFailure,
+  SubscriptionStatus,
+  SyncConflict,
+  SyncPayload,
+  SyncStatus,
+} from '../types'
+import { getEnabledProfiles } from '../lib/profiles'
+import { isNewerSchemaVersion } from '../lib/migrations'
 import { getReadableTextColor, parseColorInputToHex } from '../lib/color'
+import {
+  REQUEST_LOG_LIMIT,
+  addRuleGeneration,
+  createRequestLogEntry,
+  getRulesAt,
+  prependRequestLogEntries,
+  type RuleGeneration,
+} from '../lib/requestLog'
+import { RULE_FAILURES_KEY } from '../lib/validation'
+import { formatRemainingTime } from '../lib/schedule'
+import { AUTO_PROFILE_KEY, pickAutoProfile } from '../lib/autoSelect'
+import { addSiteFilter, applyProfileCommand, isProfileCommand, selectAutoProfile } from './commands'
+import {
+  SYNC_BASE_KEY,
+  SYNC_CONFLICTS_KEY,
+  SYNC_STATUS_KEY,
+  addSyncConflicts,
+  applySyncPayload,
+  isSameSyncPayload,
+  isSyncPayloadChange,
+  mergeSyncPayloads,
+  readSyncPayload,
+  toSyncPayload,
+  writeSyncPayload,
+} from '../lib/sync'
+import {
+  SUBSCRIPTION_ALARM,
+  SUBSCRIPTION_REFRESH_MINUTES,
+  SUBSCRIPTION_STATUS_KEY,
+  applySubscriptionProfiles,
+  fetchSubscriptionProfiles,
+  getSubscriptionStatus,
+  isSubscribedProfile,
+} from '../lib/subscriptions'
+import {
+  buildSessionRules,
+  getEnabledHeadersForUrl,
+  getNextScheduleRebuild,
+  getShortestScheduleRemainingMs,
+  hasDynamicHeaderValues,
+  isHttpUrl,
+  summarizeSessionRules,
+} from './rules'
 
 declare const process: { env?: { [key: string]: string | undefined } } | undefined
 
+type Rule = chrome.declarativeNetRequest.Rule
+
 const STORAGE_KEY = 'openheaders_state'
-const SESSION_RULE_ID = 1
+const REQUEST_LOG_KEY = 'openheaders_request_log'
+const REQUEST_LOG_CLEARED_AT_KEY = 'openheaders_request_log_cleared_at'
+const REQUEST_LOG_PERSIST_DELAY_MS = 1000
+// chrome.storage.sync allows 120 writes a minute; typing should not use them up
+const SYNC_DELAY_MS = 2000
+const TEMPLATE_REFRESH_ALARM = 'openheaders-refresh-templates'
+// chrome.alarms does not fire more often than every 30 seconds
+const TEMPLATE_REFRESH_PERIOD_MINUTES = 0.5
+const SCHEDULE_ALARM = 'openheaders-schedule'
+// How often the tooltip countdown of a time-boxed profile is refreshed
+const SCHEDULE_COUNTDOWN_REFRESH_MS = 60 * 1000
 const DEFAULT_PROFILE_COLOR = '#7c3aed'
 const DEFAULT_ICON_PATHS: { [size: number]: string } = {
   16: 'icons/icon16.png',
@@ -16,72 +83,48 @@ const PROFILE_ICON_SIZES = [16, 32, 48, 128]
 const BADGE_BACKGROUND_COLOR = '#111827'
 const BADGE_TEXT_COLOR = '#ffffff'
 const INACTIVE_ICON_OPACITY = 0.52
+const PAUSED_ICON_COLOR = '#6b7280'
+const PAUSE_MENU_ID = 'openheaders-toggle-paused'
+const APPLY_SITE_MENU_ID = 'openheaders-apply-site'
+const EXCLUDE_SITE_MENU_ID = 'openheaders-exclude-site'
 const CAN_RENDER_CUSTOM_ICON = typeof OffscreenCanvas !== 'undefined'
+// onRuleMatchedDebug is only available to unpacked (development) installs
+const CAN_LOG_EVERY_MATCH = !!chrome.declarativeNetRequest.onRuleMatchedDebug
 const DEBUG =
   typeof process !== 'undefined' &&
   !!process.env &&
   process.env.OPENHEADERS_DEBUG === 'true'
 
-interface RuleAction {
-  type: 'modifyHeaders'
-  requestHeaders?: chrome.declarativeNetRequest.ModifyHeaderInfo[]
-  responseHeaders?: chrome.declarativeNetRequest.ModifyHeaderInfo[]
-}
-
-const RESOURCE_TYPES = [
-  'main_frame',
-  'sub_frame',
-  'stylesheet',
-  'script',
-  'image',
-  'font',
-  'object',
-  'xmlhttprequest',
-  'ping',
-  'csp_report',
-  'media',
-  'websocket',
-  'webtransport',
-  'webbundle',
-  'other',
-] satisfies Array<`${chrome.declarativeNetRequest.ResourceType}`>
-
-function headerOperationToChrome(operation: HeaderRule['operation']): chrome.declarativeNetRequest.HeaderOperation {
-  switch (operation) {
-    case 'set':
-      return chrome.declarativeNetRequest.HeaderOperation.SET
-    case 'remove':
-      return chrome.declarativeNetRequest.HeaderOperation.REMOVE
-    case 'append':
-      return chrome.declarativeNetRequest.HeaderOperation.APPEND
-    default:
-      return chrome.declarativeNetRequest.HeaderOperation.SET
-  }
-}
-
-function isHttpUrl(url: string): boolean {
-  return url.startsWith('http://') || url.startsWith('https://')
-}
-
 function normalizeProfileColor(color: string | undefined): string {
   const parsed = parseColorInputToHex(color ?? '')
   if (parsed) return parsed
   return DEFAULT_PROFILE_COLOR
 }
 
-function getActiveProfileNumber(state: AppState | null): number {
-  if (!state || !state.activeProfileId) return 1
+function getProfileNumber(state: AppState | null, profileId: string | null): number {
+  if (!state || !profileId) return 1
 
-  const index = state.profiles.findIndex(p => p.id === state.activeProfileId)
+  const index = state.profiles.findIndex(p => p.id === profileId)
   if (index < 0) return 1
   return index + 1
 }
 
+// Two bars in place of the profile number
+function drawPauseSymbol(context: OffscreenCanvasRenderingContext2D, size: number, color: string): void {
+  const barWidth = size * 0.12
+  const barHeight = size * 0.38
+  const gap = size * 0.1
+  const top = (size - barHeight) / 2
+  context.fillStyle = color
+  context.fillRect(size / 2 - gap / 2 - barWidth, top, barWidth, barHeight)
+  context.fillRect(size / 2 + gap / 2, top, barWidth, barHeight)
+}
+
 function createProfileIconImageData(
   size: number,
   profileColor: string,
   textColor: string,
-  profileNumber: number,
+  profileNumber: number | null,
   iconOpacity: number
 ): ImageData | null {
   try {
@@ -106,6 +149,12 @@ function createProfileIconImageData(
     context.stroke()
     context.globalAlpha = effectiveOpacity
 
+    if (profileNumber === null) {
+      drawPauseSymbol(context, size, textColor)
+      context.globalAlpha = 1
+      return context.getImageData(0, 0, size, size)
+    }
+
     const displayedNumber = String(Math.min(Math.max(profileNumber, 1), 99))
     const fontScale = displayedNumber.length > 1 ? 0.48 : 0.58
     context.fillStyle = textColor
@@ -124,7 +173,7 @@ function createProfileIconImageData(
 function createProfileIconSet(
   profileColor: string,
   textColor: string,
-  profileNumber: number,
+  profileNumber: number | null,
   iconOpacity: number
 ): { [size: number]: ImageData } | null {
   const imageDataBySize: { [size: number]: ImageData } = {}
@@ -149,18 +198,14 @@ function getActiveProfile(state: AppState | null): Profile | null {
   return state.profiles.find(p => p.id === state.activeProfileId) ?? null
 }
 
-function getEnabledHeaderCount(profile: Profile): number {
-  return profile.headers.filter(h => {
-    if (!h.enabled || !h.name.trim()) return false
-    if (h.operation !== 'remove' && !h.value?.trim()) return false
-    return true
-  }).length
-}
+function getAppliedHeaderCountForUrl(state: AppState, tabUrl: string | undefined): number {
+  if (state.paused || !tabUrl || !isHttpUrl(tabUrl)) return 0
 
-function getAppliedHeaderCountForUrl(profile: Profile, tabUrl: string | undefined): number {
-  if (!tabUrl || !isHttpUrl(tabUrl)) return 0
-  if (!isProfileEnabledForTabUrl(profile, tabUrl)) return 0
-  return getEnabledHeaderCount(profile)
+  let count = 0
+  for (const profile of getEnabledProfiles(state, Date.now())) {
+    count += getEnabledHeadersForUrl(profile, tabUrl).length
+  }
+  return count
 }
 
 function formatBadgeCount(count: number): string {
@@ -168,61 +213,6 @@ function formatBadgeCount(count: number): string {
   return count > 99 ? '99+' : String(count)
 }
 
-/**
- * Builds a Chrome declarativeNetRequest session rule from the active profile
- * @param profile - The active profile
- * @param enabledTabIds - The tab IDs where the active profile should apply
- * @returns A Chrome extension rule to apply headers, or null if none should apply
- */
-function buildSessionRuleFromProfile(
-  profile: Profile,
-  enabledTabIds: number[]
-): chrome.declarativeNetRequest.Rule | null {
-  if (enabledTabIds.length === 0) return null
-
-  const enabledHeaders = profile.headers.filter(h => {
-    if (!h.enabled || !h.name.trim()) return false
-    // Chrome requires a value for set/append — omitting it silently rejects the entire rule
-    if (h.operation !== 'remove' && !h.value?.trim()) return false
-    return true
-  })
-  if (enabledHeaders.length === 0) return null
-
-  const requestHeaders: chrome.declarativeNetRequest.ModifyHeaderInfo[] = []
-  const responseHeaders: chrome.declarativeNetRequest.ModifyHeaderInfo[] = []
-
-  for (const header of enabledHeaders) {
-    const headerInfo: chrome.declarativeNetRequest.ModifyHeaderInfo = {
-      header: header.name,
-      operation: headerOperationToChrome(header.operation),
-      ...(header.operation !== 'remove' ? { value: header.value } : {}),
-    }
-
-    if (header.type === 'request') {
-      requestHeaders.push(headerInfo)
-    } else {
-      responseHeaders.push(headerInfo)
-    }
-  }
-
-  if (requestHeaders.length === 0 && responseHeaders.length === 0) return null
-
-  const action: RuleAction = { type: 'modifyHeaders' }
-  if (requestHeaders.length > 0) action.requestHeaders = requestHeaders
-  if (responseHeaders.length > 0) action.responseHeaders = responseHeaders
-
-  return {
-    id: SESSION_RULE_ID,
-    priority: 1,
-    action: action as chrome.declarativeNetRequest.RuleAction,
-    condition: {
-      urlFilter: '*',
-      tabIds: enabledTabIds,
-      resourceTypes: RESOURCE_TYPES,
-    },
-  }
-}
-
 const tabUrls = new Map<number, string>()
 let latestState: AppState | null = null
 let clearDynamicRulesPromise: Promise<void> | null = null
@@ -232,7 +222,20 @@ let pendingActionUpdate = false
 let actionUpdateInFlight: Promise<void> | null = null
 let lastAppliedIconKey: string | null = null
 let lastBadgeText: string | null = null
+let lastActionTitle: string | null = null
+let lastAutoSelectionKey: string | null = null
+let lastPauseMenuChecked: boolean | null = null
+let lastContextMenuKey: string | null = null
 let badgeStyleInitialized = false
+let templateRefreshScheduled: boolean | null = null
+let ruleGenerations: RuleGeneration[] = []
+let requestLog: RequestLogEntry[] = []
+let requestLogClearedAt = 0
+let requestLogPersistTimer: ReturnType<typeof setTimeout> | null = null
+let syncTimer: ReturnType<typeof setTimeout> | null = null
+let syncInFlight: Promise<void> = Promise.resolve()
+let subscriptionRefresh: Promise<void> = Promise.resolve()
+let subscriptionAlarmScheduled: boolean | null = null
 
 function clearDynamicRulesOnce(): Promise<void> {
   if (!clearDynamicRulesPromise) {
@@ -251,20 +254,26 @@ function clearDynamicRulesOnce(): Promise<void> {
   return clearDynamicRulesPromise
 }
 
-function computeEnabledTabIds(profile: Profile): number[] {
-  const enabled: number[] = []
+async function setActionPausedIcon(): Promise<void> {
+  if (lastAppliedIconKey === 'paused') return
 
-  for (const [tabId, url] of tabUrls.entries()) {
-    if (!isHttpUrl(url)) continue
-    if (isProfileEnabledForTabUrl(profile, url)) {
-      enabled.push(tabId)
-    }
+  const iconSet = CAN_RENDER_CUSTOM_ICON
+    ? createProfileIconSet(PAUSED_ICON_COLOR, getReadableTextColor(PAUSED_ICON_COLOR), null, 1)
+    : null
+  if (iconSet) {
+    await chrome.action.setIcon({ imageData: iconSet })
+  } else {
+    await chrome.action.setIcon({ path: DEFAULT_ICON_PATHS })
   }
-
-  return enabled
+  lastAppliedIconKey = 'paused'
 }
 
 async function setActionIcon(profile: Profile | null, profileNumber: number, iconOpacity: number): Promise<void> {
+  if (latestState?.paused) {
+    await setActionPausedIcon()
+    return
+  }
+
   if (!profile || !CAN_RENDER_CUSTOM_ICON) {
     if (lastAppliedIconKey === 'default') return
     await chrome.action.setIcon({ path: DEFAULT_ICON_PATHS })
@@ -312,19 +321,59 @@ async function setActionBadgeText(text: string): Promise<void> {
   lastBadgeText = text
 }
 
+// The tooltip names the shortest time an applied profile has left, if any
+async function setActionTitle(remainingMs: number | null): Promise<void> {
+  const appName = chrome.i18n.getMessage('app_name')
+  // chrome.i18n leaves the popup's `{{name}}` placeholders as they are
+  const title = remainingMs === null
+    ? appName
+    : chrome.i18n.getMessage('action_title_remaining')
+      .replace('{{name}}', appName)
+      .replace('{{time}}', formatRemainingTime(remainingMs))
+
+  if (lastActionTitle === title) return
+  await chrome.action.setTitle({ title })
+  lastActionTitle = title
+}
+
+// Tells the popup which profile auto mode picked for the focused tab
+async function reportAutoProfileSelection(selection: AutoProfileSelection | null): Promise<void> {
+  const key = JSON.stringify(selection)
+  if (lastAutoSelectionKey === key) return
+  await chrome.storage.session.set({ [AUTO_PROFILE_KEY]: selection })
+  lastAutoSelectionKey = key
+}
+
 async function updateActionAppearanceOnce(): Promise<void> {
   try {
-    const profile = getActiveProfile(latestState)
-    const profileNumber = getActiveProfileNumber(latestState)
+    let profile = getActiveProfile(latestState)
     let appliedHeaderCount = 0
-    if (profile) {
+    if (latestState) {
       const activeTabUrl = await getActiveTabUrl()
-      appliedHeaderCount = getAppliedHeaderCountForUrl(profile, activeTabUrl)
+      appliedHeaderCount = getAppliedHeaderCountForUrl(latestState, activeTabUrl)
+
+      if (latestState.autoSelectProfile) {
+        const now = Date.now()
+        const autoProfile = pickAutoProfile(latestState, activeTabUrl, now)
+        await reportAutoProfileSelection({ profileId: autoProfile?.id ?? null, url: activeTabUrl ?? null })
+        if (autoProfile && !getEnabledProfiles(latestState, now).some(p => p.id === autoProfile.id)) {
+          // The stored change comes back through storage.onChanged and rebuilds the rules
+          await updateStoredState(state => selectAutoProfile(state, autoProfile.id, now))
+        }
+        // The icon follows the tab, falling back to the active profile when no filter matches
+        profile = autoProfile ?? profile
+      } else {
+        await reportAutoProfileSelection(null)
+      }
     }
+    const profileNumber = getProfileNumber(latestState, profile?.id ?? null)
     const iconOpacity = appliedHeaderCount > 0 ? 1 : INACTIVE_ICON_OPACITY
+    const remainingMs = getShortestScheduleRemainingMs(latestState)
 
     await setActionIcon(profile, profileNumber, iconOpacity)
+    await syncContextMenus(latestState)
     await setActionBadgeText(formatBadgeCount(appliedHeaderCount))
+    await setActionTitle(remainingMs)
   } catch (error) {
     console.error('Failed to update action appearance:', error)
   }
@@ -368,55 +417,296 @@ function queueUpdateRules(): void {
   })()
 }
 
+// Time-based placeholders like {{timestamp}} are resolved when rules are built,
+// so rebuild periodically while any enabled header uses one.
+async function syncTemplateRefreshAlarm(): Promise<void> {
+  const needsRefresh = hasDynamicHeaderValues(latestState)
+  if (templateRefreshScheduled === needsRefresh) return
+
+  if (needsRefresh) {
+    await chrome.alarms.create(TEMPLATE_REFRESH_ALARM, { periodInMinutes: TEMPLATE_REFRESH_PERIOD_MINUTES })
+  } else {
+    await chrome.alarms.clear(TEMPLATE_REFRESH_ALARM)
+  }
+  templateRefreshScheduled = needsRefresh
+}
+
+// Rebuild rules when a profile's schedule turns it on or off, and keep the tooltip countdown current
+async function syncScheduleAlarm(): Promise<void> {
+  const now = Date.now()
+  let when = getNextScheduleRebuild(latestState, now)
+  if (getShortestScheduleRemainingMs(latestState, now) !== null) {
+    when = Math.min(when ?? Infinity, now + SCHEDULE_COUNTDOWN_REFRESH_MS)
+  }
+
+  if (when === null) {
+    await chrome.alarms.clear(SCHEDULE_ALARM)
+  } else {
+    await chrome.alarms.create(SCHEDULE_ALARM, { when })
+  }
+}
+
+function describeRuleFailure(rule: Rule, ruleProfileIds: Map<number, string>, error: unknown): RuleFailure {
+  const profileId = ruleProfileIds.get(rule.id) ?? null
+  const profile = latestState?.profiles.find(p => p.id === profileId)
+  return {
+    ruleId: rule.id,
+    profileId,
+    profileName: profile?.name ?? null,
+    headers: [...(rule.action.requestHeaders ?? []), ...(rule.action.responseHeaders ?? [])].map(h => h.header),
+    message: error instanceof Error ? error.message : String(error),
+  }
+}
+
+async function addRulesIndividually(
+  existing: Rule[],
+  rules: Rule[],
+  ruleProfileIds: Map<number, string>
+): Promise<{ appliedRules: Rule[], failures: RuleFailure[] }> {
+  await chrome.declarativeNetRequest.updateSessionRules({ removeRuleIds: existing.map(r => r.id) })
+
+  const appliedRules: Rule[] = []
+  const failures: RuleFailure[] = []
+  for (const rule of rules) {
+    try {
+      await chrome.declarativeNetRequest.updateSessionRules({ addRules: [rule] })
+      appliedRules.push(rule)
+    } catch (error) {
+      console.error(`Chrome rejected rule ${rule.id}:`, error)
+      failures.push(describeRuleFailure(rule, ruleProfileIds, error))
+    }
+  }
+  return { appliedRules, failures }
+}
+
+/** Lets the popup show which rules Chrome rejected; an empty list clears the report */
+async function reportRuleFailures(failures: RuleFailure[]): Promise<void> {
+  try {
+    await chrome.storage.session.set({ [RULE_FAILURES_KEY]: failures })
+  } catch (error) {
+    console.warn('Failed to report rule failures:', error)
+  }
+}
+
 async function updateRulesOnce(): Promise<void> {
   try {
     await clearDynamicRulesOnce()
 
-    if (!latestState) {
-      await chrome.declarativeNetRequest.updateSessionRules({
-        removeRuleIds: [SESSION_RULE_ID],
-      })
-      return
-    }
+    // Replace every existing session rule: IDs are reallocated on each build, and
+    // session rules outlive service worker restarts, so in-memory bookkeeping is not enough.
+    const existing = await chrome.declarativeNetRequest.getSessionRules()
+    const warnings: string[] = []
+    const ruleProfileIds = new Map<number, string>()
+    const rules = buildSessionRules(latestState, tabUrls, warnings, Date.now(), ruleProfileIds)
 
-    const profile = getActiveProfile(latestState)
-    if (!profile) {
+    let appliedRules = rules
+    let failures: RuleFailure[] = []
+    try {
       await chrome.declarativeNetRequest.updateSessionRules({
-        removeRuleIds: [SESSION_RULE_ID],
+        removeRuleIds: existing.map(r => r.id),
+        addRules: rules,
       })
-      return
+    } catch (error) {
+      // One rejected rule fails the whole batch; add them one by one so the rest still apply
+      console.warn('Failed to update rules at once, retrying one by one:', error)
+      const result = await addRulesIndividually(existing, rules, ruleProfileIds)
+      appliedRules = result.appliedRules
+      failures = result.failures
     }
-
-    const enabledTabIds = computeEnabledTabIds(profile)
-    const rule = buildSessionRuleFromProfile(profile, enabledTabIds)
-
-    await chrome.declarativeNetRequest.updateSessionRules({
-      removeRuleIds: [SESSION_RULE_ID],
-      addRules: rule ? [rule] : [],
+    ruleGenerations = addRuleGeneration(ruleGenerations, {
+      since: Date.now(),
+      rules: summarizeSessionRules(latestState, appliedRules, ruleProfileIds),
     })
+    await reportRuleFailures(failures)
 
     if (DEBUG) {
       // eslint-disable-next-line no-console
       console.log(
         'Session rules updated:',
-        rule ? 1 : 0,
+        rules.length,
         'active;',
-        enabledTabIds.length,
-        'tab(s) matched'
+        rules.reduce((count, rule) => count + (rule.condition.tabIds?.length ?? 0), 0),
+        'tab match(es)'
       )
+      for (const warning of new Set(warnings)) {
+        console.warn(warning)
+      }
     }
   } catch (error) {
     console.error('Failed to update rules:', error)
   }
 
+  try {
+    await syncTemplateRefreshAlarm()
+  } catch (error) {
+    console.warn('Failed to schedule template refresh:', error)
+  }
+
+  try {
+    await syncScheduleAlarm()
+  } catch (error) {
+    console.warn('Failed to schedule the next profile schedule change:', error)
+  }
+
   queueUpdateActionAppearance()
 }
 
+// Sync: merge this device's profiles with chrome.storage.sync, a little after the last change
+function queueSync(): void {
+  if (syncTimer) clearTimeout(syncTimer)
+  syncTimer = setTimeout(() => {
+    syncTimer = null
+    syncInFlight = syncInFlight.then(syncOnce).catch((error) => {
+      console.error('Failed to sync profiles:', error)
+    })
+  }, SYNC_DELAY_MS)
+}
+
+async function syncOnce(): Promise<void> {
+  const result = await chrome.storage.local.get([STORAGE_KEY, SYNC_BASE_KEY, SYNC_CONFLICTS_KEY, SYNC_STATUS_KEY])
+  const state = result[STORAGE_KEY] as AppState | undefined
+  const base = (result[SYNC_BASE_KEY] as SyncPayload | undefined) ?? null
+  // Written by a newer version after a downgrade; left alone until the update
+  if (state && isNewerSchemaVersion(state)) return
+  if (!state?.syncEnabled) {
+    // Turning sync back on later starts over, so nothing is deleted based on an old agreement
+    if (base) await chrome.storage.local.remove(SYNC_BASE_KEY)
+    return
+  }
+
+  const lastSyncedAt = (result[SYNC_STATUS_KEY] as SyncStatus | undefined)?.lastSyncedAt ?? null
+  try {
+    const remote = await readSyncPayload(chrome.storage.sync)
+    // Another device is writing; its last write triggers another sync
+    if (remote === 'incomplete') return
+    // Merging or overwriting a format this version cannot read would lose the other devices' data
+    if (remote === 'newer_version') {
+      await chrome.storage.local.set({ [SYNC_STATUS_KEY]: { lastSyncedAt, error: 'newer_version' } satisfies SyncStatus })
+      return
+    }
+
+    const local = toSyncPayload(state)
+    const { payload, conflicts } = remote ? mergeSyncPayloads(local, remote, base) : { payload: local, conflicts: [] }
+
+    if (!isSameSyncPayload(payload, local)) {
+      const current = (await chrome.storage.local.get(STORAGE_KEY))[STORAGE_KEY]
+      // Edited while merging: the storage listener syncs again with the edit
+      if (JSON.stringify(current) !== JSON.stringify(state)) return
+      await chrome.storage.local.set({ [STORAGE_KEY]: applySyncPayload(state, payload) })
+    }
+
+    if (await writeSyncPayload(chrome.storage.sync, payload) === 'too_large') {
+      await chrome.storage.local.set({ [SYNC_STATUS_KEY]: { lastSyncedAt, error: 'too_large' } satisfies SyncStatus })
+      return
+    }
+
+    const existingConflicts = (result[SYNC_CONFLICTS_KEY] as SyncConflict[] | undefined) ?? []
+    await chrome.storage.local.set({
+      [SYNC_BASE_KEY]: payload,
+      [SYNC_STATUS_KEY]: { lastSyncedAt: Date.now(), error: null } satisfies SyncStatus,
+      ...(conflicts.length > 0 ? { [SYNC_CONFLICTS_KEY]: addSyncConflicts(existingConflicts, conflicts) } : {}),
+    })
+  } catch (error) {
+    console.warn('Failed to sync profiles:', error)
+    const status: SyncStatus = { lastSyncedAt, error: 'failed', message: String(error) }
+    await chrome.storage.local.set({ [SYNC_STATUS_KEY]: status })
+  }
+}
+
+// Subscriptions: pull subscribed profiles from their URLs, one refresh at a time
+function queueRefreshSubscriptions(subscriptionIds?: string[]): Promise<void> {
+  subscriptionRefresh = subscriptionRefresh.then(() => refreshSubscriptionsOnce(subscriptionIds)).catch((error) => {
+    console.error('Failed to refresh subscriptions:', error)
+  })
+  return subscriptionRefresh
+}
+
+async function refreshSubscriptionsOnce(subscriptionIds?: string[]): Promise<void> {
+  const result = await chrome.storage.local.get([STORAGE_KEY, SUBSCRIPTION_STATUS_KEY])
+  const subscriptions = ((result[STORAGE_KEY] as AppState | undefined)?.subscriptions ?? [])
+    .filter(s => !subscriptionIds || subscriptionIds.includes(s.id))
+  if (subscriptions.length === 0) return
+
+  const previousStatuses = (result[SUBSCRIPTION_STATUS_KEY] as Record<string, SubscriptionStatus> | undefined) ?? {}
+  const statuses: Record<string, SubscriptionStatus> = {}
+  const pulled = new Map<string, Profile[]>()
+  for (const subscription of subscriptions) {
+    const fetched = await fetchSubscriptionProfiles(subscription.url)
+    statuses[subscription.id] = getSubscriptionStatus(fetched, previousStatuses[subscription.id])
+    if ('profiles' in fetched) pulled.set(subscription.id, fetched.profiles)
+  }
+
+  // Applied to the state as it is now, so edits made while fetching are kept
+  await updateStoredState((state) => {
+    let next: AppState | null = null
+    for (const subscription of state.subscriptions ?? []) {
+      const profiles = pulled.get(subscription.id)
+      if (!profiles) continue
+      next = applySubscriptionProfiles(next ?? state, subscription, profiles) ?? next
+    }
+    return next
+  })
+
+  const current = await chrome.storage.local.get([STORAGE_KEY, SUBSCRIPTION_STATUS_KEY])
+  const subscriptionIdsNow = new Set(((current[STORAGE_KEY] as AppState | undefined)?.subscriptions ?? []).map(s => s.id))
+  // Drops the statuses of removed subscriptions
+  const nextStatuses = Object.fromEntries(
+    Object.entries({
+      ...(current[SUBSCRIPTION_STATUS_KEY] as Record<string, SubscriptionStatus> | undefined),
+      ...statuses,
+    }).filter(([id]) => subscriptionIdsNow.has(id))
+  )
+  await chrome.storage.local.set({ [SUBSCRIPTION_STATUS_KEY]: nextStatuses })
+}
+
+// Pulls subscriptions not checked within the refresh interval, e.g. after the browser was closed
+async function refreshStaleSubscriptions(): Promise<void> {
+  const result = await chrome.storage.local.get(SUBSCRIPTION_STATUS_KEY)
+  const statuses = (result[SUBSCRIPTION_STATUS_KEY] as Record<string, SubscriptionStatus> | undefined) ?? {}
+  const staleBefore = Date.now() - SUBSCRIPTION_REFRESH_MINUTES * 60 * 1000
+  const staleIds = (latestState?.subscriptions ?? [])
+    .filter(s => (statuses[s.id]?.lastCheckedAt ?? 0) < staleBefore)
+    .map(s => s.id)
+  if (staleIds.length > 0) await queueRefreshSubscriptions(staleIds)
+}
+
+async function syncSubscriptionAlarm(): Promise<void> {
+  const hasSubscriptions = (latestState?.subscriptions?.length ?? 0) > 0
+  if (subscriptionAlarmScheduled === hasSubscriptions) return
+
+  if (hasSubscriptions) {
+    // Keeps an existing alarm, so service worker restarts do not push the next refresh back
+    const existing = await chrome.alarms.get(SUBSCRIPTION_ALARM)
+    if (!existing) {
+      await chrome.alarms.create(SUBSCRIPTION_ALARM, { periodInMinutes: SUBSCRIPTION_REFRESH_MINUTES })
+    }
+  } else {
+    await chrome.alarms.clear(SUBSCRIPTION_ALARM)
+  }
+  subscriptionAlarmScheduled = hasSubscriptions
+}
+
 // Listen for storage changes
 chrome.storage.onChanged.addListener((changes, areaName) => {
   if (areaName === 'local' && changes[STORAGE_KEY]) {
     latestState = changes[STORAGE_KEY].newValue as AppState
     queueUpdateRules()
+    // Also right after sync was turned off, to forget the last agreement
+    if (latestState?.syncEnabled || (changes[STORAGE_KEY].oldValue as AppState | undefined)?.syncEnabled) {
+      queueSync()
+    }
+
+    // Pull new subscriptions right away
+    const previousIds = new Set(((changes[STORAGE_KEY].oldValue as AppState | undefined)?.subscriptions ?? []).map(s => s.id))
+    const addedIds = (latestState?.subscriptions ?? []).filter(s => !previousIds.has(s.id)).map(s => s.id)
+    if (addedIds.length > 0) queueRefreshSubscriptions(addedIds)
+    syncSubscriptionAlarm().catch((error) => {
+      console.warn('Failed to schedule subscription refresh:', error)
+    })
+  }
+
+  if (areaName === 'sync' && isSyncPayloadChange(changes) && latestState?.syncEnabled) {
+    queueSync()
   }
 })
 
@@ -453,11 +743,209 @@ chrome.tabs.onActivated.addListener(() => {
   queueUpdateActionAppearance()
 })
 
+// Switching windows changes the focused tab without activating one
+chrome.windows.onFocusChanged.addListener((windowId) => {
+  if (windowId !== chrome.windows.WINDOW_ID_NONE) {
+    queueUpdateActionAppearance()
+  }
+})
+
+// Shortcuts and menus write the state like the popup does; the storage listener applies it
+async function updateStoredState(update: (state: AppState) => AppState | null): Promise<void> {
+  const result = await chrome.storage.local.get(STORAGE_KEY)
+  const state = result[STORAGE_KEY] as AppState | undefined
+  if (!state || isNewerSchemaVersion(state)) return
+
+  const nextState = update(state)
+  if (nextState) {
+    await chrome.storage.local.set({ [STORAGE_KEY]: nextState })
+  }
+}
+
+chrome.commands.onCommand.addListener((command) => {
+  if (!isProfileCommand(command)) return
+  updateStoredState(state => applyProfileCommand(state, command)).catch((error) => {
+    console.error(`Failed to run command ${command}:`, error)
+  })
+})
+
+// Context menus on the toolbar button and on web pages
+function createContextMenu(properties: chrome.contextMenus.CreateProperties): void {
+  chrome.contextMenus.create(properties, () => {
+    const error = chrome.runtime.lastError
+    if (!error) return
+    console.warn(`Failed to create context menu ${properties.id}:`, error.message)
+    // Rebuild on the next update instead of leaving the menus half made
+    lastContextMenuKey = null
+  })
+}
+
+function createContextMenus(state: AppState | null): void {
+  createContextMenu({
+    id: PAUSE_MENU_ID,
+    title: chrome.i18n.getMessage('menu_pause_all'),
+    type: 'checkbox',
+    checked: state?.paused === true,
+    contexts: ['action'],
+  })
+
+  // Subscribed profiles are read-only, but keep their sidebar number
+  const profiles = (state?.profiles ?? [])
+    .map((profile, index) => ({ profile, index }))
+    .filter(({ profile }) => !isSubscribedProfile(profile))
+  if (profiles.length === 0) return
+
+  for (const [parentId, titleKey] of [
+    [APPLY_SITE_MENU_ID, 'context_menu_apply_site'],
+    [EXCLUDE_SITE_MENU_ID, 'context_menu_exclude_site'],
+  ] as const) {
+    createContextMenu({
+      id: parentId,
+      title: chrome.i18n.getMessage(titleKey),
+      contexts: ['action', 'page'],
+      documentUrlPatterns: ['http://*/*', 'https://*/*'],
+    })
+    profiles.forEach(({ profile, index }) => {
+      createContextMenu({
+        id: `${parentId}:${profile.id}`,
+        parentId,
+        // Same number as the sidebar and the toolbar icon; `&&` is a literal `&` in menu titles
+        title: `${index + 1}. ${profile.name.replace(/&/g, '&&')}`,
+        contexts: ['action', 'page'],
+      })
+    })
+  }
+}
+
+/**
+ * Rebuilds the menus when profiles are added, removed, renamed, reordered or detached,
+ * and otherwise only updates the pause checkbox.
+ */
+async function syncContextMenus(state: AppState | null): Promise<void> {
+  const paused = state?.paused === true
+  const menuKey = JSON.stringify((state?.profiles ?? []).map(p => [p.id, p.name, isSubscribedProfile(p)]))
+  if (menuKey !== lastContextMenuKey) {
+    await chrome.contextMenus.removeAll()
+    createContextMenus(state)
+    lastContextMenuKey = menuKey
+    lastPauseMenuChecked = paused
+    return
+  }
+
+  if (lastPauseMenuChecked === paused) return
+  await chrome.contextMenus.update(PAUSE_MENU_ID, { checked: paused })
+  lastPauseMenuChecked = paused
+}
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  const menuItemId = String(info.menuItemId)
+  if (menuItemId === PAUSE_MENU_ID) {
+    updateStoredState(state => ({ ...state, paused: info.checked === true })).catch((error) => {
+      console.error('Failed to pause header changes:', error)
+    })
+    return
+  }
+
+  // Imported profile IDs may contain the separator themselves
+  const separatorIndex = menuItemId.indexOf(':')
+  const parentId = menuItemId.slice(0, separatorIndex)
+  const profileId = menuItemId.slice(separatorIndex + 1)
+  if (separatorIndex < 0 || (parentId !== APPLY_SITE_MENU_ID && parentId !== EXCLUDE_SITE_MENU_ID)) return
+  // The action menu has no page URL of its own
+  const pageUrl = info.pageUrl ?? tab?.url ?? (tab?.id !== undefined ? tabUrls.get(tab.id) : undefined)
+  const type = parentId === APPLY_SITE_MENU_ID ? 'include' : 'exclude'
+  updateStoredState(state => addSiteFilter(state, profileId, pageUrl, type)).catch((error) => {
+    console.error('Failed to add a URL filter for this site:', error)
+  })
+})
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === TEMPLATE_REFRESH_ALARM || alarm.name === SCHEDULE_ALARM) {
+    queueUpdateRules()
+  }
+  if (alarm.name === SUBSCRIPTION_ALARM) {
+    queueRefreshSubscriptions()
+  }
+})
+
+// Session storage keeps the request log across service worker restarts, but not browser restarts
+function queuePersistRequestLog(): void {
+  if (requestLogPersistTimer) return
+
+  requestLogPersistTimer = setTimeout(() => {
+    requestLogPersistTimer = null
+    chrome.storage.session.set({ [REQUEST_LOG_KEY]: requestLog }).catch((error) => {
+      console.warn('Failed to save request log:', error)
+    })
+  }, REQUEST_LOG_PERSIST_DELAY_MS)
+}
+
+if (CAN_LOG_EVERY_MATCH) {
+  chrome.declarativeNetRequest.onRuleMatchedDebug.addListener(({ request, rule }) => {
+    if (rule.rulesetId !== chrome.declarativeNetRequest.SESSION_RULESET_ID) return
+
+    const entry = createRequestLogEntry(
+      {
+        ruleId: rule.ruleId,
+        tabId: request.tabId,
+        timeStamp: Date.now(),
+        requestId: request.requestId,
+        url: request.url,
+        method: request.method,
+        resourceType: request.type,
+      },
+      getRulesAt(ruleGenerations, Date.now()),
+      tabUrls.get(request.tabId) ?? null
+    )
+    requestLog = prependRequestLogEntries(requestLog, [entry])
+    queuePersistRequestLog()
+  })
+}
+
+async function getRequestLog(): Promise<RequestLog> {
+  if (CAN_LOG_EVERY_MATCH) {
+    return { source: 'debug', entries: requestLog }
+  }
+
+  // Outside development installs Chrome only reports which rule matched in which tab and when
+  const { rulesMatchedInfo } = await chrome.declarativeNetRequest.getMatchedRules({ minTimeStamp: requestLogClearedAt })
+  const entries = rulesMatchedInfo
+    .filter(info => info.rule.rulesetId === chrome.declarativeNetRequest.SESSION_RULESET_ID)
+    .sort((a, b) => b.timeStamp - a.timeStamp)
+    .map(info => createRequestLogEntry(
+      { ruleId: info.rule.ruleId, tabId: info.tabId, timeStamp: info.timeStamp },
+      // Rule IDs are reused by later builds, so each match is described with the rules of its time
+      getRulesAt(ruleGenerations, info.timeStamp),
+      tabUrls.get(info.tabId) ?? null
+    ))
+  return { source: 'matched_rules', entries: entries.slice(0, REQUEST_LOG_LIMIT) }
+}
+
+async function clearRequestLog(): Promise<void> {
+  requestLog = []
+  requestLogClearedAt = Date.now()
+  await chrome.storage.session.set({ [REQUEST_LOG_KEY]: [], [REQUEST_LOG_CLEARED_AT_KEY]: requestLogClearedAt })
+}
+
+async function loadRequestLog(): Promise<void> {
+  const result = await chrome.storage.session.get([REQUEST_LOG_KEY, REQUEST_LOG_CLEARED_AT_KEY])
+  const stored = (result[REQUEST_LOG_KEY] as RequestLogEntry[] | undefined) ?? []
+  // Matches logged while the stored log was loading are newer
+  requestLog = prependRequestLogEntries(stored, requestLog)
+  requestLogClearedAt = Math.max(requestLogClearedAt, (result[REQUEST_LOG_CLEARED_AT_KEY] as number | undefined) ?? 0)
+}
+
 // Initialize on startup
 async function initialize(): Promise<void> {
   const result = await chrome.storage.local.get(STORAGE_KEY)
   latestState = result[STORAGE_KEY] as AppState | null
 
+  try {
+    await loadRequestLog()
+  } catch (error) {
+    console.warn('Failed to load request log:', error)
+  }
+
   // Prime tab URL cache
   try {
     const tabs = await chrome.tabs.query({})
@@ -471,6 +959,15 @@ async function initialize(): Promise<void> {
   }
 
   queueUpdateRules()
+  // Picks up what other devices synced while this browser was closed
+  queueSync()
+
+  try {
+    await syncSubscriptionAlarm()
+    await refreshStaleSubscriptions()
+  } catch (error) {
+    console.warn('Failed to refresh subscriptions on startup:', error)
+  }
 }
 
 initialize().catch((error) => console.error('Failed to initialize background script:', error))
@@ -488,4 +985,23 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     })
     return true // Keep channel open for async response
   }
+
+  if (message.type === 'GET_REQUEST_LOG') {
+    getRequestLog().then(sendResponse).catch((error) => {
+      sendResponse({ error: String(error) })
+    })
+    return true
+  }
+
+  if (message.type === 'REFRESH_SUBSCRIPTIONS') {
+    queueRefreshSubscriptions().then(() => sendResponse({ ok: true }))
+    return true
+  }
+
+  if (message.type === 'CLEAR_REQUEST_LOG') {
+    clearRequestLog().then(() => sendResponse({ ok: true })).catch((error) => {
+      sendResponse({ error: String(error) })
+    })
+    return true
+  }
 })
@@ -0,0 +1,343 @@
+import type { HeaderOperation, HeaderRule, HeaderType, AppState, Profile, RequestLogHeader, RequestLogRule, TemplateVariable } from '../types'
+import { RESOURCE_TYPES } from '../types'
+import { getActiveUrlFilters, isHeaderEnabledForUrl, isProfileEnabledForTabUrl } from '../lib/urlFilters'
+import { getEnabledProfiles } from '../lib/profiles'
+import { hasDynamicTemplate, type TemplateContext } from '../lib/templates'
+import { getEnabledHeaders, resolveHeaderValues } from '../lib/headers'
+import { getNextScheduleChange, getScheduleRemainingMs } from '../lib/schedule'
+import {
+  buildRequestConditions,
+  combineRequestConditions,
+  hasActiveFilters,
+  type RequestConditionPart,
+} from './conditions'
+
+type Rule = chrome.declarativeNetRequest.Rule
+type ModifyHeaderInfo = chrome.declarativeNetRequest.ModifyHeaderInfo
+type RuleCondition = chrome.declarativeNetRequest.RuleCondition
+
+interface RuleAction {
+  type: 'modifyHeaders'
+  requestHeaders?: ModifyHeaderInfo[]
+  responseHeaders?: ModifyHeaderInfo[]
+}
+
+export function headerOperationToChrome(operation: HeaderRule['operation']): ModifyHeaderInfo['operation'] {
+  switch (operation) {
+    case 'set':
+      return 'set'
+    case 'remove':
+      return 'remove'
+    case 'append':
+      return 'append'
+    default:
+      return 'set'
+  }
+}
+
+export function isHttpUrl(url: string): boolean {
+  return url.startsWith('http://') || url.startsWith('https://')
+}
+
+/**
+ * Creates a sequential session rule ID allocator.
+ * All session rules are replaced on every update, so IDs only need to be unique within one build.
+ */
+export function createRuleIdAllocator(firstId = 1): () => number {
+  let nextId = firstId
+  return () => nextId++
+}
+
+/**
+ * Computes which known tabs a profile applies to, based on their top-level URL
+ */
+export function computeEnabledTabIds(profile: Profile, tabUrls: Map<number, string>): number[] {
+  const enabled: number[] = []
+
+  for (const [tabId, url] of tabUrls.entries()) {
+    if (!isHttpUrl(url)) continue
+    if (isProfileEnabledForTabUrl(profile, url)) {
+      enabled.push(tabId)
+    }
+  }
+
+  return enabled
+}
+
+/**
+ * Returns the enabled headers of a profile that apply to a URL, honoring per-header scopes
+ */
+export function getEnabledHeadersForUrl(profile: Profile, url: string): HeaderRule[] {
+  if (!isProfileEnabledForTabUrl(profile, url)) return []
+  return getEnabledHeaders(profile).filter(h => isHeaderEnabledForUrl(h, url))
+}
+
+/**
+ * Returns a stable key for a header's URL scope so headers sharing a scope share a rule
+ */
+export function getHeaderScopeKey(header: HeaderRule): string {
+  const filters = getActiveUrlFilters(header.urlFilters)
+  if (filters.length === 0) return ''
+  return JSON.stringify(
+    filters.map(f => [f.target ?? 'tab', f.type, f.matchType ?? 'dnr_url_filter', f.pattern.trim()])
+  )
+}
+
+/**
+ * Groups headers by URL scope, keeping the first-seen order of scopes
+ */
+export function groupHeadersByScope(headers: HeaderRule[]): HeaderRule[][] {
+  const groups = new Map<string, HeaderRule[]>()
+  for (const header of headers) {
+    const key = getHeaderScopeKey(header)
+    const group = groups.get(key)
+    if (group) {
+      group.push(header)
+    } else {
+      groups.set(key, [header])
+    }
+  }
+  return [...groups.values()]
+}
+
+/**
+ * Builds the rule condition for one request-URL condition part
+ * @param part - Request URL constraints translated from request-target filters
+ * @param excludedRequestDomains - Domains excluded by request-target filters
+ * @param tabIds - The tab IDs to limit the rule to, or undefined for requests from any tab
+ * @param requestTypes - The profile's resource type and method selection (empty means all)
+ */
+export function buildRuleCondition(
+  part: RequestConditionPart,
+  excludedRequestDomains: string[],
+  tabIds: number[] | undefined,
+  requestTypes: Pick<Profile, 'resourceTypes' | 'requestMethods'> = {}
+): RuleCondition {
+  const condition: RuleCondition = {}
+
+  if (part.regexFilter) {
+    condition.regexFilter = part.regexFilter
+  } else {
+    condition.urlFilter = part.urlFilter ?? '*'
+  }
+  if (part.requestDomains) condition.requestDomains = part.requestDomains
+  if (excludedRequestDomains.length > 0) condition.excludedRequestDomains = excludedRequestDomains
+  if (tabIds) condition.tabIds = tabIds
+  condition.resourceTypes = requestTypes.resourceTypes?.length
+    ? [...requestTypes.resourceTypes]
+    : [...RESOURCE_TYPES]
+  if (requestTypes.requestMethods?.length) condition.requestMethods = [...requestTypes.requestMethods]
+
+  return condition
+}
+
+/**
+ * Builds a single modifyHeaders session rule for a set of headers
+ * @param headers - Enabled headers to apply
+ * @param condition - Where the headers should apply
+ * @param ruleId - The session rule ID to assign
+ * @param priority - Rule priority; higher wins when rules modify the same header
+ * @returns A Chrome extension rule to apply headers, or null if none should apply
+ */
+export function buildModifyHeadersRule(
+  headers: HeaderRule[],
+  condition: RuleCondition,
+  ruleId: number,
+  priority = 1
+): Rule | null {
+  if (condition.tabIds && condition.tabIds.length === 0) return null
+
+  const requestHeaders: ModifyHeaderInfo[] = []
+  const responseHeaders: ModifyHeaderInfo[] = []
+
+  for (const header of headers) {
+    const headerInfo: ModifyHeaderInfo = {
+      header: header.name,
+      operation: headerOperationToChrome(header.operation),
+      ...(header.operation !== 'remove' ? { value: header.value } : {}),
+    }
+
+    if (header.type === 'request') {
+      requestHeaders.push(headerInfo)
+    } else {
+      responseHeaders.push(headerInfo)
+    }
+  }
+
+  if (requestHeaders.length === 0 && responseHeaders.length === 0) return null
+
+  const action: RuleAction = { type: 'modifyHeaders' }
+  if (requestHeaders.length > 0) action.requestHeaders = requestHeaders
+  if (responseHeaders.length > 0) action.responseHeaders = responseHeaders
+
+  return {
+    id: ruleId,
+    priority,
+    action,
+    condition,
+  }
+}
+
+export interface ProfileRuleOptions {
+  /** Known tab URLs keyed by tab ID */
+  tabUrls: Map<number, string>
+  /** Allocator for session rule IDs */
+  nextRuleId: () => number
+  /** Rule priority; higher wins when profiles modify the same header */
+  priority?: number
+  /** Collects filters and values that could not be turned into rules */
+  warnings?: string[]
+  /** User-defined template variables */
+  variables?: TemplateVariable[]
+  /** Time used for `{{timestamp}}` placeholders */
+  now?: number
+  /** Collects the profile ID behind each rule ID */
+  ruleProfileIds?: Map<number, string>
+}
+
+/**
+ * Builds the Chrome declarativeNetRequest session rules for a profile.
+ * Headers without their own URL filters share one rule; every distinct header scope gets its own.
+ * Tab URL filters limit rules with `tabIds`; request URL filters become DNR URL conditions.
+ * When only request URL filters are set, the rules apply to requests from any tab.
+ * Resource type and method selections on the profile narrow every rule.
+ * Template placeholders in header values are resolved at build time.
+ */
+export function buildSessionRulesFromProfile(profile: Profile, options: ProfileRuleOptions): Rule[] {
+  const { tabUrls, nextRuleId, priority = 1, warnings = [] } = options
+  const templateContext: TemplateContext = { profile, variables: options.variables, now: options.now }
+
+  const enabledHeaders = resolveHeaderValues(getEnabledHeaders(profile, warnings), templateContext, warnings)
+  if (enabledHeaders.length === 0) return []
+
+  const profileTabIds = computeEnabledTabIds(profile, tabUrls)
+  const profileRequestConditions = buildRequestConditions(profile.urlFilters)
+  warnings.push(...profileRequestConditions.warnings)
+
+  const rules: Rule[] = []
+  for (const headers of groupHeadersByScope(enabledHeaders)) {
+    const scopeFilters = headers[0]?.urlFilters
+    const scopeRequestConditions = buildRequestConditions(scopeFilters)
+    const requestConditions = combineRequestConditions(
+      { ...profileRequestConditions, warnings: [] },
+      scopeRequestConditions
+    )
+    warnings.push(...requestConditions.warnings)
+
+    const hasTabFilters = hasActiveFilters(profile.urlFilters, 'tab') || hasActiveFilters(scopeFilters, 'tab')
+    const hasRequestFilters = hasActiveFilters(profile.urlFilters, 'request') || hasActiveFilters(scopeFilters, 'request')
+
+    let tabIds: number[] | undefined
+    if (hasTabFilters || !hasRequestFilters) {
+      tabIds = profileTabIds.filter(tabId => isHeaderEnabledForUrl({ urlFilters: scopeFilters }, tabUrls.get(tabId) ?? ''))
+      if (tabIds.length === 0) continue
+    }
+
+    for (const part of requestConditions.includes) {
+      const condition = buildRuleCondition(part, requestConditions.excludedRequestDomains, tabIds, profile)
+      const rule = buildModifyHeadersRule(headers, condition, nextRuleId(), priority)
+      if (!rule) continue
+      rules.push(rule)
+      options.ruleProfileIds?.set(rule.id, profile.id)
+    }
+  }
+
+  return rules
+}
+
+/**
+ * Builds the session rules for every enabled profile whose schedule lets it apply at `now`.
+ * Profiles higher up in the sidebar get a higher priority, so they win when two
+ * profiles set the same header on the same request.
+ */
+export function buildSessionRules(
+  state: AppState | null,
+  tabUrls: Map<number, string>,
+  warnings: string[] = [],
+  now = Date.now(),
+  ruleProfileIds?: Map<number, string>
+): Rule[] {
+  // Paused removes every rule without touching which profiles are enabled
+  if (!state || state.paused) return []
+
+  const profiles = getEnabledProfiles(state, now)
+  const nextRuleId = createRuleIdAllocator()
+
+  return profiles.flatMap((profile, index) =>
+    buildSessionRulesFromProfile(profile, {
+      tabUrls,
+      nextRuleId,
+      priority: profiles.length - index,
+      warnings,
+      variables: state.variables,
+      now,
+      ruleProfileIds,
+    })
+  )
+}
+
+/**
+ * Describes the profile and header changes behind each rule, so the request log can
+ * explain matches that Chrome only reports by rule ID
+ */
+export function summarizeSessionRules(
+  state: AppState | null,
+  rules: Rule[],
+  ruleProfileIds: Map<number, string>
+): Record<number, RequestLogRule> {
+  const summaries: Record<number, RequestLogRule> = {}
+
+  for (const rule of rules) {
+    const profile = state?.profiles.find(p => p.id === ruleProfileIds.get(rule.id))
+    if (!profile) continue
+
+    const toLogHeader = (type: HeaderType) => (info: ModifyHeaderInfo): RequestLogHeader => ({
+      name: info.header,
+      operation: info.operation as HeaderOperation,
+      type,
+    })
+    summaries[rule.id] = {
+      profileId: profile.id,
+      profileName: profile.name,
+      headers: [
+        ...(rule.action.requestHeaders ?? []).map(toLogHeader('request')),
+        ...(rule.action.responseHeaders ?? []).map(toLogHeader('response')),
+      ],
+    }
+  }
+
+  return summaries
+}
+
+/**
+ * Whether any enabled header uses a time-based placeholder, so rules need periodic rebuilding
+ */
+export function hasDynamicHeaderValues(state: AppState | null, now = Date.now()): boolean {
+  if (!state || state.paused) return false
+  return getEnabledProfiles(state, now).some(profile =>
+    getEnabledHeaders(profile).some(header => header.operation !== 'remove' && hasDynamicTemplate(header.value))
+  )
+}
+
+/**
+ * When the schedule of an enabled profile next turns it on or off, so rules can be rebuilt then.
+ * Returns null when no schedule changes anything.
+ */
+export function getNextScheduleRebuild(state: AppState | null, now = Date.now()): number | null {
+  if (!state) return null
+  const changes = getEnabledProfiles(state)
+    .map(profile => getNextScheduleChange(profile, now))
+    .filter((time): time is number => time !== null)
+  return changes.length > 0 ? Math.min(...changes) : null
+}
+
+/**
+ * The shortest time any applied profile has left before its schedule turns it off, or null when none ends
+ */
+export function getShortestScheduleRemainingMs(state: AppState | null, now = Date.now()): number | null {
+  if (!state || state.paused) return null
+  const remaining = getEnabledProfiles(state, now)
+    .map(profile => getScheduleRemainingMs(profile, now))
+    .filter((ms): ms is number => ms !== null)
+  return remaining.length > 0 ? Math.min(...remaining) : null
+}
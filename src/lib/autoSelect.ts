@@ -0,0 +1,56 @@
+import type { AppState, AutoProfileSelection, Profile } from '@/types'
+import { getEnabledProfiles } from './profiles'
+import { isProfileInSchedule } from './schedule'
+import { getActiveUrlFilters, getUrlFiltersForTarget, isProfileEnabledForTabUrl } from './urlFilters'
+
+/** Where the background script keeps the auto-selected profile (`chrome.storage.session`) */
+export const AUTO_PROFILE_KEY = 'openheaders_auto_profile'
+
+/**
+ * Whether a profile names the sites it is for. Profiles without a tab include filter
+ * apply everywhere, so they never decide between staging and prod.
+ */
+function hasTabIncludeFilter(profile: Profile): boolean {
+  return getActiveUrlFilters(getUrlFiltersForTarget(profile.urlFilters, 'tab')).some(f => f.type === 'include')
+}
+
+/**
+ * Picks the profile for a tab URL among the profiles with a tab include filter that
+ * matches and a schedule that lets them apply. An applied profile wins over one that is
+ * off, so people who run several profiles keep theirs; otherwise the first in sidebar
+ * order (also rule priority) wins. Returns null when none matches.
+ */
+export function pickAutoProfile(
+  state: Pick<AppState, 'profiles' | 'activeProfileId'>,
+  url: string | null | undefined,
+  now = Date.now()
+): Profile | null {
+  if (!url || !(url.startsWith('http://') || url.startsWith('https://'))) return null
+  const matching = state.profiles.filter(profile =>
+    isProfileInSchedule(profile, now) && hasTabIncludeFilter(profile) && isProfileEnabledForTabUrl(profile, url)
+  )
+  const appliedIds = new Set(getEnabledProfiles(state, now).map(p => p.id))
+  return matching.find(profile => appliedIds.has(profile.id)) ?? matching[0] ?? null
+}
+
+/**
+ * Reads the profile the background script picked and calls `callback` now and whenever it changes.
+ * Returns a function that stops watching. Does nothing outside the extension.
+ */
+export function watchAutoProfileSelection(callback: (selection: AutoProfileSelection | null) => void): () => void {
+  if (typeof chrome === 'undefined' || !chrome.storage?.session) return () => {}
+
+  chrome.storage.session.get(AUTO_PROFILE_KEY).then(result => {
+    callback((result[AUTO_PROFILE_KEY] as AutoProfileSelection | undefined) ?? null)
+  }).catch(error => {
+    console.error('Failed to load the auto-selected profile:', error)
+  })
+
+  const listener = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName === 'session' && changes[AUTO_PROFILE_KEY]) {
+      callback((changes[AUTO_PROFILE_KEY].newValue as AutoProfileSelection | undefined) ?? null)
+    }
+  }
+  chrome.storage.onChanged.addListener(listener)
+  return () => chrome.storage.onChanged.removeListener(listener)
+}
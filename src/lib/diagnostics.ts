@@ -0,0 +1,216 @@
+import type { AppState, HeaderRule, Profile, UrlFilter } from '@/types'
+import { getEnabledProfiles } from './profiles'
+import { getScheduleState } from './schedule'
+import { hasTemplate, resolveTemplate } from './templates'
+import { getUrlFilterTarget, matchesUrlFilter } from './urlFilters'
+import { validateHeader, validateHeaderValue } from './validation'
+
+type Rule = chrome.declarativeNetRequest.Rule
+
+/**
+ * How a filter evaluated against the tab URL. Request URL filters are only
+ * checked by Chrome for each request, so they cannot be evaluated here.
+ */
+export type UrlFilterCheck = 'matched' | 'not_matched' | 'disabled' | 'request_url'
+
+export interface UrlFilterDiagnosis {
+  filter: UrlFilter
+  check: UrlFilterCheck
+}
+
+/** Why a header is left out of the rules; mirrors `getEnabledHeaders` and `resolveHeaderValues` */
+export type HeaderSkipReason =
+  | 'disabled'
+  | 'empty_name'
+  | 'empty_value'
+  | 'empty_resolved_value'
+  | 'invalid'
+  | 'scope_excluded'
+  | 'scope_not_included'
+
+export interface HeaderDiagnosis {
+  header: HeaderRule
+  /** null when the header applies to the tab */
+  skipReason: HeaderSkipReason | null
+  /** The header's own URL filters */
+  scope: UrlFilterDiagnosis[]
+}
+
+export type ProfileStatus =
+  | 'paused'
+  | 'disabled'
+  | 'expired'
+  | 'outside_windows'
+  | 'excluded'
+  | 'not_included'
+  | 'no_headers'
+  | 'applied'
+
+export interface ProfileDiagnosis {
+  profile: Profile
+  status: ProfileStatus
+  filters: UrlFilterDiagnosis[]
+  headers: HeaderDiagnosis[]
+  appliedHeaderCount: number
+}
+
+export interface TabDiagnosis {
+  url: string | null
+  /** Rules are only built for http(s) tabs */
+  isHttp: boolean
+  /** While paused no profile applies, whatever its own settings */
+  paused: boolean
+  profiles: ProfileDiagnosis[]
+}
+
+export interface ActiveRules {
+  sessionRules: Rule[]
+  dynamicRules: Rule[]
+}
+
+/**
+ * Evaluates each filter against a tab URL
+ */
+export function diagnoseUrlFilters(filters: UrlFilter[] | undefined, url: string): UrlFilterDiagnosis[] {
+  return (filters ?? []).map(filter => {
+    if (getUrlFilterTarget(filter) === 'request') return { filter, check: 'request_url' }
+    if (!filter.enabled) return { filter, check: 'disabled' }
+    return { filter, check: matchesUrlFilter(url, filter) ? 'matched' : 'not_matched' }
+  })
+}
+
+/**
+ * Explains the outcome of a filter list, with the same precedence as `matchesUrlFilters`:
+ * any matching exclude wins, then at least one include has to match
+ */
+function getFilterListOutcome(diagnoses: UrlFilterDiagnosis[]): 'excluded' | 'not_included' | null {
+  if (diagnoses.some(d => d.filter.type === 'exclude' && d.check === 'matched')) return 'excluded'
+
+  const includes = diagnoses.filter(d =>
+    d.filter.type === 'include' && (d.check === 'matched' || d.check === 'not_matched')
+  )
+  if (includes.length > 0 && !includes.some(d => d.check === 'matched')) return 'not_included'
+  return null
+}
+
+function getHeaderSkipReason(
+  header: HeaderRule,
+  scope: UrlFilterDiagnosis[],
+  profile: Profile,
+  variables: AppState['variables']
+): HeaderSkipReason | null {
+  if (!header.enabled) return 'disabled'
+  if (!header.name.trim()) return 'empty_name'
+  if (header.operation !== 'remove') {
+    // Chrome rejects the whole rule for a set/append without a value
+    if (!header.value?.trim()) return 'empty_value'
+    if (hasTemplate(header.value)) {
+      const value = resolveTemplate(header.value, { profile, variables })
+      if (!value.trim()) return 'empty_resolved_value'
+      if (validateHeaderValue({ ...header, value })) return 'invalid'
+    }
+  }
+  if (validateHeader(header)) return 'invalid'
+
+  const outcome = getFilterListOutcome(scope)
+  if (outcome === 'excluded') return 'scope_excluded'
+  if (outcome === 'not_included') return 'scope_not_included'
+  return null
+}
+
+/**
+ * Explains whether a profile applies to a tab URL, and which of its headers are sent
+ */
+export function diagnoseProfile(
+  profile: Profile,
+  url: string,
+  options: { enabled: boolean, paused?: boolean, variables?: AppState['variables'], now?: number }
+): ProfileDiagnosis {
+  const filters = diagnoseUrlFilters(profile.urlFilters, url)
+  const headers = profile.headers.map(header => {
+    const scope = diagnoseUrlFilters(header.urlFilters, url)
+    return { header, scope, skipReason: getHeaderSkipReason(header, scope, profile, options.variables) }
+  })
+  const appliedHeaderCount = headers.filter(h => h.skipReason === null).length
+
+  const scheduleState = getScheduleState(profile, options.now)
+  let status: ProfileStatus
+  if (options.paused) {
+    status = 'paused'
+  } else if (!options.enabled) {
+    status = 'disabled'
+  } else if (scheduleState === 'expired' || scheduleState === 'outside_windows') {
+    status = scheduleState
+  } else {
+    status = getFilterListOutcome(filters) ?? (appliedHeaderCount === 0 ? 'no_headers' : 'applied')
+  }
+
+  return { profile, status, filters, headers, appliedHeaderCount }
+}
+
+/**
+ * Explains which profiles apply to a tab URL and why the others do not.
+ * Profiles are listed in sidebar order; nothing applies to non-http(s) tabs.
+ */
+export function diagnoseTab(
+  state: Pick<AppState, 'profiles' | 'activeProfileId' | 'variables' | 'paused'>,
+  url: string | null,
+  now = Date.now()
+): TabDiagnosis {
+  const paused = !!state.paused
+  const isHttp = !!url && (url.startsWith('http://') || url.startsWith('https://'))
+  if (!url || !isHttp) return { url, isHttp, paused, profiles: [] }
+
+  const enabledIds = new Set(getEnabledProfiles(state).map(p => p.id))
+  return {
+    url,
+    isHttp,
+    paused,
+    profiles: state.profiles.map(profile =>
+      diagnoseProfile(profile, url, { enabled: enabledIds.has(profile.id), paused, variables: state.variables, now })
+    ),
+  }
+}
+
+/**
+ * Returns the rules that can match requests from a tab: rules without a tab condition, or listing the tab
+ */
+export function getRulesForTab(rules: Rule[], tabId: number | null): Rule[] {
+  return rules.filter(rule => !rule.condition.tabIds || (tabId !== null && rule.condition.tabIds.includes(tabId)))
+}
+
+/**
+ * Returns the active tab of the current window. Returns null outside the extension.
+ */
+export async function getCurrentTab(): Promise<{ id: number | null, url: string | null } | null> {
+  if (typeof chrome === 'undefined' || !chrome.tabs?.query) return null
+
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (!tab) return null
+    return { id: tab.id ?? null, url: tab.url ?? null }
+  } catch (error) {
+    console.error('Failed to read the current tab:', error)
+    return null
+  }
+}
+
+/**
+ * Asks the background script for the rules Chrome currently has.
+ * Returns null outside the extension or when the rules could not be read.
+ */
+export async function fetchActiveRules(): Promise<ActiveRules | null> {
+  if (typeof chrome === 'undefined' || !chrome.runtime?.sendMessage) return null
+
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'GET_ACTIVE_RULES' })
+    if (!response || response.error) {
+      console.error('Failed to load active rules:', response?.error)
+      return null
+    }
+    return response as ActiveRules
+  } catch (error) {
+    console.error('Failed to load active rules:', error)
+    return null
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Passphrase-encrypted exports.
+ *
+ * The plaintext export JSON is encrypted with AES-GCM using a key derived from the
+ * passphrase with PBKDF2, and wrapped in a versioned envelope that records everything
+ * needed to decrypt it except the passphrase.
+ */
+
+export const ENCRYPTED_EXPORT_FORMAT = 'openheaders-encrypted'
+export const ENCRYPTED_EXPORT_VERSION = 1
+
+/** OWASP's recommendation for PBKDF2-HMAC-SHA256 */
+export const DEFAULT_PBKDF2_ITERATIONS = 600_000
+// Refuse envelopes that would make key derivation hang the popup
+const MAX_PBKDF2_ITERATIONS = 10_000_000
+
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+export interface EncryptedExport {
+  format: typeof ENCRYPTED_EXPORT_FORMAT
+  version: number
+  kdf: {
+    name: 'PBKDF2'
+    hash: 'SHA-256'
+    iterations: number
+    /** Base64 */
+    salt: string
+  }
+  cipher: {
+    name: 'AES-GCM'
+    /** Base64 */
+    iv: string
+  }
+  /** Base64 ciphertext, including the GCM tag */
+  data: string
+}
+
+export interface EncryptOptions {
+  iterations?: number
+}
+
+/**
+ * Detects the encrypted export envelope (of any version)
+ */
+export function isEncryptedExport(data: unknown): data is EncryptedExport {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as EncryptedExport).format === ENCRYPTED_EXPORT_FORMAT
+  )
+}
+
+/**
+ * Detects the encrypted export envelope in a JSON string without throwing on invalid JSON
+ */
+export function isEncryptedExportJson(json: string): boolean {
+  try {
+    return isEncryptedExport(JSON.parse(json))
+  } catch {
+    return false
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary)
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length))
+}
+
+/** Binds the ciphertext to the envelope format, so it cannot be replayed under another version */
+function getAdditionalData(version: number): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${ENCRYPTED_EXPORT_FORMAT}:${version}`)
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Encrypts an export JSON string and returns the envelope as a JSON string
+ */
+export async function encryptExport(plaintext: string, passphrase: string, options: EncryptOptions = {}): Promise<string> {
+  if (!passphrase) throw new Error('A passphrase is required')
+
+  const iterations = options.iterations ?? DEFAULT_PBKDF2_ITERATIONS
+  const salt = randomBytes(SALT_BYTES)
+  const iv = randomBytes(IV_BYTES)
+  const key = await deriveKey(passphrase, salt, iterations)
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: getAdditionalData(ENCRYPTED_EXPORT_VERSION) },
+    key,
+    new TextEncoder().encode(plaintext)
+  )
+
+  const envelope: EncryptedExport = {
+    format: ENCRYPTED_EXPORT_FORMAT,
+    version: ENCRYPTED_EXPORT_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  }
+  return JSON.stringify(envelope, null, 2)
+}
+
+/**
+ * Decrypts an encrypted export envelope back to the plaintext export JSON.
+ * Throws when the envelope is unsupported or the passphrase is wrong.
+ */
+export async function decryptExport(envelope: EncryptedExport | string, passphrase: string): Promise<string> {
+  const data: unknown = typeof envelope === 'string' ? JSON.parse(envelope) : envelope
+  if (!isEncryptedExport(data)) throw new Error('Not an encrypted export')
+  if (data.version !== ENCRYPTED_EXPORT_VERSION) {
+    throw new Error(`Unsupported encrypted export version ${data.version}`)
+  }
+  if (
+    data.kdf?.name !== 'PBKDF2' ||
+    data.kdf.hash !== 'SHA-256' ||
+    data.cipher?.name !== 'AES-GCM' ||
+    typeof data.data !== 'string'
+  ) {
+    throw new Error('Unsupported encryption parameters')
+  }
+
+  const iterations = data.kdf.iterations
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error('Invalid key derivation parameters')
+  }
+
+  const key = await deriveKey(passphrase, fromBase64(data.kdf.salt), iterations)
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(data.cipher.iv), additionalData: getAdditionalData(data.version) },
+      key,
+      fromBase64(data.data)
+    )
+    return new TextDecoder().decode(plaintext)
+  } catch {
+    // AES-GCM cannot tell a wrong passphrase from a modified file
+    throw new Error('Wrong passphrase or damaged file')
+  }
+}
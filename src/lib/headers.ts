@@ -0,0 +1,52 @@
+import type { HeaderRule, Profile } from '@/types'
+import { hasTemplate, resolveTemplate, type TemplateContext } from '@/lib/templates'
+import { validateHeader, validateHeaderValue } from '@/lib/validation'
+
+/**
+ * Returns the headers of a profile that can go into a rule.
+ * Skipped headers that would make Chrome reject the rule are reported in `warnings`.
+ */
+export function getEnabledHeaders(profile: Profile, warnings?: string[]): HeaderRule[] {
+  return profile.headers.filter(h => {
+    if (!h.enabled || !h.name.trim()) return false
+    // Chrome requires a value for set/append — omitting it silently rejects the entire rule
+    if (h.operation !== 'remove' && !h.value?.trim()) return false
+    // Anything else Chrome rejects would also take the rest of the rule down with it
+    const error = validateHeader(h)
+    if (error) {
+      warnings?.push(`Header "${h.name}" is invalid (${error}) and is skipped`)
+      return false
+    }
+    return true
+  })
+}
+
+/**
+ * Resolves template placeholders in header values. Headers whose value resolves to
+ * an empty string are dropped, since Chrome rejects the whole rule for them.
+ */
+export function resolveHeaderValues(
+  headers: HeaderRule[],
+  context: TemplateContext,
+  warnings: string[] = []
+): HeaderRule[] {
+  const resolved: HeaderRule[] = []
+  for (const header of headers) {
+    if (header.operation === 'remove' || !hasTemplate(header.value)) {
+      resolved.push(header)
+      continue
+    }
+
+    const value = resolveTemplate(header.value, context)
+    if (!value.trim()) {
+      warnings.push(`Header "${header.name}" resolves to an empty value and is skipped`)
+      continue
+    }
+    if (validateHeaderValue({ ...header, value })) {
+      warnings.push(`Header "${header.name}" resolves to an invalid value and is skipped`)
+      continue
+    }
+    resolved.push({ ...header, value })
+  }
+  return resolved
+}
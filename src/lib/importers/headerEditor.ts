@@ -0,0 +1,122 @@
+import type { HeaderRule, Profile, UrlFilter } from '@/types'
+import { createImportedHeader, createImportedProfile, createImportedUrlFilter, parseRegexLiteral } from './shared'
+
+// Header Editor export types (only the parts used by the converter)
+export type HeaderEditorMatchType = 'all' | 'regexp' | 'prefix' | 'domain' | 'url'
+
+export interface HeaderEditorRule {
+  enable?: boolean
+  name?: string
+  ruleType: string
+  matchType: HeaderEditorMatchType
+  pattern?: string
+  /** Regex of URLs the rule does not apply to */
+  exclude?: string
+  /** Rules implemented as custom JavaScript */
+  isFunction?: boolean
+  group?: string
+  action?: { name?: string, value?: string } | string
+}
+
+export interface HeaderEditorExport {
+  request?: HeaderEditorRule[]
+  sendHeader?: HeaderEditorRule[]
+  receiveHeader?: HeaderEditorRule[]
+  receiveBody?: HeaderEditorRule[]
+}
+
+const HEADER_EDITOR_KEYS = ['request', 'sendHeader', 'receiveHeader', 'receiveBody'] as const
+
+/**
+ * Detects a Header Editor export: an object with rule lists keyed by what they modify
+ */
+export function isHeaderEditorFormat(data: unknown): data is HeaderEditorExport {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return false
+  if ('profiles' in data) return false
+  const lists = HEADER_EDITOR_KEYS.map(key => (data as Record<string, unknown>)[key])
+  return lists.some(list => Array.isArray(list)) && lists.every(list => list === undefined || Array.isArray(list))
+}
+
+/**
+ * Maps a Header Editor URL condition onto a URL filter. Returns null for rules that match every URL.
+ */
+export function convertHeaderEditorMatch(matchType: HeaderEditorMatchType, rawPattern: string | undefined): UrlFilter | null {
+  const pattern = rawPattern?.trim() ?? ''
+  if (matchType === 'all' || !pattern) return null
+
+  switch (matchType) {
+    case 'regexp':
+      return createImportedUrlFilter('regex', parseRegexLiteral(pattern))
+    case 'prefix':
+      return createImportedUrlFilter('url_starts_with', pattern)
+    case 'domain':
+      return createImportedUrlFilter('host_equals', pattern)
+    case 'url':
+    default:
+      // Globs without wildcards match the exact URL
+      return createImportedUrlFilter('dnr_url_filter', pattern)
+  }
+}
+
+function convertRule(rule: HeaderEditorRule, warnings: string[]): HeaderRule | null {
+  const label = rule.name || rule.pattern || ''
+
+  if (rule.ruleType !== 'modifySendHeader' && rule.ruleType !== 'modifyReceiveHeader') {
+    warnings.push(`Skipped Header Editor ${rule.ruleType} rule "${label}": only header rules can be imported`)
+    return null
+  }
+  if (rule.isFunction || typeof rule.action !== 'object' || rule.action === null) {
+    warnings.push(`Skipped Header Editor rule "${label}": custom functions cannot be imported`)
+    return null
+  }
+
+  const name = rule.action.name?.trim()
+  if (!name) return null
+
+  // Chrome can only exclude requests by domain, so without the exclude the header would reach the excluded URLs
+  if (rule.exclude?.trim()) {
+    warnings.push(`Skipped Header Editor rule "${label}": Chrome cannot exclude request URLs by regex ("${rule.exclude.trim()}")`)
+    return null
+  }
+
+  const urlFilters: UrlFilter[] = []
+  const include = convertHeaderEditorMatch(rule.matchType, rule.pattern)
+  if (include) urlFilters.push(include)
+
+  // Header Editor removes a header when its new value is empty
+  const value = rule.action.value ?? ''
+  return createImportedHeader(name, value, rule.ruleType === 'modifySendHeader' ? 'request' : 'response', {
+    enabled: rule.enable !== false,
+    comment: rule.name ?? '',
+    operation: value === '' ? 'remove' : 'set',
+    ...(urlFilters.length > 0 ? { urlFilters } : {}),
+  })
+}
+
+/**
+ * Converts a Header Editor export to profiles, one profile per rule group.
+ * Each rule becomes a header scoped to the rule's URL condition.
+ * Redirect, cancel, body and custom function rules, and rules with an exclude regex, are skipped with a warning.
+ */
+export function convertHeaderEditorExport(
+  data: HeaderEditorExport,
+  startingColorIndex = 0,
+  warnings: string[] = []
+): Profile[] {
+  const groups = new Map<string, HeaderRule[]>()
+
+  for (const key of HEADER_EDITOR_KEYS) {
+    for (const rule of data[key] ?? []) {
+      if (typeof rule !== 'object' || rule === null) continue
+      const header = convertRule(rule, warnings)
+      if (!header) continue
+
+      const group = rule.group?.trim() || 'Header Editor'
+      groups.set(group, [...(groups.get(group) ?? []), header])
+    }
+  }
+
+  return [...groups.entries()].map(([name, headers], index) =>
+    createImportedProfile(name, headers, startingColorIndex + index)
+  )
+}
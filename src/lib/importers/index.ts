@@ -0,0 +1,115 @@
+import type { HeaderRule, ImportFormat, Profile, TemplateVariable } from '@/types'
+import { convertModHeaderProfile, generateId, isModHeaderFormat } from '@/types'
+import { isEncryptedExport } from '@/lib/exportCrypto'
+import { migrateState } from '@/lib/migrations'
+import { formatSchemaIssue, validateProfile, validateVariables } from '@/lib/stateSchema'
+import { withNewFilterIds } from '@/lib/urlFilters'
+import { convertRequestlyRules, isRequestlyFormat } from './requestly'
+import { convertHeaderEditorExport, isHeaderEditorFormat } from './headerEditor'
+
+export interface ParsedImport {
+  format: ImportFormat
+  /** Converted profiles with new IDs. Like all imports, they start disabled. */
+  profiles: Profile[]
+  /** Global variables, with new IDs */
+  variables: TemplateVariable[]
+  warnings: string[]
+}
+
+function convertOpenHeadersProfile({ subscriptionId: _subscriptionId, ...profile }: Profile): Profile {
+  // Generate new IDs to avoid conflicts. A subscription ID would make the copy read-only.
+  return {
+    ...profile,
+    id: generateId(),
+    headers: profile.headers?.map((h: HeaderRule) => ({
+      ...h,
+      id: generateId(),
+      ...(Array.isArray(h.urlFilters) ? { urlFilters: withNewFilterIds(h.urlFilters) } : {}),
+    })) ?? [],
+    urlFilters: Array.isArray(profile.urlFilters) ? withNewFilterIds(profile.urlFilters) : [],
+    ...(Array.isArray(profile.variables)
+      ? { variables: profile.variables.map((v: TemplateVariable) => ({ ...v, id: generateId() })) }
+      : {}),
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  }
+}
+
+function parseOpenHeadersExport(
+  data: { version?: unknown, profiles: unknown[], variables?: unknown },
+  warnings: string[]
+): ParsedImport {
+  const exportedProfiles: Profile[] = []
+  const exportedIndexes: number[] = []
+  data.profiles.forEach((profile, index) => {
+    if (typeof profile !== 'object' || profile === null || !('id' in profile) || !('name' in profile) ||
+      !profile.id || !profile.name) {
+      warnings.push(`Skipped profile at index ${index}: it has no ID or name`)
+      return
+    }
+    exportedProfiles.push(profile as Profile)
+    exportedIndexes.push(index)
+  })
+
+  // An export's `version` is the schema version of its profiles; throws for newer ones
+  const migrated = migrateState({
+    schemaVersion: typeof data.version === 'number' ? data.version : undefined,
+    profiles: exportedProfiles,
+  })
+
+  // Files can be edited by hand, so every field is checked before it is spread into a profile
+  const profiles: Profile[] = []
+  migrated.profiles?.forEach((profile, i) => {
+    const validated = validateProfile(profile, `profiles[${exportedIndexes[i]}]`)
+    warnings.push(...validated.issues.map(formatSchemaIssue))
+    if (validated.value) profiles.push(convertOpenHeadersProfile(validated.value))
+  })
+
+  const validatedVariables = validateVariables(data.variables)
+  warnings.push(...validatedVariables.issues.map(formatSchemaIssue))
+  const variables = validatedVariables.value.map(variable => ({ ...variable, id: generateId() }))
+
+  return { format: 'openheaders', profiles, variables, warnings }
+}
+
+/**
+ * Detects the format of a parsed export file and converts it to profiles.
+ * Throws for encrypted exports, which have to be decrypted first, and for unknown formats.
+ */
+export function parseImportData(data: unknown, startingColorIndex = 0): ParsedImport {
+  const warnings: string[] = []
+
+  if (isEncryptedExport(data)) {
+    throw new Error('Encrypted export; a passphrase is required')
+  }
+
+  // ModHeader exports an array of profiles with 'title' and 'headers'
+  if (isModHeaderFormat(data)) {
+    const profiles: Profile[] = []
+    data.forEach((modProfile, i) => {
+      if (!modProfile) return
+      try {
+        profiles.push(convertModHeaderProfile(modProfile, startingColorIndex + i))
+      } catch (error) {
+        warnings.push(`Failed to convert ModHeader profile at index ${i}: ${String(error)}`)
+      }
+    })
+    return { format: 'modheader', profiles, variables: [], warnings }
+  }
+
+  if (isRequestlyFormat(data)) {
+    const profiles = convertRequestlyRules(data, startingColorIndex, warnings)
+    return { format: 'requestly', profiles, variables: [], warnings }
+  }
+
+  if (isHeaderEditorFormat(data)) {
+    const profiles = convertHeaderEditorExport(data, startingColorIndex, warnings)
+    return { format: 'header_editor', profiles, variables: [], warnings }
+  }
+
+  if (typeof data === 'object' && data !== null && 'profiles' in data && Array.isArray(data.profiles)) {
+    return parseOpenHeadersExport(data as { version?: unknown, profiles: unknown[], variables?: unknown }, warnings)
+  }
+
+  throw new Error('Invalid format')
+}
@@ -0,0 +1,230 @@
+import type { HeaderRule, HeaderType, Profile, RequestMethod, ResourceType, UrlFilter, UrlFilterTarget } from '@/types'
+import { generateId, REQUEST_METHODS, RESOURCE_TYPES } from '@/types'
+import { escapeRegExp } from '@/lib/urlFilters'
+import { createImportedHeader, createImportedProfile, createImportedUrlFilter, parseRegexLiteral } from './shared'
+
+// Scheme and host of a URL, for regexes that match the host or path only
+const URL_ORIGIN_PATTERN = '^[a-z][a-z0-9+.-]*://[^/?#]*'
+
+// Requestly export types (only the parts used by the converter)
+export type RequestlySourceKey = 'Url' | 'host' | 'path'
+export type RequestlySourceOperator = 'Equals' | 'Contains' | 'Matches' | 'Wildcard_Matches'
+
+export interface RequestlySource {
+  key: RequestlySourceKey
+  operator: RequestlySourceOperator
+  value: string
+  filters?: Array<{
+    pageUrl?: { operator: RequestlySourceOperator, value: string }
+    resourceType?: string[]
+    requestMethod?: string[]
+  }>
+}
+
+export interface RequestlyHeaderModification {
+  header: string
+  value?: string
+  type: 'Add' | 'Remove' | 'Modify'
+}
+
+/** Rules exported by Requestly 2.x and later group modifications by request and response */
+export interface RequestlyHeadersPair {
+  source: RequestlySource
+  modifications?: {
+    Request?: RequestlyHeaderModification[]
+    Response?: RequestlyHeaderModification[]
+  }
+}
+
+/** Rules exported by Requestly 1.x have one modification per pair */
+export interface RequestlyLegacyHeadersPair extends RequestlyHeaderModification {
+  source: RequestlySource
+  target: 'Request' | 'Response'
+}
+
+export interface RequestlyRule {
+  id?: string
+  name?: string
+  objectType?: 'rule'
+  ruleType: string
+  status?: 'Active' | 'Inactive'
+  description?: string
+  pairs: Array<RequestlyHeadersPair | RequestlyLegacyHeadersPair>
+}
+
+/**
+ * Detects a Requestly rules export: an array of rules and groups
+ */
+export function isRequestlyFormat(data: unknown): data is RequestlyRule[] {
+  if (!Array.isArray(data) || data.length === 0) return false
+  return data.some(item =>
+    typeof item === 'object' &&
+    item !== null &&
+    typeof item.ruleType === 'string' &&
+    Array.isArray(item.pairs)
+  )
+}
+
+function isLegacyPair(pair: RequestlyHeadersPair | RequestlyLegacyHeadersPair): pair is RequestlyLegacyHeadersPair {
+  return 'header' in pair && 'target' in pair
+}
+
+/**
+ * Maps a Requestly URL condition onto a URL filter. Returns null when the condition matches every URL.
+ */
+export function convertRequestlyCondition(
+  key: RequestlySourceKey,
+  operator: RequestlySourceOperator,
+  rawValue: string,
+  target: UrlFilterTarget,
+  warnings: string[] = []
+): UrlFilter | null {
+  const value = rawValue?.trim() ?? ''
+  if (!value) return null
+
+  if (operator === 'Matches') {
+    if (key !== 'Url') {
+      warnings.push(`Requestly ${key} regex "${value}" is matched against the full URL`)
+    }
+    return createImportedUrlFilter('regex', parseRegexLiteral(value), { target })
+  }
+
+  switch (key) {
+    case 'host':
+      if (operator === 'Equals') return createImportedUrlFilter('host_equals', value, { target })
+      if (operator === 'Wildcard_Matches') {
+        if (value.startsWith('*.') && !value.slice(2).includes('*')) {
+          return createImportedUrlFilter('host_ends_with', value.slice(2), { target })
+        }
+        return createImportedUrlFilter('dnr_url_filter', `*://${value}/*`, { target })
+      }
+      return createImportedUrlFilter('regex', `${URL_ORIGIN_PATTERN}${escapeRegExp(value)}`, { target })
+    case 'path':
+      if (operator === 'Equals') {
+        return createImportedUrlFilter('regex', `${URL_ORIGIN_PATTERN}${escapeRegExp(value)}([?#]|$)`, { target })
+      }
+      if (operator === 'Wildcard_Matches') {
+        const path = escapeRegExp(value.startsWith('/') ? value : `/${value}`).replace(/\\\*/g, '[^?#]*')
+        return createImportedUrlFilter('regex', `${URL_ORIGIN_PATTERN}${path}([?#]|$)`, { target })
+      }
+      return createImportedUrlFilter('url_contains', value, { target })
+    case 'Url':
+    default:
+      if (operator === 'Contains') return createImportedUrlFilter('url_contains', value, { target })
+      // Globs without wildcards match the exact URL
+      return createImportedUrlFilter('dnr_url_filter', value, { target })
+  }
+}
+
+function convertModification(
+  modification: RequestlyHeaderModification,
+  type: HeaderType,
+  enabled: boolean,
+  urlFilters: UrlFilter[]
+): HeaderRule | null {
+  if (typeof modification?.header !== 'string' || !modification.header.trim()) return null
+
+  return createImportedHeader(modification.header.trim(), modification.value ?? '', type, {
+    enabled,
+    operation: modification.type === 'Remove' ? 'remove' : 'set',
+    // Each header gets its own copy, since pairs can modify several headers
+    ...(urlFilters.length > 0 ? { urlFilters: urlFilters.map(f => ({ ...f, id: generateId() })) } : {}),
+  })
+}
+
+function convertSourceFilters(source: RequestlySource, warnings: string[]): UrlFilter[] {
+  const filters: UrlFilter[] = []
+  const requestFilter = convertRequestlyCondition(source.key, source.operator, source.value, 'request', warnings)
+  if (requestFilter) filters.push(requestFilter)
+
+  // "Page URL" source filters match the tab the request comes from
+  const pageUrl = source.filters?.[0]?.pageUrl
+  if (pageUrl) {
+    const pageFilter = convertRequestlyCondition('Url', pageUrl.operator, pageUrl.value, 'tab', warnings)
+    if (pageFilter) filters.push(pageFilter)
+  }
+  return filters
+}
+
+function getSourceKey(source: RequestlySource): string {
+  const filter = source.filters?.[0]
+  return JSON.stringify([filter?.resourceType ?? [], filter?.requestMethod ?? []])
+}
+
+/**
+ * Converts resource type and method source filters. Chrome applies them per profile,
+ * so they are only kept when every pair of the rule uses the same ones.
+ */
+function convertRequestTypes(
+  rule: RequestlyRule,
+  warnings: string[]
+): Pick<Profile, 'resourceTypes' | 'requestMethods'> {
+  const sources = rule.pairs.map(pair => pair.source).filter(Boolean)
+  const first = sources[0]
+  if (!first?.filters?.[0]) return {}
+  if (!sources.every(source => getSourceKey(source) === getSourceKey(first))) {
+    warnings.push(`Requestly rule "${rule.name}" uses different resource types or methods per pair; they are not imported`)
+    return {}
+  }
+
+  const { resourceType = [], requestMethod = [] } = first.filters[0]
+  const resourceTypes = RESOURCE_TYPES.filter((type): type is ResourceType => resourceType.includes(type))
+  const requestMethods = REQUEST_METHODS.filter((method): method is RequestMethod =>
+    requestMethod.some(m => m.toLowerCase() === method)
+  )
+  return {
+    ...(resourceTypes.length > 0 ? { resourceTypes } : {}),
+    ...(requestMethods.length > 0 ? { requestMethods } : {}),
+  }
+}
+
+/**
+ * Converts Requestly "Modify Headers" rules to profiles, one profile per rule.
+ * Other rule types are skipped with a warning. Inactive rules import with their headers disabled.
+ */
+export function convertRequestlyRules(
+  data: RequestlyRule[],
+  startingColorIndex = 0,
+  warnings: string[] = []
+): Profile[] {
+  const converted: Profile[] = []
+
+  for (const rule of data) {
+    if (typeof rule !== 'object' || rule === null || !Array.isArray(rule.pairs)) continue
+    if (rule.ruleType !== 'Headers') {
+      warnings.push(`Skipped Requestly ${rule.ruleType} rule "${rule.name ?? rule.id ?? ''}": only header rules can be imported`)
+      continue
+    }
+
+    const enabled = rule.status !== 'Inactive'
+    const headers: HeaderRule[] = []
+
+    for (const pair of rule.pairs) {
+      const urlFilters = pair.source ? convertSourceFilters(pair.source, warnings) : []
+
+      if (isLegacyPair(pair)) {
+        const header = convertModification(pair, pair.target === 'Response' ? 'response' : 'request', enabled, urlFilters)
+        if (header) headers.push(header)
+        continue
+      }
+
+      for (const modification of pair.modifications?.Request ?? []) {
+        const header = convertModification(modification, 'request', enabled, urlFilters)
+        if (header) headers.push(header)
+      }
+      for (const modification of pair.modifications?.Response ?? []) {
+        const header = convertModification(modification, 'response', enabled, urlFilters)
+        if (header) headers.push(header)
+      }
+    }
+
+    converted.push(createImportedProfile(
+      rule.name || 'Requestly rule',
+      headers,
+      startingColorIndex + converted.length,
+      convertRequestTypes(rule, warnings)
+    ))
+  }
+
+  return converted
+}
@@ -0,0 +1,86 @@
+import type { HeaderRule, HeaderType, Profile, UrlFilter, UrlFilterMatchType, UrlFilterTarget } from '@/types'
+import { DEFAULT_PROFILE_COLORS, generateId } from '@/types'
+
+export interface ImportedUrlFilterOptions {
+  type?: UrlFilter['type']
+  /** Defaults to 'request': other header tools match the URL of each request */
+  target?: UrlFilterTarget
+}
+
+export function createImportedUrlFilter(
+  matchType: UrlFilterMatchType,
+  pattern: string,
+  options: ImportedUrlFilterOptions = {}
+): UrlFilter {
+  return {
+    id: generateId(),
+    enabled: true,
+    matchType,
+    pattern,
+    type: options.type ?? 'include',
+    target: options.target ?? 'request',
+  }
+}
+
+export function createImportedHeader(
+  name: string,
+  value: string,
+  type: HeaderType,
+  fields: Partial<Omit<HeaderRule, 'id' | 'name' | 'value' | 'type'>> = {}
+): HeaderRule {
+  return {
+    id: generateId(),
+    enabled: true,
+    name,
+    value,
+    comment: '',
+    type,
+    operation: 'set',
+    ...fields,
+  }
+}
+
+/**
+ * Extracts the pattern from a `/pattern/flags` regex literal. Plain strings are returned as-is.
+ * Flags are dropped: request URL regexes are case-insensitive in Chrome anyway.
+ */
+export function parseRegexLiteral(value: string): string {
+  const match = value.trim().match(/^\/(.*)\/([a-z]*)$/s)
+  return match ? (match[1] ?? '') : value.trim()
+}
+
+function getUrlFiltersKey(filters: UrlFilter[] | undefined): string {
+  return JSON.stringify((filters ?? []).map(f => [f.type, f.target, f.matchType, f.pattern]))
+}
+
+/**
+ * Creates a profile from converted headers.
+ * When every header has the same URL filters, they move to the profile so the UI shows them
+ * in the Filters tab instead of repeating them on each header.
+ */
+export function createImportedProfile(
+  name: string,
+  headers: HeaderRule[],
+  colorIndex: number,
+  fields: Partial<Omit<Profile, 'id' | 'name' | 'headers' | 'color'>> = {}
+): Profile {
+  let profileFilters: UrlFilter[] = []
+  let profileHeaders = headers
+
+  const first = headers[0]
+  if (first?.urlFilters?.length && headers.every(h => getUrlFiltersKey(h.urlFilters) === getUrlFiltersKey(first.urlFilters))) {
+    profileFilters = first.urlFilters
+    profileHeaders = headers.map(({ urlFilters: _urlFilters, ...header }) => header)
+  }
+
+  return {
+    id: generateId(),
+    name,
+    color: DEFAULT_PROFILE_COLORS[colorIndex % DEFAULT_PROFILE_COLORS.length] ?? '#7c3aed',
+    headers: profileHeaders,
+    urlFilters: profileFilters,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    ...fields,
+  }
+}
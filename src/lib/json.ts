@@ -0,0 +1,97 @@
+import type { JsonPatch, JsonPath } from '@/types'
+
+/**
+ * JSON with object keys sorted, so equal data compares equal however it was built
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return item
+    return Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+  })
+}
+
+/**
+ * Whether two JSON-compatible values hold the same data, regardless of key order
+ */
+export function isSameJson(a: unknown, b: unknown): boolean {
+  return canonicalJson(a) === canonicalJson(b)
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function diffInto(a: unknown, b: unknown, path: JsonPath, patches: JsonPatch[]): void {
+  if (a === b) return
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    // Only the part between an unchanged start and end differs, e.g. one inserted header
+    let start = 0
+    while (start < a.length && start < b.length && isSameJson(a[start], b[start])) start++
+    let end = 0
+    while (end < a.length - start && end < b.length - start && isSameJson(a[a.length - 1 - end], b[b.length - 1 - end])) end++
+
+    const removed = a.length - start - end
+    const added = b.slice(start, b.length - end)
+    if (removed === added.length) {
+      added.forEach((item, i) => diffInto(a[start + i], item, [...path, start + i], patches))
+    } else {
+      patches.push({ path, splice: [start, removed, added] })
+    }
+    return
+  }
+
+  if (isJsonObject(a) && isJsonObject(b)) {
+    for (const key of Object.keys(a)) {
+      if (a[key] !== undefined && b[key] === undefined) patches.push({ path: [...path, key] })
+    }
+    for (const [key, value] of Object.entries(b)) {
+      if (value !== undefined) diffInto(a[key], value, [...path, key], patches)
+    }
+    return
+  }
+
+  if (!isSameJson(a, b)) patches.push({ path, value: b })
+}
+
+/**
+ * The changes that turn one JSON value into another. Unchanged parts are left out,
+ * and an array whose length changed is patched with one splice.
+ */
+export function diffJson(a: unknown, b: unknown): JsonPatch[] {
+  const patches: JsonPatch[] = []
+  diffInto(a, b, [], patches)
+  return patches
+}
+
+/**
+ * Applies the changes from `diffJson` to a copy of `value`. Changes whose place no longer exists are skipped.
+ */
+export function applyJsonPatches<T>(value: T, patches: JsonPatch[]): T {
+  const copy = <V>(item: V): V => JSON.parse(JSON.stringify(item))
+  let root: unknown = copy(value)
+
+  for (const patch of patches) {
+    if (patch.path.length === 0 && 'value' in patch) {
+      root = copy(patch.value)
+      continue
+    }
+    const parentPath = 'splice' in patch ? patch.path : patch.path.slice(0, -1)
+    const target = parentPath.reduce<unknown>(
+      (current, key) => (typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined),
+      root
+    ) as Record<string | number, unknown> | undefined
+    if (typeof target !== 'object' || target === null) continue
+
+    if ('splice' in patch) {
+      if (!Array.isArray(target)) continue
+      const [start, deleteCount, items] = patch.splice
+      target.splice(start, deleteCount, ...copy(items))
+    } else if ('value' in patch) {
+      target[patch.path[patch.path.length - 1]!] = copy(patch.value)
+    } else {
+      delete target[patch.path[patch.path.length - 1]!]
+    }
+  }
+  return root as T
+}
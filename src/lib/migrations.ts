@@ -0,0 +1,119 @@
+import type { AppState, LanguagePreference, UrlFilter, ValueSuggestion } from '@/types'
+import { getEnabledProfiles } from './profiles'
+
+/**
+ * A saved state or native export of any schema version. Exports carry their version in
+ * `version` instead; they hold only profiles and variables, which the steps handle the same way.
+ */
+export type VersionedState = Partial<AppState>
+
+export interface Migration {
+  /** The schema version a state has after this step */
+  version: number
+  description: string
+  migrate: (state: VersionedState) => VersionedState
+}
+
+const LANGUAGE_PREFERENCES: readonly LanguagePreference[] = ['auto', 'en', 'sv']
+
+/**
+ * Steps in order. States saved before versioning are version 0; add a step, never change one.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    description: 'The darkMode boolean becomes darkModePreference',
+    migrate: (state) => {
+      const { darkMode, ...rest } = state as VersionedState & { darkMode?: boolean }
+      if (darkMode === undefined || rest.darkModePreference !== undefined) return rest
+      return { ...rest, darkModePreference: darkMode ? 'dark' : 'system' }
+    },
+  },
+  {
+    version: 2,
+    description: 'Unknown language preferences fall back to auto',
+    migrate: (state) => {
+      if (state.languagePreference === undefined || LANGUAGE_PREFERENCES.includes(state.languagePreference)) return state
+      return { ...state, languagePreference: 'auto' }
+    },
+  },
+  {
+    version: 3,
+    description: 'Profiles always have header and URL filter lists; filters without a match type use dnr_url_filter',
+    migrate: (state) => {
+      if (!Array.isArray(state.profiles)) return state
+      return {
+        ...state,
+        profiles: state.profiles.map(profile => ({
+          ...profile,
+          headers: profile.headers ?? [],
+          urlFilters: (profile.urlFilters ?? []).map((filter: Partial<UrlFilter>) => ({
+            ...filter,
+            matchType: filter.matchType ?? 'dnr_url_filter',
+          }) as UrlFilter),
+        })),
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Profiles get their own enabled flag; before that only the active profile applied',
+    migrate: (state) => {
+      if (!Array.isArray(state.profiles)) return state
+      const enabledProfileIds = new Set(
+        getEnabledProfiles({ profiles: state.profiles, activeProfileId: state.activeProfileId ?? null }).map(p => p.id)
+      )
+      return {
+        ...state,
+        profiles: state.profiles.map(profile => ({ ...profile, enabled: enabledProfileIds.has(profile.id) })),
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'Suggested header values become { value, comment } instead of strings',
+    migrate: (state) => {
+      const valuesByName = state.headerSuggestions?.valuesByName
+      if (!valuesByName || typeof valuesByName !== 'object') return state
+      const migrated: Record<string, ValueSuggestion[]> = {}
+      for (const [name, values] of Object.entries(valuesByName)) {
+        if (!Array.isArray(values)) continue
+        migrated[name] = (values as unknown[]).map(entry =>
+          typeof entry === 'string' ? { value: entry, comment: '' } : entry as ValueSuggestion
+        )
+      }
+      return { ...state, headerSuggestions: { ...state.headerSuggestions!, valuesByName: migrated } }
+    },
+  },
+]
+
+/** Schema version of the states and exports this version writes */
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]!.version
+
+export function getSchemaVersion(state: Pick<VersionedState, 'schemaVersion'>): number {
+  return typeof state.schemaVersion === 'number' ? state.schemaVersion : 0
+}
+
+/**
+ * Whether a state was saved by a newer version of the extension. Such states are
+ * neither loaded nor written over, since this version would drop what it does not know.
+ */
+export function isNewerSchemaVersion(state: Pick<VersionedState, 'schemaVersion'>): boolean {
+  return getSchemaVersion(state) > CURRENT_SCHEMA_VERSION
+}
+
+/**
+ * Runs the steps a state has not had yet and stamps it with the current version.
+ * Throws for states from a newer version.
+ */
+export function migrateState(state: VersionedState): VersionedState {
+  const version = getSchemaVersion(state)
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Schema version ${version} is newer than this version of OpenHeaders supports (${CURRENT_SCHEMA_VERSION})`)
+  }
+
+  const migrated = MIGRATIONS
+    .filter(migration => migration.version > version)
+    .reduce((current, migration) => migration.migrate(current), state)
+  return { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION }
+}
@@ -0,0 +1,137 @@
+import type {
+  HeaderRule,
+  ModHeaderExport,
+  ModHeaderExportWarning,
+  ModHeaderHeader,
+  ModHeaderProfile,
+  ModHeaderUrlFilter,
+  Profile,
+  ResourceType,
+} from '@/types'
+import { getActiveUrlFilters, getUrlFilterTarget, urlFilterToRegExpSource } from '@/lib/urlFilters'
+import { hasTemplate } from '@/lib/templates'
+
+/** Resource types ModHeader's resource filter understands */
+const MODHEADER_RESOURCE_TYPES: ReadonlySet<ResourceType> = new Set<ResourceType>([
+  'main_frame',
+  'sub_frame',
+  'stylesheet',
+  'script',
+  'image',
+  'font',
+  'object',
+  'xmlhttprequest',
+  'ping',
+  'csp_report',
+  'media',
+  'websocket',
+  'other',
+])
+
+function convertHeader(
+  header: HeaderRule,
+  profile: Profile,
+  warnings: ModHeaderExportWarning[]
+): ModHeaderHeader {
+  if (getActiveUrlFilters(header.urlFilters).length > 0) {
+    warnings.push({ code: 'header_scope', profile: profile.name, header: header.name })
+  }
+  if (header.operation !== 'remove' && hasTemplate(header.value)) {
+    warnings.push({ code: 'template', profile: profile.name, header: header.name })
+  }
+
+  return {
+    enabled: header.enabled,
+    name: header.name,
+    // ModHeader removes headers whose value is empty
+    value: header.operation === 'remove' ? '' : header.value,
+    ...(header.comment ? { comment: header.comment } : {}),
+    ...(header.operation === 'append' ? { appendMode: true } : {}),
+  }
+}
+
+function convertUrlFilters(
+  profile: Profile,
+  warnings: ModHeaderExportWarning[]
+): Pick<ModHeaderProfile, 'urlFilters' | 'excludeUrlFilters'> {
+  const urlFilters: ModHeaderUrlFilter[] = []
+  const excludeUrlFilters: ModHeaderUrlFilter[] = []
+
+  for (const filter of profile.urlFilters) {
+    if (!filter.pattern.trim() && filter.matchType !== 'localhost_port') continue
+
+    const urlRegex = urlFilterToRegExpSource(filter)
+    if (!urlRegex) {
+      warnings.push({ code: 'invalid_filter', profile: profile.name, detail: filter.pattern })
+      continue
+    }
+    // ModHeader matches the request URL; there is no equivalent of a tab URL filter
+    if (filter.enabled && getUrlFilterTarget(filter) === 'tab') {
+      warnings.push({ code: 'tab_filter', profile: profile.name, detail: filter.pattern })
+    }
+
+    const converted: ModHeaderUrlFilter = { enabled: filter.enabled, urlRegex }
+    if (filter.type === 'exclude') {
+      excludeUrlFilters.push(converted)
+    } else {
+      urlFilters.push(converted)
+    }
+  }
+
+  return {
+    ...(urlFilters.length > 0 ? { urlFilters } : {}),
+    ...(excludeUrlFilters.length > 0 ? { excludeUrlFilters } : {}),
+  }
+}
+
+function convertResourceTypes(
+  profile: Profile,
+  warnings: ModHeaderExportWarning[]
+): Pick<ModHeaderProfile, 'resourceFilters'> {
+  const resourceTypes = profile.resourceTypes ?? []
+  if (resourceTypes.length === 0) return {}
+
+  const unsupported = resourceTypes.filter(type => !MODHEADER_RESOURCE_TYPES.has(type))
+  if (unsupported.length > 0) {
+    warnings.push({ code: 'resource_types', profile: profile.name, detail: unsupported.join(', ') })
+  }
+  const supported = resourceTypes.filter(type => MODHEADER_RESOURCE_TYPES.has(type))
+  return supported.length > 0 ? { resourceFilters: [{ enabled: true, resourceType: supported }] } : {}
+}
+
+/**
+ * Converts a profile to ModHeader's format.
+ * Anything ModHeader cannot express exactly is reported in `warnings`.
+ */
+export function convertProfileToModHeader(
+  profile: Profile,
+  index: number,
+  warnings: ModHeaderExportWarning[] = []
+): ModHeaderProfile {
+  const headers = profile.headers.filter(h => h.type === 'request').map(h => convertHeader(h, profile, warnings))
+  const respHeaders = profile.headers.filter(h => h.type === 'response').map(h => convertHeader(h, profile, warnings))
+
+  if (profile.requestMethods?.length) {
+    warnings.push({ code: 'request_methods', profile: profile.name, detail: profile.requestMethods.join(', ') })
+  }
+
+  return {
+    title: profile.name,
+    shortTitle: String(index + 1),
+    version: 2,
+    hideComment: !profile.headers.some(h => h.comment),
+    headers,
+    respHeaders,
+    ...convertUrlFilters(profile, warnings),
+    ...convertResourceTypes(profile, warnings),
+  }
+}
+
+/**
+ * Serializes profiles as a ModHeader export, collecting warnings for everything lost on the way
+ */
+export function convertProfilesToModHeader(profiles: Profile[]): ModHeaderExport {
+  const warnings: ModHeaderExportWarning[] = []
+  const converted = profiles.map((profile, index) => convertProfileToModHeader(profile, index, warnings))
+  return { data: JSON.stringify(converted, null, 2), warnings }
+}
@@ -0,0 +1,300 @@
+import type { UrlFilter } from '@/types'
+
+export interface PastedHeader {
+  name: string
+  value: string
+}
+
+export interface PastedRequest {
+  source: 'curl' | 'raw'
+  /** Request URL, when the pasted text contains one */
+  url: string | null
+  headers: PastedHeader[]
+  /** Names of hop-by-hop and browser-controlled headers that were left out */
+  skipped: string[]
+  /** Names of headers with an empty value, left out since the rules cannot set one */
+  empty: string[]
+}
+
+/**
+ * Headers that only make sense for a single connection, or that the browser
+ * computes for every request and would be wrong on any other one.
+ */
+const SKIPPED_HEADERS = new Set([
+  // Hop-by-hop
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  // Browser-controlled
+  'accept-charset',
+  'accept-encoding',
+  'access-control-request-headers',
+  'access-control-request-method',
+  'content-length',
+  'date',
+  'expect',
+  'host',
+  'priority',
+])
+
+/** curl options whose value is the next argument (the ones that do not set headers) */
+const CURL_OPTIONS_WITH_VALUE = new Set([
+  '-X', '--request',
+  '-d', '--data', '--data-raw', '--data-binary', '--data-urlencode', '--data-ascii', '--json',
+  '-F', '--form', '--form-string',
+  '-o', '--output',
+  '-x', '--proxy',
+  '-m', '--max-time', '--connect-timeout',
+  '-T', '--upload-file',
+  '-w', '--write-out',
+  '-E', '--cert', '--cacert', '--key',
+  '-r', '--range',
+  '-K', '--config',
+  '--resolve', '--retry', '--max-redirs', '--limit-rate',
+])
+
+function isSkippedHeader(name: string): boolean {
+  const key = name.toLowerCase()
+  // Fetch metadata and client hints are set by the browser
+  return SKIPPED_HEADERS.has(key) || key.startsWith('sec-')
+}
+
+function readAnsiCQuoted(input: string, start: number): { value: string, end: number } {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"', '?': '?', a: '\x07', b: '\b', e: '\x1b', f: '\f', v: '\v' }
+  let value = ''
+  let i = start
+  while (i < input.length && input[i] !== "'") {
+    if (input[i] !== '\\') {
+      value += input[i]
+      i++
+      continue
+    }
+    const next = input[i + 1] ?? ''
+    const hex = next === 'x' ? /^[0-9a-fA-F]{1,2}/.exec(input.slice(i + 2)) : next === 'u' ? /^[0-9a-fA-F]{1,4}/.exec(input.slice(i + 2)) : null
+    if (hex) {
+      value += String.fromCharCode(parseInt(hex[0], 16))
+      i += 2 + hex[0].length
+    } else {
+      value += escapes[next] ?? `\\${next}`
+      i += 2
+    }
+  }
+  return { value, end: i + 1 }
+}
+
+/**
+ * Splits a POSIX shell command line into arguments, supporting the quoting that
+ * browsers use for "Copy as cURL (bash)": '...', "...", $'...' and line continuations.
+ */
+export function splitShellArguments(input: string): string[] {
+  const args: string[] = []
+  let current = ''
+  let inArgument = false
+  let i = 0
+
+  while (i < input.length) {
+    const ch = input[i] as string
+
+    if (ch === '\\') {
+      const next = input[i + 1]
+      if (next === '\n' || (next === '\r' && input[i + 2] === '\n')) {
+        i += next === '\n' ? 2 : 3
+        continue
+      }
+      if (next !== undefined) {
+        current += next
+        inArgument = true
+      }
+      i += 2
+      continue
+    }
+    if (ch === "'") {
+      const end = input.indexOf("'", i + 1)
+      current += input.slice(i + 1, end === -1 ? undefined : end)
+      inArgument = true
+      i = end === -1 ? input.length : end + 1
+      continue
+    }
+    if (ch === '$' && input[i + 1] === "'") {
+      const { value, end } = readAnsiCQuoted(input, i + 2)
+      current += value
+      inArgument = true
+      i = end
+      continue
+    }
+    if (ch === '"') {
+      i++
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && ['"', '\\', '$', '`', '\n'].includes(input[i + 1] ?? '')) {
+          if (input[i + 1] !== '\n') current += input[i + 1]
+          i += 2
+        } else {
+          current += input[i]
+          i++
+        }
+      }
+      inArgument = true
+      i++
+      continue
+    }
+    if (/\s/.test(ch)) {
+      if (inArgument) args.push(current)
+      current = ''
+      inArgument = false
+      i++
+      continue
+    }
+    current += ch
+    inArgument = true
+    i++
+  }
+
+  if (inArgument) args.push(current)
+  return args
+}
+
+function parseHeaderLine(line: string): PastedHeader | null {
+  // `Name;` is curl's syntax for a header with an empty value
+  const emptyMatch = /^([^:;\s]+);$/.exec(line.trim())
+  if (emptyMatch) return { name: emptyMatch[1] as string, value: '' }
+
+  // HTTP/2 pseudo-headers start with a colon
+  const separator = line.indexOf(':', line.startsWith(':') ? 1 : 0)
+  if (separator <= 0) return null
+  const name = line.slice(0, separator).trim()
+  if (!name || /\s/.test(name)) return null
+  return { name, value: line.slice(separator + 1).trim() }
+}
+
+function encodeBasicAuth(credentials: string): string {
+  const bytes = new TextEncoder().encode(credentials.includes(':') ? credentials : `${credentials}:`)
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return `Basic ${btoa(binary)}`
+}
+
+function parseCurl(text: string): { url: string | null, headers: PastedHeader[] } {
+  const args = splitShellArguments(text.trim().replace(/^\$\s*/, ''))
+  const headers: PastedHeader[] = []
+  let url: string | null = null
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i] as string
+    const takeValue = () => args[++i] ?? ''
+
+    if (arg === '-H' || arg === '--header' || (arg.startsWith('-H') && arg.length > 2)) {
+      const line = arg.length > 2 && !arg.startsWith('--') ? arg.slice(2) : takeValue()
+      // `Name:` only stops curl from sending its own value
+      if (line.trim().endsWith(':')) continue
+      const header = parseHeaderLine(line)
+      if (header) headers.push(header)
+    } else if (arg === '-b' || arg === '--cookie') {
+      const value = takeValue()
+      // Without `=` the value is a cookie file
+      if (value.includes('=')) headers.push({ name: 'Cookie', value })
+    } else if (arg === '-A' || arg === '--user-agent') {
+      headers.push({ name: 'User-Agent', value: takeValue() })
+    } else if (arg === '-e' || arg === '--referer') {
+      headers.push({ name: 'Referer', value: takeValue() })
+    } else if (arg === '-u' || arg === '--user') {
+      headers.push({ name: 'Authorization', value: encodeBasicAuth(takeValue()) })
+    } else if (arg === '--url') {
+      url = takeValue()
+    } else if (CURL_OPTIONS_WITH_VALUE.has(arg)) {
+      i++
+    } else if (!arg.startsWith('-') && url === null) {
+      url = arg
+    }
+  }
+
+  return { url, headers: headers.filter(h => !h.name.startsWith(':')) }
+}
+
+function parseRawHeaders(text: string): { url: string | null, headers: PastedHeader[] } {
+  const lines = text.split(/\r?\n/).map(line => line.trim())
+  const headers: PastedHeader[] = []
+  const pseudo: Record<string, string> = {}
+  let target: string | null = null
+
+  for (const [index, line] of lines.entries()) {
+    if (!line) {
+      // A blank line after the headers starts the body
+      if (headers.length > 0 || Object.keys(pseudo).length > 0) break
+      continue
+    }
+    const requestLine = /^[A-Z]+\s+(\S+)\s+HTTP\/[\d.]+$/.exec(line)
+    if (requestLine && index === lines.findIndex(Boolean)) {
+      target = requestLine[1] as string
+      continue
+    }
+    const header = parseHeaderLine(line)
+    if (!header) continue
+    if (header.name.startsWith(':')) {
+      pseudo[header.name.slice(1).toLowerCase()] = header.value
+    } else {
+      headers.push(header)
+    }
+  }
+
+  const host = pseudo.authority ?? headers.find(h => h.name.toLowerCase() === 'host')?.value
+  const path = target ?? pseudo.path ?? null
+  let url: string | null = null
+  if (path && /^https?:\/\//i.test(path)) {
+    url = path
+  } else if (host) {
+    url = `${pseudo.scheme ?? 'https'}://${host}${path ?? '/'}`
+  }
+  return { url, headers }
+}
+
+/**
+ * Parses a pasted curl command (as copied from DevTools) or a raw block of
+ * `Name: value` header lines. Hop-by-hop and browser-controlled headers are left
+ * out and listed in `skipped`, headers with an empty value (such as curl's `Name;`)
+ * in `empty`. Returns null when the text contains no headers or URL.
+ */
+export function parsePastedRequest(text: string): PastedRequest | null {
+  const source = /^\s*(\$\s*)?curl\s/i.test(text) ? 'curl' : 'raw'
+  const parsed = source === 'curl' ? parseCurl(text) : parseRawHeaders(text)
+
+  const headers: PastedHeader[] = []
+  const skipped: string[] = []
+  const empty: string[] = []
+  const addName = (names: string[], name: string) => {
+    if (!names.some(existing => existing.toLowerCase() === name.toLowerCase())) names.push(name)
+  }
+  for (const header of parsed.headers) {
+    if (isSkippedHeader(header.name)) {
+      addName(skipped, header.name)
+    } else if (!header.value.trim()) {
+      addName(empty, header.name)
+    } else {
+      headers.push(header)
+    }
+  }
+
+  if (headers.length === 0 && skipped.length === 0 && empty.length === 0 && !parsed.url) return null
+  return { source, url: parsed.url, headers, skipped, empty }
+}
+
+/**
+ * Suggests a request URL filter limiting headers to the host of a request URL
+ */
+export function getUrlFilterForRequestUrl(url: string): Pick<UrlFilter, 'matchType' | 'pattern'> | null {
+  try {
+    const parsed = new URL(url)
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null
+    if (parsed.hostname === 'localhost') {
+      return { matchType: 'localhost_port', pattern: parsed.port ? `localhost:${parsed.port}` : 'localhost' }
+    }
+    return { matchType: 'host_equals', pattern: parsed.hostname }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,19 @@
+import type { AppState, Profile } from '@/types'
+import { isProfileInSchedule } from './schedule'
+
+/**
+ * Returns the profiles whose rules should be applied, in priority order (sidebar order).
+ * States saved before profiles had their own `enabled` flag only ever ran the active
+ * profile, so when no profile carries the flag the active profile is the sole enabled one.
+ * With `now`, profiles whose schedule does not let them apply at that time are left out.
+ */
+export function getEnabledProfiles(state: Pick<AppState, 'profiles' | 'activeProfileId'>, now?: number): Profile[] {
+  const profiles = state.profiles ?? []
+  const hasEnabledFlags = profiles.some(p => typeof p.enabled === 'boolean')
+
+  const enabled = hasEnabledFlags
+    ? profiles.filter(p => p.enabled === true)
+    : profiles.filter(p => p.id === state.activeProfileId)
+
+  return now === undefined ? enabled : enabled.filter(p => isProfileInSchedule(p, now))
+}
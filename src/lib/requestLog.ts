@@ -0,0 +1,146 @@
+import type { RequestLog, RequestLogEntry, RequestLogRule } from '@/types'
+
+/** How many entries the request log keeps */
+export const REQUEST_LOG_LIMIT = 200
+/** How many rule builds are remembered to explain earlier matches */
+export const RULE_GENERATION_LIMIT = 100
+
+/**
+ * The session rules of one build. Rule IDs are reallocated on every build, so a match
+ * has to be described with the rules that were in effect when it happened.
+ */
+export interface RuleGeneration {
+  /** When the rules were applied */
+  since: number
+  rules: Record<number, RequestLogRule>
+}
+
+/** A rule match, as reported by onRuleMatchedDebug or getMatchedRules */
+export interface RequestLogMatch {
+  ruleId: number
+  tabId: number
+  timeStamp: number
+  /** Only reported by onRuleMatchedDebug */
+  requestId?: string
+  url?: string
+  method?: string
+  resourceType?: string
+}
+
+/**
+ * Creates a log entry for a rule match
+ * @param rules - What each session rule did when the match happened, keyed by rule ID
+ * @param tabUrl - The top-level URL of the tab the request came from
+ */
+export function createRequestLogEntry(
+  match: RequestLogMatch,
+  rules: Record<number, RequestLogRule>,
+  tabUrl: string | null
+): RequestLogEntry {
+  return {
+    id: match.requestId
+      ? `${match.requestId}:${match.ruleId}`
+      : `${match.timeStamp}:${match.tabId}:${match.ruleId}`,
+    timeStamp: match.timeStamp,
+    tabId: match.tabId,
+    url: match.url ?? null,
+    tabUrl,
+    ...(match.method ? { method: match.method.toUpperCase() } : {}),
+    ...(match.resourceType ? { resourceType: match.resourceType } : {}),
+    ruleId: match.ruleId,
+    rule: rules[match.ruleId] ?? null,
+  }
+}
+
+/**
+ * Adds the rules of a new build, dropping the oldest builds beyond the limit
+ */
+export function addRuleGeneration(
+  generations: RuleGeneration[],
+  generation: RuleGeneration,
+  limit = RULE_GENERATION_LIMIT
+): RuleGeneration[] {
+  return [...generations, generation].slice(-limit)
+}
+
+/**
+ * Returns the rules in effect at a time, or an empty set when they are no longer known
+ */
+export function getRulesAt(generations: RuleGeneration[], timeStamp: number): Record<number, RequestLogRule> {
+  for (let i = generations.length - 1; i >= 0; i--) {
+    const generation = generations[i]!
+    if (generation.since <= timeStamp) return generation.rules
+  }
+  return {}
+}
+
+/**
+ * Adds newest-first entries to the top of a newest-first log, dropping the oldest beyond the limit
+ */
+export function prependRequestLogEntries(
+  log: RequestLogEntry[],
+  entries: RequestLogEntry[],
+  limit = REQUEST_LOG_LIMIT
+): RequestLogEntry[] {
+  return [...entries, ...log].slice(0, limit)
+}
+
+/**
+ * Keeps the entries where every word of the query appears in the URL, tab URL,
+ * method, resource type, profile name or a header name (case-insensitive)
+ */
+export function filterRequestLog(entries: RequestLogEntry[], query: string): RequestLogEntry[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return entries
+
+  return entries.filter(entry => {
+    const text = [
+      entry.url,
+      entry.tabUrl,
+      entry.method,
+      entry.resourceType,
+      entry.rule?.profileName,
+      ...(entry.rule?.headers.map(h => h.name) ?? []),
+    ].filter(Boolean).join('\n').toLowerCase()
+    return words.every(word => text.includes(word))
+  })
+}
+
+function canMessageBackground(): boolean {
+  return typeof chrome !== 'undefined' && !!chrome.runtime?.sendMessage
+}
+
+/**
+ * Asks the background script for the request log.
+ * Returns null outside the extension or when the log could not be read.
+ */
+export async function fetchRequestLog(): Promise<RequestLog | null> {
+  if (!canMessageBackground()) return null
+
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'GET_REQUEST_LOG' })
+    if (!response || response.error) {
+      console.error('Failed to load request log:', response?.error)
+      return null
+    }
+    return response as RequestLog
+  } catch (error) {
+    console.error('Failed to load request log:', error)
+    return null
+  }
+}
+
+/**
+ * Asks the background script to clear the request log
+ */
+export async function clearRequestLog(): Promise<boolean> {
+  if (!canMessageBackground()) return false
+
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'CLEAR_REQUEST_LOG' })
+    return !!response?.ok
+  } catch (error) {
+    console.error('Failed to clear request log:', error)
+    return false
+  }
+}
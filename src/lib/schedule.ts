@@ -0,0 +1,132 @@
+import type { Profile, ProfileSchedule, ScheduleWindow } from '@/types'
+
+const MS_PER_MINUTE = 60 * 1000
+
+/** Days in display order, starting on Monday */
+export const SCHEDULE_DAYS = [1, 2, 3, 4, 5, 6, 0]
+
+export type ScheduleState = 'unscheduled' | 'active' | 'expired' | 'outside_windows'
+
+function getMinuteOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes()
+}
+
+function hasSchedule(schedule: ProfileSchedule | undefined): schedule is ProfileSchedule {
+  return !!schedule && (!!schedule.expiresAt || (schedule.windows?.length ?? 0) > 0)
+}
+
+/**
+ * Whether a local time falls inside a window
+ */
+export function isWithinScheduleWindow(window: ScheduleWindow, date: Date): boolean {
+  const minute = getMinuteOfDay(date)
+  const day = date.getDay()
+  if (window.end > window.start) {
+    return window.days.includes(day) && minute >= window.start && minute < window.end
+  }
+  // Runs past midnight: the part after midnight belongs to the window of the previous day
+  const previousDay = (day + 6) % 7
+  return (window.days.includes(day) && minute >= window.start)
+    || (window.days.includes(previousDay) && minute < window.end)
+}
+
+/**
+ * Whether an enabled profile's schedule lets it apply at `now`, and if not, why
+ */
+export function getScheduleState(profile: Pick<Profile, 'schedule'>, now = Date.now()): ScheduleState {
+  const { schedule } = profile
+  if (!hasSchedule(schedule)) return 'unscheduled'
+  if (schedule.expiresAt && schedule.expiresAt <= now) return 'expired'
+
+  const windows = schedule.windows ?? []
+  const date = new Date(now)
+  if (windows.length > 0 && !windows.some(window => isWithinScheduleWindow(window, date))) {
+    return 'outside_windows'
+  }
+  return 'active'
+}
+
+/**
+ * Whether the schedule lets an enabled profile apply at `now`
+ */
+export function isProfileInSchedule(profile: Pick<Profile, 'schedule'>, now = Date.now()): boolean {
+  const state = getScheduleState(profile, now)
+  return state === 'unscheduled' || state === 'active'
+}
+
+/**
+ * Every time within the next week at which a schedule may turn a profile on or off, in order
+ */
+function getScheduleBoundaries(schedule: ProfileSchedule, now: number): number[] {
+  const boundaries = new Set<number>()
+  if (schedule.expiresAt && schedule.expiresAt > now) boundaries.add(schedule.expiresAt)
+
+  const today = new Date(now)
+  const year = today.getFullYear()
+  const month = today.getMonth()
+  // Start a day early for windows that run past midnight into today
+  for (let offset = -1; offset <= 7; offset++) {
+    const date = today.getDate() + offset
+    const day = new Date(year, month, date).getDay()
+    for (const window of schedule.windows ?? []) {
+      if (!window.days.includes(day)) continue
+      const endOffset = window.end > window.start ? 0 : 1
+      // The Date constructor carries minutes past 59 over into hours
+      boundaries.add(new Date(year, month, date, 0, window.start).getTime())
+      boundaries.add(new Date(year, month, date + endOffset, 0, window.end).getTime())
+    }
+  }
+
+  return [...boundaries].filter(time => time > now).sort((a, b) => a - b)
+}
+
+/**
+ * The next time the schedule turns an enabled profile on or off, or null when it never will
+ */
+export function getNextScheduleChange(profile: Pick<Profile, 'schedule'>, now = Date.now()): number | null {
+  if (!hasSchedule(profile.schedule)) return null
+
+  const current = isProfileInSchedule(profile, now)
+  return getScheduleBoundaries(profile.schedule, now).find(time => isProfileInSchedule(profile, time) !== current) ?? null
+}
+
+/**
+ * How long an enabled profile keeps applying before its schedule turns it off.
+ * Returns null when it does not apply now, or has no end.
+ */
+export function getScheduleRemainingMs(profile: Pick<Profile, 'schedule'>, now = Date.now()): number | null {
+  if (getScheduleState(profile, now) !== 'active') return null
+  const end = getNextScheduleChange(profile, now)
+  return end === null ? null : end - now
+}
+
+/**
+ * Formats a remaining time in the largest whole unit, short enough for the toolbar badge: `45m`, `3h`, `2d`
+ */
+export function formatRemainingTime(ms: number): string {
+  const minutes = Math.max(1, Math.ceil(ms / MS_PER_MINUTE))
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h`
+  return `${Math.floor(hours / 24)}d`
+}
+
+/**
+ * Formats minutes after midnight as `HH:MM`, the value of a time input
+ */
+export function formatMinuteOfDay(minutes: number): string {
+  const hours = Math.floor(minutes / 60) % 24
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+/**
+ * Parses a time input value (`HH:MM`) into minutes after midnight, or null when it is not a time
+ */
+export function parseMinuteOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim())
+  if (!match) return null
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (hours > 23 || minutes > 59) return null
+  return hours * 60 + minutes
+}
@@ -0,0 +1,133 @@
+import type { Profile, UrlFilter } from '@/types'
+import { getUrlFiltersForTarget, isProfileEnabledForTabUrl, matchesUrlFilters } from '@/lib/urlFilters'
+import type { TemplateContext } from '@/lib/templates'
+import { getEnabledHeaders, resolveHeaderValues } from '@/lib/headers'
+
+export type SnippetFormat = 'curl' | 'fetch' | 'httpie'
+
+export const SNIPPET_FORMATS: SnippetFormat[] = ['curl', 'fetch', 'httpie']
+
+export interface SnippetHeader {
+  name: string
+  /** null when the profile removes the header */
+  value: string | null
+}
+
+function matchesRequestUrl(filters: UrlFilter[] | undefined, url: string): boolean {
+  // A snippet sends the request from the page URL itself, so both filter kinds apply
+  return matchesUrlFilters(getUrlFiltersForTarget(filters, 'tab'), url) &&
+    matchesUrlFilters(getUrlFiltersForTarget(filters, 'request'), url)
+}
+
+/**
+ * Returns whether the profile's resource types and methods include a snippet's request:
+ * a GET, which a page would send with `fetch` (resource type xmlhttprequest)
+ */
+export function isProfileAppliedToSnippetRequest(profile: Pick<Profile, 'resourceTypes' | 'requestMethods'>): boolean {
+  const { resourceTypes, requestMethods } = profile
+  return (!resourceTypes?.length || resourceTypes.includes('xmlhttprequest')) &&
+    (!requestMethods?.length || requestMethods.includes('get'))
+}
+
+/**
+ * Returns whether the profile's URL filters let it modify a request to `url`
+ */
+export function isProfileAppliedToUrl(profile: Profile, url: string): boolean {
+  return isProfileEnabledForTabUrl(profile, url) && matchesRequestUrl(profile.urlFilters, url)
+}
+
+/**
+ * Collects the request headers a profile sends to `url`. Headers are picked and their
+ * templates resolved the way the rules are built, so headers the rules skip are left out.
+ * Headers with the same name are merged the way the rules would change them:
+ * `set` replaces, `append` adds to the value and `remove` clears it.
+ */
+export function getSnippetHeaders(
+  profile: Profile,
+  url: string,
+  context: TemplateContext = {}
+): SnippetHeader[] {
+  if (!isProfileAppliedToSnippetRequest(profile) || !isProfileAppliedToUrl(profile, url)) return []
+
+  const headers = new Map<string, SnippetHeader>()
+  const applied = resolveHeaderValues(getEnabledHeaders(profile), { profile, ...context }).filter(header =>
+    header.type === 'request' && matchesRequestUrl(header.urlFilters, url)
+  )
+
+  for (const header of applied) {
+    const name = header.name.trim()
+    const key = name.toLowerCase()
+    const previous = headers.get(key)
+    const value = header.value
+
+    if (header.operation === 'remove') {
+      headers.set(key, { name, value: null })
+    } else if (header.operation === 'append' && previous?.value) {
+      headers.set(key, { name: previous.name, value: `${previous.value}, ${value}` })
+    } else {
+      headers.set(key, { name, value })
+    }
+  }
+
+  return [...headers.values()]
+}
+
+/** Quotes a value for POSIX shells */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+function buildCurl(url: string, headers: SnippetHeader[]): string {
+  // `Name:` stops curl from sending its own value; `Name;` sends an empty value
+  const args = headers.map(({ name, value }) =>
+    `-H ${shellQuote(value === null ? `${name}:` : value === '' ? `${name};` : `${name}: ${value}`)}`
+  )
+  return [`curl ${shellQuote(url)}`, ...args].join(' \\\n  ')
+}
+
+function buildHttpie(url: string, headers: SnippetHeader[]): string {
+  // HTTPie uses the same convention as curl for removed and empty headers
+  const args = headers.map(({ name, value }) =>
+    shellQuote(value === null ? `${name}:` : value === '' ? `${name};` : `${name}:${value}`)
+  )
+  return [`http GET ${shellQuote(url)}`, ...args].join(' \\\n  ')
+}
+
+function buildFetch(url: string, headers: SnippetHeader[]): string {
+  const sent = headers.filter((header): header is { name: string, value: string } => header.value !== null)
+  const removed = headers.filter(header => header.value === null)
+
+  const lines: string[] = []
+  // fetch cannot stop the browser from sending a header; list them so nothing is silently lost
+  for (const { name } of removed) {
+    lines.push(`// Removed by the profile, cannot be removed with fetch: ${name}`)
+  }
+  if (sent.length === 0) {
+    lines.push(`await fetch(${JSON.stringify(url)})`)
+    return lines.join('\n')
+  }
+
+  lines.push(`await fetch(${JSON.stringify(url)}, {`)
+  lines.push('  headers: {')
+  for (const { name, value } of sent) {
+    lines.push(`    ${JSON.stringify(name)}: ${JSON.stringify(value)},`)
+  }
+  lines.push('  },')
+  lines.push('})')
+  return lines.join('\n')
+}
+
+/**
+ * Builds a command or code snippet sending the given headers to `url`
+ */
+export function buildSnippet(format: SnippetFormat, url: string, headers: SnippetHeader[]): string {
+  switch (format) {
+    case 'fetch':
+      return buildFetch(url, headers)
+    case 'httpie':
+      return buildHttpie(url, headers)
+    case 'curl':
+    default:
+      return buildCurl(url, headers)
+  }
+}
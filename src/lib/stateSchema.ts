@@ -0,0 +1,423 @@
+import type {
+  AppState,
+  HeaderRule,
+  HeaderSuggestionsState,
+  Profile,
+  ProfileSchedule,
+  ProfileSubscription,
+  RequestMethod,
+  ResourceType,
+  ScheduleWindow,
+  TemplateVariable,
+  UrlFilter,
+  ValueSuggestion,
+} from '@/types'
+import { DEFAULT_PROFILE_COLORS, REQUEST_METHODS, RESOURCE_TYPES, generateId } from '@/types'
+import { parseColorInputToHex } from './color'
+
+/**
+ * Something in a stored state or import that did not have the expected shape.
+ * Missing optional fields get their defaults without an issue; values of the wrong
+ * type are `repaired` with a default, and entries that cannot be used are `dropped`.
+ */
+export interface SchemaIssue {
+  /** Where the value was, e.g. `profiles[0].headers[2].operation` */
+  path: string
+  action: 'repaired' | 'dropped'
+  message: string
+}
+
+export interface SchemaResult<T> {
+  value: T
+  issues: SchemaIssue[]
+}
+
+type Issues = SchemaIssue[]
+type Fields = Record<string, unknown>
+
+const HEADER_TYPES: readonly HeaderRule['type'][] = ['request', 'response']
+const HEADER_OPERATIONS: readonly HeaderRule['operation'][] = ['set', 'remove', 'append']
+const MATCH_TYPES: readonly UrlFilter['matchType'][] = [
+  'host_equals',
+  'host_ends_with',
+  'localhost_port',
+  'url_starts_with',
+  'path_starts_with',
+  'url_contains',
+  'dnr_url_filter',
+  'regex',
+]
+const FILTER_TYPES: readonly UrlFilter['type'][] = ['include', 'exclude']
+const FILTER_TARGETS: readonly NonNullable<UrlFilter['target']>[] = ['tab', 'request']
+const DARK_MODE_PREFERENCES: readonly AppState['darkModePreference'][] = ['system', 'light', 'dark']
+const LANGUAGE_PREFERENCES: readonly AppState['languagePreference'][] = ['auto', 'en', 'sv']
+const MINUTES_PER_DAY = 24 * 60
+
+function isRecord(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'missing'
+  if (typeof value === 'string') return JSON.stringify(value)
+  return Array.isArray(value) ? 'a list' : typeof value
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === 'string' && (values as readonly string[]).includes(value)
+}
+
+function repaired(issues: Issues, path: string, message: string): void {
+  issues.push({ path, action: 'repaired', message })
+}
+
+function dropped(issues: Issues, path: string, message: string): void {
+  issues.push({ path, action: 'dropped', message })
+}
+
+function readId(fields: Fields, path: string, issues: Issues): string {
+  if (typeof fields.id === 'string' && fields.id) return fields.id
+  repaired(issues, `${path}.id`, `ID is ${describe(fields.id)}; generated a new one`)
+  return generateId()
+}
+
+/** Strings stay; numbers and booleans become strings; anything else is `fallback` */
+function readText(fields: Fields, key: string, path: string, issues: Issues, fallback = ''): string {
+  const value = fields[key]
+  if (typeof value === 'string') return value
+  if (value === undefined) return fallback
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    repaired(issues, `${path}.${key}`, `${key} is a ${typeof value}; converted to text`)
+    return String(value)
+  }
+  repaired(issues, `${path}.${key}`, `${key} is ${describe(value)}; set to ${JSON.stringify(fallback)}`)
+  return fallback
+}
+
+function readBoolean(fields: Fields, key: string, path: string, issues: Issues, fallback: boolean): boolean {
+  const value = fields[key]
+  if (typeof value === 'boolean') return value
+  if (value !== undefined) {
+    repaired(issues, `${path}.${key}`, `${key} is ${describe(value)}; set to ${fallback}`)
+  }
+  return fallback
+}
+
+function readTime(fields: Fields, key: string, path: string, issues: Issues, now: number): number {
+  const value = fields[key]
+  if (typeof value === 'number' && Number.isFinite(value)) return value
+  if (value !== undefined) {
+    repaired(issues, `${path}.${key}`, `${key} is ${describe(value)}; set to the current time`)
+  }
+  return now
+}
+
+/** A list of entries read one by one; entries `read` returns null for are left out */
+function readList<T>(value: unknown, path: string, issues: Issues, read: (entry: unknown, path: string) => T | null): T[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    repaired(issues, path, `${describe(value)} instead of a list; emptied`)
+    return []
+  }
+  return value.flatMap((entry, index) => {
+    const result = read(entry, `${path}[${index}]`)
+    return result === null ? [] : [result]
+  })
+}
+
+/** Keeps the allowed values of an optional list and drops the rest */
+function readValues<T extends string>(value: unknown, allowed: readonly T[], path: string, issues: Issues): T[] | undefined {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value)) {
+    repaired(issues, path, `${describe(value)} instead of a list; removed`)
+    return undefined
+  }
+  const kept = value.filter((entry): entry is T => isOneOf(allowed, entry))
+  if (kept.length < value.length) {
+    const unknown = value.filter(entry => !isOneOf(allowed, entry)).map(describe).join(', ')
+    dropped(issues, path, `Unknown values left out: ${unknown}`)
+  }
+  return kept
+}
+
+function readUrlFilter(value: unknown, path: string, issues: Issues): UrlFilter | null {
+  if (!isRecord(value)) {
+    dropped(issues, path, `URL filter is ${describe(value)}`)
+    return null
+  }
+  if (value.matchType !== undefined && !isOneOf(MATCH_TYPES, value.matchType)) {
+    dropped(issues, path, `Match type ${describe(value.matchType)} is not supported`)
+    return null
+  }
+  if (value.type !== undefined && !isOneOf(FILTER_TYPES, value.type)) {
+    dropped(issues, path, `Filter type ${describe(value.type)} is neither include nor exclude`)
+    return null
+  }
+
+  const filter: UrlFilter = {
+    id: readId(value, path, issues),
+    enabled: readBoolean(value, 'enabled', path, issues, true),
+    matchType: value.matchType ?? 'dnr_url_filter',
+    pattern: readText(value, 'pattern', path, issues),
+    type: value.type ?? 'include',
+  }
+  if (isOneOf(FILTER_TARGETS, value.target)) {
+    filter.target = value.target
+  } else if (value.target !== undefined) {
+    repaired(issues, `${path}.target`, `Target ${describe(value.target)} is unknown; matches the tab URL`)
+  }
+  return filter
+}
+
+function readHeader(value: unknown, path: string, issues: Issues): HeaderRule | null {
+  if (!isRecord(value)) {
+    dropped(issues, path, `Header is ${describe(value)}`)
+    return null
+  }
+  if (typeof value.name !== 'string') {
+    dropped(issues, path, `Header name is ${describe(value.name)}`)
+    return null
+  }
+  // A wrong type or operation would change what the header does, so it is not guessed
+  if (value.type !== undefined && !isOneOf(HEADER_TYPES, value.type)) {
+    dropped(issues, path, `Header type ${describe(value.type)} is neither request nor response`)
+    return null
+  }
+  if (value.operation !== undefined && !isOneOf(HEADER_OPERATIONS, value.operation)) {
+    dropped(issues, path, `Operation ${describe(value.operation)} is not set, remove or append`)
+    return null
+  }
+
+  const header: HeaderRule = {
+    id: readId(value, path, issues),
+    enabled: readBoolean(value, 'enabled', path, issues, true),
+    name: value.name,
+    value: readText(value, 'value', path, issues),
+    comment: readText(value, 'comment', path, issues),
+    type: value.type ?? 'request',
+    operation: value.operation ?? 'set',
+  }
+  if (value.urlFilters !== undefined) {
+    header.urlFilters = readList(value.urlFilters, `${path}.urlFilters`, issues, (entry, p) => readUrlFilter(entry, p, issues))
+  }
+  if (typeof value.updatedAt === 'number' && Number.isFinite(value.updatedAt)) {
+    header.updatedAt = value.updatedAt
+  } else if (value.updatedAt !== undefined) {
+    repaired(issues, `${path}.updatedAt`, `updatedAt is ${describe(value.updatedAt)}; removed`)
+  }
+  return header
+}
+
+function readVariable(value: unknown, path: string, issues: Issues): TemplateVariable | null {
+  if (!isRecord(value) || typeof value.name !== 'string' || !value.name.trim()) {
+    dropped(issues, path, isRecord(value) ? `Variable name is ${describe(value.name)}` : `Variable is ${describe(value)}`)
+    return null
+  }
+  const variable: TemplateVariable = {
+    id: readId(value, path, issues),
+    name: value.name,
+    value: readText(value, 'value', path, issues),
+  }
+  if (readBoolean(value, 'secret', path, issues, false)) variable.secret = true
+  return variable
+}
+
+function isMinuteOfDay(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) < MINUTES_PER_DAY
+}
+
+function readScheduleWindow(value: unknown, path: string, issues: Issues): ScheduleWindow | null {
+  if (!isRecord(value) || !isMinuteOfDay(value.start) || !isMinuteOfDay(value.end) || !Array.isArray(value.days)) {
+    dropped(issues, path, 'Time window needs days, and a start and end between 0 and 1439 minutes')
+    return null
+  }
+  const days = value.days.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6)
+  if (days.length < value.days.length) {
+    repaired(issues, `${path}.days`, 'Days outside 0 (Sunday) to 6 (Saturday) left out')
+  }
+  return { id: readId(value, path, issues), days, start: value.start, end: value.end }
+}
+
+function readSchedule(value: unknown, path: string, issues: Issues): ProfileSchedule | undefined {
+  if (value === undefined) return undefined
+  if (!isRecord(value)) {
+    repaired(issues, path, `Schedule is ${describe(value)}; removed`)
+    return undefined
+  }
+  const schedule: ProfileSchedule = {}
+  if (typeof value.expiresAt === 'number' && Number.isFinite(value.expiresAt)) {
+    schedule.expiresAt = value.expiresAt
+  } else if (value.expiresAt !== undefined) {
+    repaired(issues, `${path}.expiresAt`, `End time is ${describe(value.expiresAt)}; removed`)
+  }
+  if (value.windows !== undefined) {
+    schedule.windows = readList(value.windows, `${path}.windows`, issues, (entry, p) => readScheduleWindow(entry, p, issues))
+  }
+  return schedule
+}
+
+function readProfile(value: unknown, path: string, issues: Issues, now: number): Profile | null {
+  if (!isRecord(value)) {
+    dropped(issues, path, `Profile is ${describe(value)}`)
+    return null
+  }
+
+  let name = readText(value, 'name', path, issues)
+  if (!name.trim()) {
+    name = 'Profile'
+    repaired(issues, `${path}.name`, 'Profile has no name; named "Profile"')
+  }
+  let color = DEFAULT_PROFILE_COLORS[0] ?? '#7c3aed'
+  if (typeof value.color === 'string' && parseColorInputToHex(value.color)) {
+    color = value.color
+  } else if (value.color !== undefined) {
+    repaired(issues, `${path}.color`, `Color ${describe(value.color)} is not a color; set to ${color}`)
+  }
+
+  const profile: Profile = {
+    id: readId(value, path, issues),
+    name,
+    color,
+    headers: readList(value.headers, `${path}.headers`, issues, (entry, p) => readHeader(entry, p, issues)),
+    urlFilters: readList(value.urlFilters, `${path}.urlFilters`, issues, (entry, p) => readUrlFilter(entry, p, issues)),
+    createdAt: readTime(value, 'createdAt', path, issues, now),
+    updatedAt: readTime(value, 'updatedAt', path, issues, now),
+  }
+
+  if (value.enabled !== undefined) profile.enabled = readBoolean(value, 'enabled', path, issues, false)
+  const resourceTypes = readValues<ResourceType>(value.resourceTypes, RESOURCE_TYPES, `${path}.resourceTypes`, issues)
+  if (resourceTypes) profile.resourceTypes = resourceTypes
+  const requestMethods = readValues<RequestMethod>(value.requestMethods, REQUEST_METHODS, `${path}.requestMethods`, issues)
+  if (requestMethods) profile.requestMethods = requestMethods
+  if (value.variables !== undefined) {
+    profile.variables = readList(value.variables, `${path}.variables`, issues, (entry, p) => readVariable(entry, p, issues))
+  }
+  const schedule = readSchedule(value.schedule, `${path}.schedule`, issues)
+  if (schedule) profile.schedule = schedule
+  if (typeof value.subscriptionId === 'string' && value.subscriptionId) {
+    profile.subscriptionId = value.subscriptionId
+  } else if (value.subscriptionId !== undefined) {
+    repaired(issues, `${path}.subscriptionId`, `Subscription ID is ${describe(value.subscriptionId)}; removed`)
+  }
+  return profile
+}
+
+function readSuggestion(value: unknown, path: string, issues: Issues): ValueSuggestion | null {
+  if (!isRecord(value) || typeof value.value !== 'string') {
+    dropped(issues, path, `Suggested value is ${describe(isRecord(value) ? value.value : value)}`)
+    return null
+  }
+  return { value: value.value, comment: readText(value, 'comment', path, issues) }
+}
+
+function readNames(value: unknown, path: string, issues: Issues): string[] {
+  return readList(value, path, issues, (entry, p) => {
+    if (typeof entry === 'string') return entry
+    dropped(issues, p, `Header name is ${describe(entry)}`)
+    return null
+  })
+}
+
+/**
+ * Checks a profile field by field, with its headers, URL filters, variables and schedule.
+ * Returns null for values that are not a profile at all.
+ */
+export function validateProfile(value: unknown, path = 'profile', now = Date.now()): SchemaResult<Profile | null> {
+  const issues: Issues = []
+  return { value: readProfile(value, path, issues, now), issues }
+}
+
+export function validateProfiles(value: unknown, path = 'profiles', now = Date.now()): SchemaResult<Profile[]> {
+  const issues: Issues = []
+  const profiles = readList(value, path, issues, (entry, p) => readProfile(entry, p, issues, now))
+  return { value: profiles, issues }
+}
+
+export function validateVariables(value: unknown, path = 'variables'): SchemaResult<TemplateVariable[]> {
+  const issues: Issues = []
+  const variables = readList(value, path, issues, (entry, p) => readVariable(entry, p, issues))
+  return { value: variables, issues }
+}
+
+/**
+ * Checks the saved header name and value suggestions. Returns undefined when there are none.
+ */
+export function validateHeaderSuggestions(
+  value: unknown,
+  path = 'headerSuggestions'
+): SchemaResult<HeaderSuggestionsState | undefined> {
+  const issues: Issues = []
+  if (value === undefined) return { value: undefined, issues }
+  if (!isRecord(value)) {
+    repaired(issues, path, `Suggestions are ${describe(value)}; removed`)
+    return { value: undefined, issues }
+  }
+
+  const valuesByName: Record<string, ValueSuggestion[]> = {}
+  if (isRecord(value.valuesByName)) {
+    for (const [name, values] of Object.entries(value.valuesByName)) {
+      valuesByName[name] = readList(values, `${path}.valuesByName.${name}`, issues, (entry, p) => readSuggestion(entry, p, issues))
+    }
+  } else if (value.valuesByName !== undefined) {
+    repaired(issues, `${path}.valuesByName`, `Suggested values are ${describe(value.valuesByName)}; emptied`)
+  }
+
+  const suggestions: HeaderSuggestionsState = { names: readNames(value.names, `${path}.names`, issues), valuesByName }
+  if (value.hiddenNames !== undefined) suggestions.hiddenNames = readNames(value.hiddenNames, `${path}.hiddenNames`, issues)
+  return { value: suggestions, issues }
+}
+
+function readSubscription(value: unknown, path: string, issues: Issues, now: number): ProfileSubscription | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id || typeof value.url !== 'string') {
+    dropped(issues, path, 'Subscription needs an ID and a URL')
+    return null
+  }
+  return { id: value.id, url: value.url, createdAt: readTime(value, 'createdAt', path, issues, now) }
+}
+
+/**
+ * Checks a migrated state before it is loaded. The active profile falls back to none
+ * when it no longer exists, and unknown preferences to their defaults.
+ */
+export function validateState(state: Partial<AppState>, now = Date.now()): SchemaResult<AppState> {
+  const fields = state as Fields
+  const profiles = validateProfiles(fields.profiles, 'profiles', now)
+  const variables = validateVariables(fields.variables)
+  const headerSuggestions = validateHeaderSuggestions(fields.headerSuggestions)
+  const issues: Issues = [...profiles.issues, ...variables.issues, ...headerSuggestions.issues]
+
+  let activeProfileId = typeof fields.activeProfileId === 'string' ? fields.activeProfileId : null
+  if (activeProfileId && !profiles.value.some(p => p.id === activeProfileId)) {
+    repaired(issues, 'activeProfileId', `Profile ${JSON.stringify(activeProfileId)} does not exist; none selected`)
+    activeProfileId = null
+  }
+
+  const validated: AppState = {
+    ...state,
+    profiles: profiles.value,
+    activeProfileId,
+    darkModePreference: isOneOf(DARK_MODE_PREFERENCES, fields.darkModePreference) ? fields.darkModePreference : 'system',
+    languagePreference: isOneOf(LANGUAGE_PREFERENCES, fields.languagePreference) ? fields.languagePreference : 'auto',
+    variables: variables.value,
+    subscriptions: readList(fields.subscriptions, 'subscriptions', issues, (entry, p) => readSubscription(entry, p, issues, now)),
+  }
+  if (fields.darkModePreference !== undefined && validated.darkModePreference !== fields.darkModePreference) {
+    repaired(issues, 'darkModePreference', `${describe(fields.darkModePreference)} is not a theme; set to system`)
+  }
+  if (fields.languagePreference !== undefined && validated.languagePreference !== fields.languagePreference) {
+    repaired(issues, 'languagePreference', `${describe(fields.languagePreference)} is not a language; set to auto`)
+  }
+  if (headerSuggestions.value) {
+    validated.headerSuggestions = headerSuggestions.value
+  } else {
+    delete validated.headerSuggestions
+  }
+  return { value: validated, issues }
+}
+
+/**
+ * One line per issue, as shown among import warnings
+ */
+export function formatSchemaIssue(issue: SchemaIssue): string {
+  return `${issue.path}: ${issue.message}${issue.action === 'dropped' ? ' (left out)' : ''}`
+}
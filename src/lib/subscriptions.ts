@@ -0,0 +1,199 @@
+import type { AppState, HeaderRule, Profile, ProfileSubscription, SubscriptionError, SubscriptionStatus } from '@/types'
+import { parseImportData } from './importers'
+import { isSameJson } from './json'
+
+export const SUBSCRIPTION_ALARM = 'openheaders-refresh-subscriptions'
+export const SUBSCRIPTION_REFRESH_MINUTES = 60
+/** Statuses by subscription ID (`chrome.storage.local`) */
+export const SUBSCRIPTION_STATUS_KEY = 'openheaders_subscription_status'
+
+export type SubscriptionFetchResult =
+  | { profiles: Profile[] }
+  | { error: SubscriptionError, message: string }
+
+export function isSubscribedProfile(profile: Pick<Profile, 'subscriptionId'> | null | undefined): boolean {
+  return !!profile?.subscriptionId
+}
+
+/**
+ * Whether a subscription URL can be fetched: http or https only
+ */
+export function isValidSubscriptionUrl(value: string): boolean {
+  try {
+    const url = new URL(value.trim())
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Reads the profiles of a native export. Other formats, including encrypted exports, are rejected,
+ * since a subscription has to be readable without a passphrase and keep its profile names.
+ */
+export function parseSubscriptionProfiles(json: string): SubscriptionFetchResult {
+  try {
+    const parsed = parseImportData(JSON.parse(json))
+    if (parsed.format !== 'openheaders') {
+      return { error: 'invalid_format', message: `Expected an OpenHeaders export, got ${parsed.format}` }
+    }
+    return { profiles: parsed.profiles }
+  } catch (error) {
+    return { error: 'invalid_format', message: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+/**
+ * Downloads and reads a subscription. Never throws; failures are returned as errors.
+ */
+export async function fetchSubscriptionProfiles(url: string, fetchImpl: typeof fetch = fetch): Promise<SubscriptionFetchResult> {
+  let text: string
+  try {
+    const response = await fetchImpl(url, { cache: 'no-store', credentials: 'omit' })
+    if (!response.ok) {
+      return { error: 'fetch_failed', message: `HTTP ${response.status}` }
+    }
+    text = await response.text()
+  } catch (error) {
+    return { error: 'fetch_failed', message: error instanceof Error ? error.message : String(error) }
+  }
+  return parseSubscriptionProfiles(text)
+}
+
+/**
+ * The status after a pull. A failed pull keeps the time of the last successful one.
+ */
+export function getSubscriptionStatus(
+  result: SubscriptionFetchResult,
+  previous: SubscriptionStatus | undefined,
+  now = Date.now()
+): SubscriptionStatus {
+  if ('error' in result) {
+    return {
+      lastSyncedAt: previous?.lastSyncedAt ?? null,
+      lastCheckedAt: now,
+      error: result.error,
+      message: result.message,
+      ...(previous?.profileCount !== undefined ? { profileCount: previous.profileCount } : {}),
+    }
+  }
+  return { lastSyncedAt: now, lastCheckedAt: now, error: null, profileCount: result.profiles.length }
+}
+
+function normalizeProfileName(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+function withStableHeaderIds(header: HeaderRule, localHeader: HeaderRule | undefined): HeaderRule {
+  if (!localHeader) return header
+  return {
+    ...header,
+    id: localHeader.id,
+    ...(header.urlFilters
+      ? { urlFilters: header.urlFilters.map((f, i) => ({ ...f, id: localHeader.urlFilters?.[i]?.id ?? f.id })) }
+      : {}),
+  }
+}
+
+/**
+ * Turns a pulled profile into the stored one. An existing copy keeps its IDs, so nothing
+ * changes when the file did not, along with what stays on this device: whether it is enabled
+ * and the values of secret variables, which exports leave empty. New profiles start disabled.
+ */
+function toSubscribedProfile(remote: Profile, subscriptionId: string, local: Profile | undefined, now: number): Profile {
+  if (!local) {
+    return { ...remote, subscriptionId, enabled: false, createdAt: now, updatedAt: now }
+  }
+
+  const profile: Profile = {
+    ...remote,
+    id: local.id,
+    subscriptionId,
+    enabled: local.enabled ?? false,
+    headers: remote.headers.map((header, i) => withStableHeaderIds(header, local.headers[i])),
+    urlFilters: remote.urlFilters.map((filter, i) => ({ ...filter, id: local.urlFilters[i]?.id ?? filter.id })),
+    ...(remote.variables
+      ? {
+          variables: remote.variables.map((variable) => {
+            const localVariable = local.variables?.find(v => v.name === variable.name)
+            if (!localVariable) return variable
+            return { ...variable, id: localVariable.id, ...(variable.secret ? { value: localVariable.value } : {}) }
+          }),
+        }
+      : {}),
+    createdAt: local.createdAt,
+    updatedAt: local.updatedAt,
+  }
+  return isSameJson(profile, local) ? local : { ...profile, updatedAt: now }
+}
+
+/**
+ * Replaces a subscription's profiles with the pulled ones, matched by name. They stay
+ * where the subscription's first profile was; profiles no longer in the file are removed.
+ * Returns null when nothing changed.
+ */
+export function applySubscriptionProfiles(
+  state: AppState,
+  subscription: ProfileSubscription,
+  remoteProfiles: Profile[],
+  now = Date.now()
+): AppState | null {
+  const localProfiles = state.profiles.filter(p => p.subscriptionId === subscription.id)
+  const unmatched = [...localProfiles]
+  const pulled = remoteProfiles.map((remote) => {
+    const index = unmatched.findIndex(p => normalizeProfileName(p.name) === normalizeProfileName(remote.name))
+    const local = index === -1 ? undefined : unmatched.splice(index, 1)[0]
+    return toSubscribedProfile(remote, subscription.id, local, now)
+  })
+
+  if (pulled.length === localProfiles.length && pulled.every((profile, i) => profile === localProfiles[i])) {
+    return null
+  }
+
+  const firstIndex = state.profiles.findIndex(p => p.subscriptionId === subscription.id)
+  const profiles = state.profiles.filter(p => p.subscriptionId !== subscription.id)
+  profiles.splice(firstIndex === -1 ? profiles.length : firstIndex, 0, ...pulled)
+  const activeProfileId = profiles.some(p => p.id === state.activeProfileId)
+    ? state.activeProfileId
+    : profiles[0]?.id ?? null
+
+  return { ...state, profiles, activeProfileId }
+}
+
+/**
+ * Reads subscription statuses and calls `callback` now and whenever they change.
+ * Returns a function that stops watching. Does nothing outside the extension.
+ */
+export function watchSubscriptionStatuses(
+  callback: (statuses: Record<string, SubscriptionStatus>) => void
+): () => void {
+  if (typeof chrome === 'undefined' || !chrome.storage?.local || !chrome.storage.onChanged) return () => {}
+
+  chrome.storage.local.get(SUBSCRIPTION_STATUS_KEY).then((result) => {
+    callback((result[SUBSCRIPTION_STATUS_KEY] as Record<string, SubscriptionStatus> | undefined) ?? {})
+  }).catch((error) => {
+    console.warn('Failed to read subscription status:', error)
+  })
+
+  const listener = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName !== 'local' || !changes[SUBSCRIPTION_STATUS_KEY]) return
+    callback((changes[SUBSCRIPTION_STATUS_KEY].newValue as Record<string, SubscriptionStatus> | undefined) ?? {})
+  }
+  chrome.storage.onChanged.addListener(listener)
+  return () => chrome.storage.onChanged.removeListener(listener)
+}
+
+/**
+ * Asks the background script to pull every subscription now
+ */
+export async function requestSubscriptionRefresh(): Promise<boolean> {
+  if (typeof chrome === 'undefined' || !chrome.runtime?.sendMessage) return false
+
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'REFRESH_SUBSCRIPTIONS' })
+    return !!response?.ok
+  } catch (error) {
+    console.error('Failed to refresh subscriptions:', error)
+    return false
+  }
+}
@@ -0,0 +1,381 @@
+import type { AppState, HeaderRule, Profile, SyncConflict, SyncPayload, SyncStatus, TemplateVariable } from '@/types'
+import { redactSecretVariables } from './templates'
+import { isSameJson } from './json'
+
+/** Describes the chunks in `chrome.storage.sync`; written after them, so readers never see a half-written set */
+export const SYNC_MANIFEST_KEY = 'openheaders_sync'
+const SYNC_CHUNK_KEY_PREFIX = 'openheaders_sync_'
+
+/** The payload this device and the synced one last agreed on (`chrome.storage.local`) */
+export const SYNC_BASE_KEY = 'openheaders_sync_base'
+export const SYNC_CONFLICTS_KEY = 'openheaders_sync_conflicts'
+export const SYNC_STATUS_KEY = 'openheaders_sync_status'
+
+// chrome.storage.sync quotas: QUOTA_BYTES_PER_ITEM and QUOTA_BYTES. Keys count towards both.
+const SYNC_QUOTA_BYTES_PER_ITEM = 8192
+const SYNC_QUOTA_BYTES = 102400
+const SYNC_CHUNK_BYTES = SYNC_QUOTA_BYTES_PER_ITEM - 64
+
+const SYNC_VERSION = 1
+
+interface SyncManifest {
+  version: number
+  chunkCount: number
+  updatedAt: number
+}
+
+/** The promise-based part of `chrome.storage.StorageArea` that syncing uses */
+export interface SyncStorageArea {
+  get(keys: string | string[]): Promise<{ [key: string]: unknown }>
+  set(items: { [key: string]: unknown }): Promise<void>
+  remove(keys: string | string[]): Promise<void>
+}
+
+export type SyncWriteResult = 'written' | 'unchanged' | 'too_large'
+
+export interface SyncMergeResult {
+  payload: SyncPayload
+  conflicts: SyncConflict[]
+}
+
+function getChunkKey(index: number): string {
+  return `${SYNC_CHUNK_KEY_PREFIX}${index}`
+}
+
+/**
+ * What a profile looks like in sync: no `enabled` flag and no secret values
+ */
+function toSyncedProfile(profile: Profile): Profile {
+  const { enabled: _enabled, ...synced } = profile
+  return {
+    ...synced,
+    ...(profile.variables ? { variables: redactSecretVariables(profile.variables) } : {}),
+  }
+}
+
+/**
+ * Builds the payload to sync from the app state. Subscribed profiles are left out:
+ * each device pulls them from the subscription itself.
+ */
+export function toSyncPayload(state: Pick<AppState, 'profiles' | 'variables'>): SyncPayload {
+  return {
+    profiles: state.profiles.filter(p => !p.subscriptionId).map(toSyncedProfile),
+    variables: redactSecretVariables(state.variables ?? []),
+  }
+}
+
+export function isSameSyncPayload(a: SyncPayload, b: SyncPayload): boolean {
+  return isSameJson(a, b)
+}
+
+/**
+ * Puts this device's secret values back into synced variables, which arrive without them
+ */
+export function restoreLocalSecrets(
+  variables: TemplateVariable[] | undefined,
+  localVariables: TemplateVariable[] | undefined
+): TemplateVariable[] | undefined {
+  if (!variables) return variables
+  return variables.map(variable => {
+    if (!variable.secret) return variable
+    const local = localVariables?.find(v => v.id === variable.id)
+    return { ...variable, value: local?.value ?? '' }
+  })
+}
+
+/**
+ * Restores what stays on this device in a synced profile: its secrets and whether it is enabled.
+ * Profiles new to this device start disabled.
+ */
+export function toLocalProfile(profile: Profile, localProfile: Profile | undefined): Profile {
+  const variables = restoreLocalSecrets(profile.variables, localProfile?.variables)
+  return {
+    ...profile,
+    enabled: localProfile?.enabled ?? false,
+    ...(variables ? { variables } : {}),
+  }
+}
+
+/**
+ * Applies a merged payload to the app state, keeping everything that does not sync.
+ * Subscribed profiles stay at their positions.
+ */
+export function applySyncPayload(state: AppState, payload: SyncPayload): AppState {
+  const localProfiles = new Map(state.profiles.map(p => [p.id, p]))
+  const profiles = payload.profiles.map(profile => toLocalProfile(profile, localProfiles.get(profile.id)))
+  state.profiles.forEach((profile, index) => {
+    if (profile.subscriptionId) profiles.splice(index, 0, profile)
+  })
+  const activeProfileId = profiles.some(p => p.id === state.activeProfileId)
+    ? state.activeProfileId
+    : profiles[0]?.id ?? null
+
+  return {
+    ...state,
+    profiles,
+    activeProfileId,
+    variables: restoreLocalSecrets(payload.variables, state.variables) ?? [],
+  }
+}
+
+/**
+ * Three-way merge of two lists by ID against the version both sides last agreed on.
+ * An item changed on one side takes that side's version; an item deleted on one side is
+ * dropped unless the other side edited it since. Items changed on both sides go to `resolve`.
+ * Keeps local order, followed by items only the remote side has.
+ */
+function mergeById<T extends { id: string }>(
+  local: T[],
+  remote: T[],
+  base: T[] | null,
+  resolve: (local: T, remote: T, base: T | undefined) => T
+): T[] {
+  const remoteById = new Map(remote.map(item => [item.id, item]))
+  const baseById = new Map((base ?? []).map(item => [item.id, item]))
+  const localIds = new Set(local.map(item => item.id))
+  const merged: T[] = []
+
+  for (const localItem of local) {
+    const remoteItem = remoteById.get(localItem.id)
+    const baseItem = baseById.get(localItem.id)
+
+    if (!remoteItem) {
+      // Deleted remotely, unless it was only added or edited here
+      if (!baseItem || !isSameJson(localItem, baseItem)) merged.push(localItem)
+      continue
+    }
+
+    if (isSameJson(localItem, remoteItem)) {
+      merged.push(localItem)
+    } else if (baseItem && isSameJson(remoteItem, baseItem)) {
+      merged.push(localItem)
+    } else if (baseItem && isSameJson(localItem, baseItem)) {
+      merged.push(remoteItem)
+    } else {
+      merged.push(resolve(localItem, remoteItem, baseItem))
+    }
+  }
+
+  for (const remoteItem of remote) {
+    if (localIds.has(remoteItem.id)) continue
+    const baseItem = baseById.get(remoteItem.id)
+    // Deleted here, unless it was only added or edited remotely
+    if (!baseItem || !isSameJson(remoteItem, baseItem)) merged.push(remoteItem)
+  }
+
+  return merged
+}
+
+function isNewer(a: { updatedAt?: number }, b: { updatedAt?: number }): boolean {
+  return (a.updatedAt ?? 0) > (b.updatedAt ?? 0)
+}
+
+/**
+ * Merges a profile edited on both sides: headers one by one, taking the later edit when both
+ * changed the same header, and everything else from the profile edited last.
+ */
+function mergeProfile(local: Profile, remote: Profile, base: Profile | undefined): Profile {
+  const remoteIsNewer = isNewer(remote, local)
+  const newer = remoteIsNewer ? remote : local
+  const headers = mergeById<HeaderRule>(local.headers, remote.headers, base?.headers ?? null, (localHeader, remoteHeader) => {
+    if (isNewer(localHeader, remoteHeader)) return localHeader
+    if (isNewer(remoteHeader, localHeader)) return remoteHeader
+    return remoteIsNewer ? remoteHeader : localHeader
+  })
+
+  return {
+    ...newer,
+    headers,
+    updatedAt: Math.max(local.updatedAt, remote.updatedAt),
+  }
+}
+
+/**
+ * Merges this device's payload with the synced one. `base` is the payload both last agreed
+ * on; without it (the first sync) every difference counts as an edit on both sides.
+ * Profiles edited on both sides are merged and reported as conflicts, so the user can
+ * pick one side instead.
+ */
+export function mergeSyncPayloads(
+  local: SyncPayload,
+  remote: SyncPayload,
+  base: SyncPayload | null,
+  now = Date.now()
+): SyncMergeResult {
+  const conflicts: SyncConflict[] = []
+
+  const profiles = mergeById(local.profiles, remote.profiles, base?.profiles ?? null, (localProfile, remoteProfile, baseProfile) => {
+    const merged = mergeProfile(localProfile, remoteProfile, baseProfile)
+    conflicts.push({
+      profileId: merged.id,
+      profileName: merged.name,
+      local: localProfile,
+      remote: remoteProfile,
+      detectedAt: now,
+    })
+    return merged
+  })
+
+  // Variables have no edit times; this device's edit wins
+  const variables = mergeById(local.variables, remote.variables, base?.variables ?? null, localVariable => localVariable)
+
+  return { payload: { profiles, variables }, conflicts }
+}
+
+/**
+ * Bytes a string takes inside a JSON string literal, as `chrome.storage.sync` counts it
+ */
+function getJsonCharBytes(char: string): number {
+  const code = char.codePointAt(0) ?? 0
+  if (code === 0x22 || code === 0x5c) return 2
+  if (code < 0x20) return JSON.stringify(char).length - 2
+  if (code < 0x80) return 1
+  if (code < 0x800) return 2
+  // Lone surrogates are escaped as \uXXXX
+  if (code >= 0xd800 && code <= 0xdfff) return 6
+  return code < 0x10000 ? 3 : 4
+}
+
+/**
+ * Bytes an item takes against the `chrome.storage.sync` quotas: its key plus its value as UTF-8 JSON
+ */
+function getSyncItemBytes(key: string, value: unknown): number {
+  return key.length + new TextEncoder().encode(JSON.stringify(value)).length
+}
+
+/**
+ * Splits serialized data into pieces that each fit in one `chrome.storage.sync` item
+ */
+export function chunkSyncData(json: string, maxBytes = SYNC_CHUNK_BYTES): string[] {
+  const chunks: string[] = []
+  let current = ''
+  let currentBytes = 0
+
+  // Iterating by code point keeps surrogate pairs together
+  for (const char of json) {
+    const bytes = getJsonCharBytes(char)
+    if (currentBytes + bytes > maxBytes && current) {
+      chunks.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += bytes
+  }
+  if (current) chunks.push(current)
+  return chunks
+}
+
+/**
+ * Reads the synced payload. Returns null when nothing was synced yet, `incomplete`
+ * while another device is halfway through writing it, and `newer_version` when a
+ * newer version of the extension wrote it in a format this one cannot read.
+ */
+export async function readSyncPayload(area: SyncStorageArea): Promise<SyncPayload | null | 'incomplete' | 'newer_version'> {
+  const manifestResult = await area.get(SYNC_MANIFEST_KEY)
+  const manifest = manifestResult[SYNC_MANIFEST_KEY] as SyncManifest | undefined
+  if (!manifest) return null
+  if (typeof manifest.version !== 'number' || manifest.version > SYNC_VERSION) return 'newer_version'
+
+  const keys = Array.from({ length: manifest.chunkCount }, (_, index) => getChunkKey(index))
+  const chunks = keys.length > 0 ? await area.get(keys) : {}
+  if (keys.some(key => typeof chunks[key] !== 'string')) return 'incomplete'
+
+  try {
+    const payload = JSON.parse(keys.map(key => chunks[key]).join('')) as SyncPayload
+    return { profiles: payload.profiles ?? [], variables: payload.variables ?? [] }
+  } catch {
+    // Chunks from two different writes
+    return 'incomplete'
+  }
+}
+
+/**
+ * Writes the payload in chunks, skipping chunks that did not change to stay under
+ * the write rate limits. Chunks left over from a larger payload are removed.
+ */
+export async function writeSyncPayload(area: SyncStorageArea, payload: SyncPayload, now = Date.now()): Promise<SyncWriteResult> {
+  const chunks = chunkSyncData(JSON.stringify(payload))
+  const manifest: SyncManifest = { version: SYNC_VERSION, chunkCount: chunks.length, updatedAt: now }
+
+  const totalBytes = chunks.reduce((sum, chunk, index) => sum + getSyncItemBytes(getChunkKey(index), chunk), 0)
+    + getSyncItemBytes(SYNC_MANIFEST_KEY, manifest)
+  if (totalBytes > SYNC_QUOTA_BYTES) return 'too_large'
+
+  const manifestResult = await area.get(SYNC_MANIFEST_KEY)
+  const previous = manifestResult[SYNC_MANIFEST_KEY] as SyncManifest | undefined
+  const previousKeys = Array.from({ length: previous?.chunkCount ?? 0 }, (_, index) => getChunkKey(index))
+  const existing = previousKeys.length > 0 ? await area.get(previousKeys) : {}
+
+  const changed: { [key: string]: string } = {}
+  chunks.forEach((chunk, index) => {
+    const key = getChunkKey(index)
+    if (existing[key] !== chunk) changed[key] = chunk
+  })
+  if (Object.keys(changed).length === 0 && previous?.chunkCount === chunks.length) return 'unchanged'
+
+  await area.set(changed)
+  await area.set({ [SYNC_MANIFEST_KEY]: manifest })
+
+  const staleKeys = previousKeys.slice(chunks.length)
+  if (staleKeys.length > 0) await area.remove(staleKeys)
+  return 'written'
+}
+
+/**
+ * Whether a `chrome.storage.sync` change touches the synced payload
+ */
+export function isSyncPayloadChange(changes: { [key: string]: unknown }): boolean {
+  return Object.keys(changes).some(key => key.startsWith(SYNC_CHUNK_KEY_PREFIX) || key === SYNC_MANIFEST_KEY)
+}
+
+/**
+ * Adds newly found conflicts, replacing older ones for the same profile
+ */
+export function addSyncConflicts(existing: SyncConflict[], conflicts: SyncConflict[]): SyncConflict[] {
+  const ids = new Set(conflicts.map(c => c.profileId))
+  return [...existing.filter(c => !ids.has(c.profileId)), ...conflicts]
+}
+
+/**
+ * Reads sync conflicts and status and calls `callback` now and whenever they change.
+ * Returns a function that stops watching. Does nothing outside the extension.
+ */
+export function watchSyncState(callback: (conflicts: SyncConflict[], status: SyncStatus | null) => void): () => void {
+  if (typeof chrome === 'undefined' || !chrome.storage?.local) return () => {}
+
+  let conflicts: SyncConflict[] = []
+  let status: SyncStatus | null = null
+
+  chrome.storage.local.get([SYNC_CONFLICTS_KEY, SYNC_STATUS_KEY]).then(result => {
+    conflicts = (result[SYNC_CONFLICTS_KEY] as SyncConflict[] | undefined) ?? []
+    status = (result[SYNC_STATUS_KEY] as SyncStatus | undefined) ?? null
+    callback(conflicts, status)
+  }).catch(error => {
+    console.error('Failed to load the sync state:', error)
+  })
+
+  const listener = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName !== 'local' || (!changes[SYNC_CONFLICTS_KEY] && !changes[SYNC_STATUS_KEY])) return
+    if (changes[SYNC_CONFLICTS_KEY]) conflicts = (changes[SYNC_CONFLICTS_KEY].newValue as SyncConflict[] | undefined) ?? []
+    if (changes[SYNC_STATUS_KEY]) status = (changes[SYNC_STATUS_KEY].newValue as SyncStatus | undefined) ?? null
+    callback(conflicts, status)
+  }
+  chrome.storage.onChanged.addListener(listener)
+  return () => chrome.storage.onChanged.removeListener(listener)
+}
+
+/**
+ * Removes a conflict once the user has picked a version. Does nothing outside the extension.
+ */
+export async function dismissSyncConflict(profileId: string): Promise<void> {
+  if (typeof chrome === 'undefined' || !chrome.storage?.local) return
+
+  try {
+    const result = await chrome.storage.local.get(SYNC_CONFLICTS_KEY)
+    const conflicts = (result[SYNC_CONFLICTS_KEY] as SyncConflict[] | undefined) ?? []
+    await chrome.storage.local.set({ [SYNC_CONFLICTS_KEY]: conflicts.filter(c => c.profileId !== profileId) })
+  } catch (error) {
+    console.error('Failed to dismiss the sync conflict:', error)
+  }
+}
@@ -0,0 +1,121 @@
+import type { Profile, TemplateVariable } from '@/types'
+
+/** Matches `{{name}}`, `{{ env.NAME }}`, `{{profile.name}}` and similar placeholders */
+const TEMPLATE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g
+
+/** Placeholders whose value changes over time, so rules using them must be rebuilt periodically */
+const DYNAMIC_PLACEHOLDERS = new Set(['uuid', 'timestamp', 'timestamp.s', 'now.iso'])
+
+/** Shown instead of secret variable values */
+export const SECRET_MASK = '••••••'
+
+export interface TemplateContext {
+  /** The profile whose headers are resolved; its variables override global ones */
+  profile?: Pick<Profile, 'id' | 'name' | 'variables'> | null
+  /** Global variables */
+  variables?: TemplateVariable[]
+  now?: number
+  uuid?: () => string
+  /** Replace secret variable values with {@link SECRET_MASK}, for display */
+  maskSecrets?: boolean
+}
+
+function createUuid(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  // Fallback for environments without crypto.randomUUID
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0
+    const v = c === 'x' ? r : (r & 0x3) | 0x8
+    return v.toString(16)
+  })
+}
+
+/**
+ * Returns the placeholder names used in a value, in order of appearance
+ */
+export function getTemplatePlaceholders(value: string): string[] {
+  return [...value.matchAll(TEMPLATE_PATTERN)].map(match => match[1] ?? '')
+}
+
+export function hasTemplate(value: string): boolean {
+  return getTemplatePlaceholders(value).length > 0
+}
+
+/**
+ * Whether a value uses placeholders that change over time (`{{uuid}}`, `{{timestamp}}`, …)
+ */
+export function hasDynamicTemplate(value: string): boolean {
+  return getTemplatePlaceholders(value).some(name => DYNAMIC_PLACEHOLDERS.has(name))
+}
+
+/**
+ * Looks up a user-defined variable by name. `env.NAME` and `NAME` refer to the same variable.
+ */
+export function findVariable(variables: TemplateVariable[] | undefined, name: string): TemplateVariable | undefined {
+  const key = name.startsWith('env.') ? name.slice(4) : name
+  if (!key) return undefined
+  return (variables ?? []).find(v => v.name.trim() === key)
+}
+
+/**
+ * Looks up a variable for a profile: profile variables first, then global ones
+ */
+export function findScopedVariable(
+  context: Pick<TemplateContext, 'profile' | 'variables'>,
+  name: string
+): TemplateVariable | undefined {
+  return findVariable(context.profile?.variables, name) ?? findVariable(context.variables, name)
+}
+
+export function hasSecretVariables(variables: TemplateVariable[] | undefined): boolean {
+  return (variables ?? []).some(v => v.secret)
+}
+
+/**
+ * Returns a copy of the variables with secret values cleared, unless they should be kept
+ */
+export function redactSecretVariables(variables: TemplateVariable[], includeSecrets = false): TemplateVariable[] {
+  return variables.map(v => (v.secret && !includeSecrets ? { ...v, value: '' } : { ...v }))
+}
+
+function resolvePlaceholder(name: string, context: TemplateContext): string | undefined {
+  const now = context.now ?? Date.now()
+
+  switch (name) {
+    case 'uuid':
+      return (context.uuid ?? createUuid)()
+    case 'timestamp':
+      return String(now)
+    case 'timestamp.s':
+      return String(Math.floor(now / 1000))
+    case 'now.iso':
+      return new Date(now).toISOString()
+    case 'profile.name':
+      return context.profile?.name
+    case 'profile.id':
+      return context.profile?.id
+    default: {
+      const variable = findScopedVariable(context, name)
+      if (variable?.secret && context.maskSecrets) return SECRET_MASK
+      return variable?.value
+    }
+  }
+}
+
+/**
+ * Replaces placeholders in a header value. Unknown placeholders are left untouched
+ * so a typo shows up in the request instead of silently sending an empty value.
+ */
+export function resolveTemplate(value: string, context: TemplateContext = {}): string {
+  if (!value.includes('{{')) return value
+  return value.replace(TEMPLATE_PATTERN, (match, name: string) => resolvePlaceholder(name, context) ?? match)
+}
+
+/**
+ * Returns the placeholders in a value that cannot be resolved
+ */
+export function getUnresolvedPlaceholders(value: string, context: TemplateContext = {}): string[] {
+  return getTemplatePlaceholders(value).filter(name => resolvePlaceholder(name, context) === undefined)
+}
@@ -0,0 +1,85 @@
+import type { AppState, HistoryAction, HistoryEntry } from '@/types'
+import { diffJson } from './json'
+
+/** Undo history (`chrome.storage.session`): kept while the popup is closed, cleared with the browser session */
+export const UNDO_HISTORY_KEY = 'openheaders_undo_history'
+export const MAX_HISTORY_ENTRIES = 50
+/** The oldest entries are dropped until the stored history fits */
+export const MAX_HISTORY_BYTES = 512 * 1024
+
+export interface UndoHistory {
+  /** The state the entries lead up to; undoing starts from it */
+  state: AppState
+  entries: HistoryEntry[]
+  /** How many entries are applied; the ones after it can be redone */
+  index: number
+}
+
+/** Pausing and syncing are not edits, and undo leaves them alone */
+function withoutSwitches({ paused: _paused, syncEnabled: _syncEnabled, ...state }: AppState) {
+  return state
+}
+
+/**
+ * An undo step for the change from `before` to `after`, or null when nothing
+ * but the pause and sync switches changed
+ */
+export function createHistoryEntry(
+  action: HistoryAction,
+  before: AppState,
+  after: AppState,
+  now = Date.now()
+): HistoryEntry | null {
+  const redo = diffJson(withoutSwitches(before), withoutSwitches(after))
+  if (redo.length === 0) return null
+  return { action, timestamp: now, redo, undo: diffJson(withoutSwitches(after), withoutSwitches(before)) }
+}
+
+/**
+ * Keeps the history within `MAX_HISTORY_ENTRIES` and `MAX_HISTORY_BYTES`, dropping the
+ * oldest undo step first. Redo steps go last, from the newest, since each one needs the ones before it.
+ */
+export function trimHistory(history: UndoHistory): UndoHistory {
+  let { entries, index } = history
+  const isTooLarge = () =>
+    entries.length > MAX_HISTORY_ENTRIES || JSON.stringify({ ...history, entries }).length > MAX_HISTORY_BYTES
+
+  while (entries.length > 0 && isTooLarge()) {
+    if (index > 0) {
+      entries = entries.slice(1)
+      index--
+    } else {
+      entries = entries.slice(0, -1)
+    }
+  }
+  return { ...history, entries, index }
+}
+
+/**
+ * Reads the history saved by an earlier popup. Returns null outside the extension.
+ */
+export async function readUndoHistory(): Promise<UndoHistory | null> {
+  if (typeof chrome === 'undefined' || !chrome.storage?.session) return null
+
+  try {
+    const result = await chrome.storage.session.get(UNDO_HISTORY_KEY)
+    const history = result[UNDO_HISTORY_KEY] as UndoHistory | undefined
+    return history && Array.isArray(history.entries) ? history : null
+  } catch (error) {
+    console.warn('Failed to read undo history:', error)
+    return null
+  }
+}
+
+/**
+ * Saves the history for the next popup. Does nothing outside the extension.
+ */
+export async function writeUndoHistory(history: UndoHistory): Promise<void> {
+  if (typeof chrome === 'undefined' || !chrome.storage?.session) return
+
+  try {
+    await chrome.storage.session.set({ [UNDO_HISTORY_KEY]: history })
+  } catch (error) {
+    console.warn('Failed to save undo history:', error)
+  }
+}
@@ -1,4 +1,5 @@
-import type { Profile, UrlFilter } from '@/types'
+import type { HeaderRule, Profile, UrlFilter, UrlFilterTarget } from '@/types'
+import { generateId } from '@/types'
 
 export function normalizeHostPattern(input: string): string | null {
   const trimmed = input.trim()
@@ -13,6 +14,10 @@ export function normalizeHostPattern(input: string): string | null {
   }
 }
 
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+}
+
 export function globToRegExp(glob: string): RegExp | null {
   const trimmed = glob.trim()
   if (!trimmed) return null
@@ -25,6 +30,38 @@ export function globToRegExp(glob: string): RegExp | null {
   return new RegExp(`^${escaped}$`)
 }
 
+/**
+ * Parses a localhost filter pattern (empty, `localhost:3000`, `:3000`, `3000` or a full URL).
+ * Returns the port to match (null for any port), or null when the pattern is invalid.
+ */
+export function parseLocalhostPattern(pattern: string): { port: string | null } | null {
+  const trimmed = pattern.trim()
+  const lower = trimmed.toLowerCase()
+  if (!trimmed || lower === 'localhost') return { port: null }
+
+  if (trimmed.includes('://')) {
+    try {
+      const parsed = new URL(trimmed)
+      if (parsed.hostname !== 'localhost') return null
+      return { port: parsed.port || null }
+    } catch {
+      return null
+    }
+  }
+
+  if (lower.startsWith('localhost')) {
+    const match = lower.match(/^localhost(?::(\d+))?$/)
+    if (!match) return null
+    return { port: match[1] ?? null }
+  }
+
+  if (/^:?\d+$/.test(lower)) {
+    return { port: lower.startsWith(':') ? lower.slice(1) : lower }
+  }
+
+  return null
+}
+
 export function matchesUrlFilter(tabUrl: string, filter: UrlFilter): boolean {
   const pattern = filter.pattern.trim()
   const matchType = filter.matchType ?? 'dnr_url_filter'
@@ -70,29 +107,10 @@ export function matchesUrlFilter(tabUrl: string, filter: UrlFilter): boolean {
     }
     case 'localhost_port': {
       if (url.hostname !== 'localhost') return false
-      if (!pattern || pattern.toLowerCase() === 'localhost') return true
-
-      let port: string | null = null
-      const lower = pattern.toLowerCase()
-
-      if (pattern.includes('://')) {
-        try {
-          const parsed = new URL(pattern)
-          if (parsed.hostname !== 'localhost') return false
-          port = parsed.port || null
-        } catch {
-          return false
-        }
-      } else if (lower.startsWith('localhost')) {
-        const match = lower.match(/^localhost(?::(\d+))?$/)
-        if (!match) return false
-        port = match[1] ?? null
-      } else if (/^:?\d+$/.test(lower)) {
-        port = lower.startsWith(':') ? lower.slice(1) : lower
-      } else {
-        return false
-      }
 
+      const parsed = parseLocalhostPattern(pattern)
+      if (!parsed) return false
+      const { port } = parsed
       if (!port) return true
 
       if (url.port === port) return true
@@ -123,16 +141,96 @@ export function matchesUrlFilter(tabUrl: string, filter: UrlFilter): boolean {
   }
 }
 
-export function isProfileEnabledForTabUrl(profile: Profile, tabUrl: string): boolean {
-  const enabledFilters = (profile.urlFilters ?? [])
-    .filter(f => {
-      if (!f.enabled) return false
-      if (f.pattern.trim()) return true
-      return (f.matchType ?? 'dnr_url_filter') === 'localhost_port'
-    })
+// Scheme of a URL, for regexes built from host and path patterns
+const URL_SCHEME_PATTERN = '^[a-z][a-z0-9+.-]*://'
+
+/**
+ * Translates a filter into a JavaScript regex source matching the same full URLs,
+ * for tools that only understand URL regexes. Returns null when the pattern is invalid.
+ */
+export function urlFilterToRegExpSource(filter: Pick<UrlFilter, 'matchType' | 'pattern'>): string | null {
+  const pattern = filter.pattern.trim()
+  const matchType = filter.matchType ?? 'dnr_url_filter'
+
+  switch (matchType) {
+    case 'host_equals': {
+      const host = normalizeHostPattern(pattern)
+      return host ? `${URL_SCHEME_PATTERN}${escapeRegExp(host)}(:[0-9]+)?([/?#]|$)` : null
+    }
+    case 'host_ends_with': {
+      const domain = normalizeHostPattern(pattern)
+      return domain ? `${URL_SCHEME_PATTERN}([^/?#@]*\\.)?${escapeRegExp(domain)}(:[0-9]+)?([/?#]|$)` : null
+    }
+    case 'localhost_port': {
+      const parsed = parseLocalhostPattern(pattern)
+      if (!parsed) return null
+      if (!parsed.port) return `${URL_SCHEME_PATTERN}localhost(:[0-9]+)?([/?#]|$)`
+      if (parsed.port === '80') return '^http://localhost(:80)?([/?#]|$)'
+      if (parsed.port === '443') return '^https://localhost(:443)?([/?#]|$)'
+      return `${URL_SCHEME_PATTERN}localhost:${parsed.port}([/?#]|$)`
+    }
+    case 'url_starts_with':
+      if (!pattern) return null
+      return pattern.includes('://') ? `^${escapeRegExp(pattern)}` : `${URL_SCHEME_PATTERN}${escapeRegExp(pattern)}`
+    case 'path_starts_with': {
+      if (!pattern) return null
+      const path = pattern.startsWith('/') ? pattern : `/${pattern}`
+      return `${URL_SCHEME_PATTERN}[^/?#]*${escapeRegExp(path)}`
+    }
+    case 'url_contains':
+      return pattern ? escapeRegExp(pattern) : null
+    case 'regex':
+      return pattern || null
+    case 'dnr_url_filter':
+    default:
+      return globToRegExp(pattern)?.source ?? null
+  }
+}
+
+/**
+ * Copies filters with new IDs, defaulting the match type of filters saved before it existed
+ */
+export function withNewFilterIds(filters: UrlFilter[]): UrlFilter[] {
+  return filters.map(f => ({
+    ...f,
+    id: generateId(),
+    matchType: (f as Partial<UrlFilter>).matchType ?? 'dnr_url_filter',
+  }))
+}
+
+function isActiveFilter(filter: UrlFilter): boolean {
+  if (!filter.enabled) return false
+  if (filter.pattern.trim()) return true
+  return (filter.matchType ?? 'dnr_url_filter') === 'localhost_port'
+}
+
+/**
+ * Returns the enabled filters that take part in matching (non-empty pattern, or localhost)
+ */
+export function getActiveUrlFilters(filters: UrlFilter[] | undefined): UrlFilter[] {
+  return (filters ?? []).filter(isActiveFilter)
+}
+
+export function getUrlFilterTarget(filter: UrlFilter): UrlFilterTarget {
+  return filter.target === 'request' ? 'request' : 'tab'
+}
+
+/**
+ * Returns the filters matched against the given URL kind (tab URL or request URL)
+ */
+export function getUrlFiltersForTarget(filters: UrlFilter[] | undefined, target: UrlFilterTarget): UrlFilter[] {
+  return (filters ?? []).filter(f => getUrlFilterTarget(f) === target)
+}
+
+/**
+ * Evaluates an include/exclude filter list against a URL.
+ * Any matching exclude wins; without includes every other URL matches.
+ */
+export function matchesUrlFilters(filters: UrlFilter[] | undefined, url: string): boolean {
+  const enabledFilters = getActiveUrlFilters(filters)
 
   const excludes = enabledFilters.filter(f => f.type === 'exclude')
-  if (excludes.some(f => matchesUrlFilter(tabUrl, f))) {
+  if (excludes.some(f => matchesUrlFilter(url, f))) {
     return false
   }
 
@@ -141,5 +239,19 @@ export function isProfileEnabledForTabUrl(profile: Profile, tabUrl: string): boo
     return true
   }
 
-  return includes.some(f => matchesUrlFilter(tabUrl, f))
+  return includes.some(f => matchesUrlFilter(url, f))
+}
+
+/**
+ * Evaluates a profile's tab URL filters. Request URL filters are left to declarativeNetRequest.
+ */
+export function isProfileEnabledForTabUrl(profile: Profile, tabUrl: string): boolean {
+  return matchesUrlFilters(getUrlFiltersForTarget(profile.urlFilters, 'tab'), tabUrl)
+}
+
+/**
+ * Evaluates a header's own tab URL filters. Request URL filters are left to declarativeNetRequest.
+ */
+export function isHeaderEnabledForUrl(header: Pick<HeaderRule, 'urlFilters'>, url: string): boolean {
+  return matchesUrlFilters(getUrlFiltersForTarget(header.urlFilters, 'tab'), url)
 }
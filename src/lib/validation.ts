@@ -0,0 +1,188 @@
+import type { HeaderRule, RuleFailure, UrlFilter, UrlFilterMatchType } from '@/types'
+import { normalizeHostPattern, parseLocalhostPattern } from './urlFilters'
+
+/** Where the background script reports rules that Chrome rejected (`chrome.storage.session`) */
+export const RULE_FAILURES_KEY = 'openheaders_rule_failures'
+
+/** An HTTP token (RFC 9110), which Chrome requires for header names */
+const HEADER_NAME_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/
+
+// Chrome rejects header values that could start a new header line
+const INVALID_HEADER_VALUE_PATTERN = /[\0\r\n]/
+
+/**
+ * Request headers that declarativeNetRequest allows `append` for.
+ * Response headers can be appended to without restriction.
+ */
+export const APPENDABLE_REQUEST_HEADERS = new Set([
+  'accept',
+  'accept-encoding',
+  'accept-language',
+  'access-control-request-headers',
+  'cache-control',
+  'connection',
+  'content-language',
+  'cookie',
+  'forwarded',
+  'if-match',
+  'if-none-match',
+  'keep-alive',
+  'range',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'user-agent',
+  'via',
+  'want-digest',
+  'x-forwarded-for',
+])
+
+export type HeaderNameError = 'invalid_name' | 'append_not_supported'
+export type HeaderValueError = 'invalid_value'
+export type HeaderValidationError = HeaderNameError | HeaderValueError
+
+export type UrlFilterValidationError =
+  | 'invalid_regex'
+  | 'invalid_host'
+  | 'invalid_localhost'
+  | 'non_ascii_pattern'
+  | 'regex_not_supported'
+  | 'regex_too_complex'
+  | 'exclude_not_supported'
+
+/**
+ * Match types a request-target exclude can use. Chrome only excludes requests by domain
+ * (`excludedRequestDomains`), which always covers subdomains, so **Host equals** is not one of them.
+ */
+export const REQUEST_EXCLUDE_MATCH_TYPES: readonly UrlFilterMatchType[] = ['host_ends_with', 'localhost_port']
+
+/**
+ * Whether Chrome can express a filter. Only request-target excludes are limited:
+ * to hosts and their subdomains, and to localhost without a port.
+ */
+export function isRequestExcludeSupported(
+  filter: Pick<UrlFilter, 'matchType' | 'pattern' | 'target'> & Partial<Pick<UrlFilter, 'type'>>
+): boolean {
+  if (filter.type !== 'exclude' || filter.target !== 'request') return true
+  const matchType = filter.matchType ?? 'dnr_url_filter'
+  if (!REQUEST_EXCLUDE_MATCH_TYPES.includes(matchType)) return false
+  return matchType !== 'localhost_port' || parseLocalhostPattern(filter.pattern.trim())?.port === null
+}
+
+/**
+ * Checks a header name against what Chrome accepts. Empty names are not an error:
+ * such headers are skipped until a name is entered.
+ */
+export function validateHeaderName(
+  header: Pick<HeaderRule, 'name' | 'type' | 'operation'>
+): HeaderNameError | null {
+  const name = header.name.trim()
+  if (!name) return null
+  if (!HEADER_NAME_PATTERN.test(name)) return 'invalid_name'
+  if (header.operation === 'append' && header.type === 'request' && !APPENDABLE_REQUEST_HEADERS.has(name.toLowerCase())) {
+    return 'append_not_supported'
+  }
+  return null
+}
+
+/**
+ * Checks a header value against what Chrome accepts. Removed headers have no value to check.
+ */
+export function validateHeaderValue(
+  header: Pick<HeaderRule, 'value' | 'operation'>
+): HeaderValueError | null {
+  if (header.operation === 'remove') return null
+  return INVALID_HEADER_VALUE_PATTERN.test(header.value ?? '') ? 'invalid_value' : null
+}
+
+/**
+ * Returns the first reason Chrome would reject a header, or null when it is valid
+ */
+export function validateHeader(
+  header: Pick<HeaderRule, 'name' | 'value' | 'type' | 'operation'>
+): HeaderValidationError | null {
+  return validateHeaderName(header) ?? validateHeaderValue(header)
+}
+
+/**
+ * Checks a URL filter pattern. Empty patterns are not an error: such filters are ignored.
+ * Whether Chrome can run a request URL regex is checked separately with `checkRegexSupport`.
+ */
+export function validateUrlFilter(
+  filter: Pick<UrlFilter, 'matchType' | 'pattern' | 'target'> & Partial<Pick<UrlFilter, 'type'>>
+): UrlFilterValidationError | null {
+  const pattern = filter.pattern.trim()
+  const matchType = filter.matchType ?? 'dnr_url_filter'
+  if (!pattern) return null
+
+  switch (matchType) {
+    case 'regex':
+      try {
+        new RegExp(pattern)
+        break
+      } catch {
+        return 'invalid_regex'
+      }
+    case 'host_equals':
+    case 'host_ends_with':
+      if (!normalizeHostPattern(pattern)) return 'invalid_host'
+      break
+    case 'localhost_port':
+      if (!parseLocalhostPattern(pattern)) return 'invalid_localhost'
+      break
+    default:
+      // declarativeNetRequest only accepts ASCII URL patterns
+      if (filter.target === 'request' && /[^\x00-\x7F]/.test(pattern)) {
+        return 'non_ascii_pattern'
+      }
+  }
+  return isRequestExcludeSupported(filter) ? null : 'exclude_not_supported'
+}
+
+/**
+ * Whether a filter's pattern is handed to Chrome as a `regexFilter` as typed
+ */
+export function needsRegexSupportCheck(filter: Pick<UrlFilter, 'matchType' | 'pattern' | 'target'>): boolean {
+  return filter.matchType === 'regex' && filter.target === 'request' && !!filter.pattern.trim()
+}
+
+/**
+ * Asks Chrome whether it can run a regex filter. Chrome uses RE2, which has no
+ * lookarounds or backreferences, and limits the memory a regex may use.
+ * Returns null when the regex is supported or outside the extension.
+ */
+export async function checkRegexSupport(regex: string): Promise<UrlFilterValidationError | null> {
+  if (typeof chrome === 'undefined' || !chrome.declarativeNetRequest?.isRegexSupported) return null
+
+  try {
+    const result = await chrome.declarativeNetRequest.isRegexSupported({ regex })
+    if (result.isSupported) return null
+    return result.reason === 'memoryLimitExceeded' ? 'regex_too_complex' : 'regex_not_supported'
+  } catch (error) {
+    console.error('Failed to check regex support:', error)
+    return null
+  }
+}
+
+/**
+ * Reads the rules Chrome rejected and calls `callback` now and whenever they change.
+ * Returns a function that stops watching. Does nothing outside the extension.
+ */
+export function watchRuleFailures(callback: (failures: RuleFailure[]) => void): () => void {
+  if (typeof chrome === 'undefined' || !chrome.storage?.session) return () => {}
+
+  chrome.storage.session.get(RULE_FAILURES_KEY).then(result => {
+    callback((result[RULE_FAILURES_KEY] as RuleFailure[] | undefined) ?? [])
+  }).catch(error => {
+    console.error('Failed to load rule failures:', error)
+  })
+
+  const listener = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName === 'session' && changes[RULE_FAILURES_KEY]) {
+      callback((changes[RULE_FAILURES_KEY].newValue as RuleFailure[] | undefined) ?? [])
+    }
+  }
+  chrome.storage.onChanged.addListener(listener)
+  return () => chrome.storage.onChanged.removeListener(listener)
+}
@@ -1,12 +1,25 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import type { Profile, HeaderRule, AppState, UrlFilter, HeaderType, DarkModePreference, LanguagePreference, HeaderSuggestionsState, ValueSuggestion } from '../types'
-import { createEmptyProfile, createEmptyHeader, DEFAULT_PROFILE_COLORS, isModHeaderFormat, convertModHeaderProfile, generateId } from '../types'
+import type { Profile, HeaderRule, AppState, HistoryAction, HistoryEntry, UrlFilter, HeaderType, DarkModePreference, LanguagePreference, HeaderSuggestionsState, ValueSuggestion, TemplateVariable, ExportOptions, ModHeaderExport, ImportAction, ImportPreview, ImportResult, ProfileSchedule, ProfileSubscription, SyncConflict } from '../types'
+import { createEmptyProfile, createEmptyHeader, DEFAULT_PROFILE_COLORS, generateId } from '../types'
 import { getMessageForPreference, setLanguagePreference as setI18nLanguagePreference } from '@/i18n'
 import { COMMON_REQUEST_HEADER_NAMES, getCanonicalHeaderName, normalizeHeaderKey } from '@/lib/header-suggestions'
+import { CURRENT_SCHEMA_VERSION, isNewerSchemaVersion, migrateState } from '@/lib/migrations'
+import { formatSchemaIssue, validateState } from '@/lib/stateSchema'
+import { getScheduleState } from '@/lib/schedule'
+import { applyJsonPatches, isSameJson } from '@/lib/json'
+import { createHistoryEntry, readUndoHistory, trimHistory, writeUndoHistory } from '@/lib/undoHistory'
+import { findVariable, hasSecretVariables, redactSecretVariables } from '@/lib/templates'
+import { decryptExport } from '@/lib/exportCrypto'
+import { parseImportData } from '@/lib/importers'
+import type { ParsedImport } from '@/lib/importers'
+import { withNewFilterIds } from '@/lib/urlFilters'
+import { convertProfilesToModHeader } from '@/lib/modHeaderExport'
+import type { PastedHeader } from '@/lib/pasteRequest'
+import { dismissSyncConflict, toLocalProfile } from '@/lib/sync'
+import { isSubscribedProfile, isValidSubscriptionUrl } from '@/lib/subscriptions'
 
 const STORAGE_KEY = 'openheaders_state'
-const MAX_HISTORY = 50
 const IMPORT_SIZE_WARNING_THRESHOLD = 100
 const MAX_HEADER_NAME_HISTORY = 100
 const MAX_HEADER_VALUE_HISTORY = 50
@@ -18,14 +31,24 @@ export const useHeadersStore = defineStore('headers', () => {
   const activeProfileId = ref<string | null>(null)
   const darkModePreference = ref<DarkModePreference>('system')
   const languagePreference = ref<LanguagePreference>('auto')
+  const autoSelectProfile = ref(false)
+  const paused = ref(false)
+  const syncEnabled = ref(false)
+  const subscriptions = ref<ProfileSubscription[]>([])
   const systemPrefersDark = ref(false)
-  const history = ref<AppState[]>([])
-  const historyIndex = ref(-1)
+  const history = ref<HistoryEntry[]>([])
+  /** How many history entries are applied; the ones after it can be redone */
+  const historyIndex = ref(0)
+  /** The state the applied entries lead up to, as last saved */
+  let historyState: AppState | null = null
   const isInitialized = ref(false)
+  /** The saved state comes from a newer version; nothing is saved over it */
+  const isStateFromNewerVersion = ref(false)
   const headerNameHistory = ref<string[]>([])
   const headerValueHistory = ref<Record<string, ValueSuggestion[]>>({})
   const hiddenHeaderNameSuggestions = ref<string[]>([])
   const urlPatternHistory = ref<Record<string, string[]>>({})
+  const variables = ref<TemplateVariable[]>([])
 
   // System dark mode detection
   let mediaQuery: MediaQueryList | null = null
@@ -56,6 +79,9 @@ export const useHeadersStore = defineStore('headers', () => {
     return profiles.value.find(p => p.id === activeProfileId.value) ?? null
   })
 
+  // Subscribed profiles are replaced on every pull, so their headers are not edited in place
+  const isActiveProfileReadOnly = computed(() => isSubscribedProfile(activeProfile.value))
+
   const requestHeaders = computed(() => {
     return activeProfile.value?.headers.filter(h => h.type === 'request') ?? []
   })
@@ -65,7 +91,9 @@ export const useHeadersStore = defineStore('headers', () => {
   })
 
   const canUndo = computed(() => historyIndex.value > 0)
-  const canRedo = computed(() => historyIndex.value < history.value.length - 1)
+  const canRedo = computed(() => historyIndex.value < history.value.length)
+  const undoAction = computed(() => history.value[historyIndex.value - 1]?.action ?? null)
+  const redoAction = computed(() => history.value[historyIndex.value]?.action ?? null)
 
   function mergeUniqueHeaderNames(names: string[]): string[] {
     const seen = new Set<string>()
@@ -160,10 +188,7 @@ export const useHeadersStore = defineStore('headers', () => {
       for (const [name, values] of Object.entries(suggestions.valuesByName ?? {})) {
         if (!Array.isArray(values)) continue
         for (const entry of values) {
-          // Migrate from old string[] format to ValueSuggestion[]
-          if (typeof entry === 'string') {
-            addHeaderValueToHistory(name, entry)
-          } else if (
+          if (
             entry &&
             typeof entry === 'object' &&
             'value' in entry &&
@@ -259,69 +284,107 @@ export const useHeadersStore = defineStore('headers', () => {
     }
 
     return {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       profiles: JSON.parse(JSON.stringify(profiles.value)),
       activeProfileId: activeProfileId.value,
       darkModePreference: darkModePreference.value,
       languagePreference: languagePreference.value,
+      autoSelectProfile: autoSelectProfile.value,
+      paused: paused.value,
+      syncEnabled: syncEnabled.value,
+      subscriptions: JSON.parse(JSON.stringify(subscriptions.value)),
       headerSuggestions,
       urlPatternHistory: JSON.parse(JSON.stringify(urlPatternHistory.value)),
+      variables: JSON.parse(JSON.stringify(variables.value)),
     }
   }
 
-  // Save state to history
-  function saveToHistory(): void {
-    // Remove any future history if we're not at the end
-    if (historyIndex.value < history.value.length - 1) {
-      history.value = history.value.slice(0, historyIndex.value + 1)
-    }
-
+  // Save the change since the last saved state to history, as undo and redo diffs
+  function saveToHistory(action: HistoryAction): void {
     const state = getState()
-    history.value.push(state)
+    const entry = historyState ? createHistoryEntry(action, historyState, state) : null
+    historyState = state
+    if (!entry) return
+
+    // Drops any redo entries, then the oldest ones over the size limits
+    const trimmed = trimHistory({
+      state,
+      entries: [...history.value.slice(0, historyIndex.value), entry],
+      index: historyIndex.value + 1,
+    })
+    history.value = trimmed.entries
+    historyIndex.value = trimmed.index
+  }
 
-    // Limit history size
-    if (history.value.length > MAX_HISTORY) {
-      history.value = history.value.slice(-MAX_HISTORY)
-    }
+  // Kept in session storage so the next popup can still undo
+  function persistHistory(): void {
+    if (!historyState || isStateFromNewerVersion.value) return
+    writeUndoHistory({ state: historyState, entries: history.value, index: historyIndex.value })
+  }
 
-    historyIndex.value = history.value.length - 1
+  /**
+   * Picks up the history of the last popup. If the state changed since, e.g. from a
+   * keyboard shortcut, that change becomes an undoable step of its own.
+   */
+  async function restoreHistory(storedState: AppState | null): Promise<void> {
+    const stored = storedState ? await readUndoHistory() : null
+    historyState = getState()
+    if (!stored) return
+
+    history.value = stored.entries
+    historyIndex.value = Math.min(Math.max(stored.index, 0), stored.entries.length)
+    if (!isSameJson(stored.state, storedState)) {
+      historyState = stored.state
+      saveToHistory('outside_change')
+      persistHistory()
+    }
   }
 
-  // Restore state from history entry
+  // Restore state from history entry. Pausing and syncing are not edits, so undo leaves them alone.
   function restoreState(state: AppState): void {
     profiles.value = JSON.parse(JSON.stringify(state.profiles))
     activeProfileId.value = state.activeProfileId
     darkModePreference.value = state.darkModePreference
     languagePreference.value = state.languagePreference ?? 'auto'
     setI18nLanguagePreference(languagePreference.value)
+    autoSelectProfile.value = state.autoSelectProfile ?? false
+    // Undone together with the profiles pulled from them
+    subscriptions.value = JSON.parse(JSON.stringify(state.subscriptions ?? []))
     hydrateHeaderSuggestions(state)
+    variables.value = JSON.parse(JSON.stringify(state.variables ?? []))
   }
 
   // Actions
   function undo(): void {
-    if (!canUndo.value) return
+    const entry = history.value[historyIndex.value - 1]
+    if (!entry || !historyState) return
     historyIndex.value--
-    const state = history.value[historyIndex.value]
-    if (state) {
-      restoreState(state)
-      persistState()
-    }
+    restoreState(applyJsonPatches(historyState, entry.undo))
+    persistState()
   }
 
   function redo(): void {
-    if (!canRedo.value) return
+    const entry = history.value[historyIndex.value]
+    if (!entry || !historyState) return
     historyIndex.value++
-    const state = history.value[historyIndex.value]
-    if (state) {
-      restoreState(state)
-      persistState()
-    }
+    restoreState(applyJsonPatches(historyState, entry.redo))
+    persistState()
   }
 
+  // States this popup wrote, to tell them apart from changes made by the background script
+  const ownWrites = new Set<string>()
+  let isWatchingStorage = false
+
   // Persist to chrome.storage
   async function persistState(): Promise<void> {
+    if (isStateFromNewerVersion.value) return
     const state = getState()
+    // Undo steps apply to the saved state, so changes that are not steps (e.g. dark mode) stay
+    historyState = state
+    persistHistory()
     try {
       if (typeof chrome !== 'undefined' && chrome.storage) {
+        ownWrites.add(JSON.stringify(state))
         await chrome.storage.local.set({ [STORAGE_KEY]: state })
       } else {
         localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
@@ -331,8 +394,34 @@ export const useHeadersStore = defineStore('headers', () => {
     }
   }
 
+  /**
+   * Keyboard shortcuts and menus change the stored state from the background script.
+   * Picks those changes up while the popup is open, as an undoable step.
+   */
+  function watchStoredState(): void {
+    if (isWatchingStorage || typeof chrome === 'undefined' || !chrome.storage?.onChanged) return
+    isWatchingStorage = true
+
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      const change = changes[STORAGE_KEY]
+      if (areaName !== 'local' || !change?.newValue) return
+
+      const json = JSON.stringify(change.newValue)
+      if (ownWrites.delete(json) || json === JSON.stringify(getState())) return
+
+      const state = change.newValue as AppState
+      if (isNewerSchemaVersion(state)) return
+      restoreState(state)
+      paused.value = state.paused === true
+      syncEnabled.value = state.syncEnabled === true
+      saveToHistory('outside_change')
+      persistHistory()
+    })
+  }
+
   // Load from storage
   async function loadState(): Promise<void> {
+    let storedState: AppState | null = null
     try {
       let state: AppState | null = null
 
@@ -347,34 +436,31 @@ export const useHeadersStore = defineStore('headers', () => {
         state = stored ? JSON.parse(stored) as AppState : null
       }
 
+      if (state && isNewerSchemaVersion(state)) {
+        // Starts from defaults without saving, so the newer state is still there after an update
+        console.error(`Saved state has schema version ${state.schemaVersion}; this version supports ${CURRENT_SCHEMA_VERSION}`)
+        isStateFromNewerVersion.value = true
+        state = null
+      }
+      storedState = state
+
       if (state && state.profiles) {
-        // Migrate stored profiles to ensure required fields exist
-        profiles.value = state.profiles.map((profile) => ({
-          ...profile,
-          headers: profile.headers ?? [],
-          urlFilters: (profile.urlFilters ?? []).map((filter) => ({
-            ...filter,
-            matchType: (filter as Partial<UrlFilter>).matchType ?? 'dnr_url_filter',
-          })),
-        }))
+        const validated = validateState(migrateState(state))
+        if (validated.issues.length > 0) {
+          console.warn('Repaired the saved state:', validated.issues.map(formatSchemaIssue))
+        }
+        state = validated.value
+        profiles.value = state.profiles
         activeProfileId.value = state.activeProfileId
-        // Handle migration from old darkMode boolean to new darkModePreference
-        if ('darkModePreference' in state) {
+        variables.value = Array.isArray(state.variables) ? state.variables : []
+        subscriptions.value = Array.isArray(state.subscriptions) ? state.subscriptions : []
+        if (state.darkModePreference) {
           darkModePreference.value = state.darkModePreference
-        } else if ('darkMode' in state) {
-          // Migrate from old format: if darkMode was true, set to 'dark', otherwise 'system'
-          darkModePreference.value = (state as { darkMode?: boolean }).darkMode ? 'dark' : 'system'
-        }
-        if ('languagePreference' in state) {
-          const storedLanguage = state.languagePreference
-          if (storedLanguage === 'auto' || storedLanguage === 'en' || storedLanguage === 'sv') {
-            languagePreference.value = storedLanguage
-          } else {
-            languagePreference.value = 'auto'
-          }
-        } else {
-          languagePreference.value = 'auto'
         }
+        languagePreference.value = state.languagePreference ?? 'auto'
+        autoSelectProfile.value = state.autoSelectProfile === true
+        paused.value = state.paused === true
+        syncEnabled.value = state.syncEnabled === true
       }
 
       setI18nLanguagePreference(languagePreference.value)
@@ -397,9 +483,11 @@ export const useHeadersStore = defineStore('headers', () => {
       hydrateHeaderSuggestions(state)
 
       // Initialize history
-      history.value = [getState()]
+      history.value = []
       historyIndex.value = 0
+      await restoreHistory(storedState)
       isInitialized.value = true
+      watchStoredState()
     } catch (error) {
       console.error('Failed to load state:', error)
       languagePreference.value = 'auto'
@@ -411,8 +499,9 @@ export const useHeadersStore = defineStore('headers', () => {
       profiles.value.push(defaultProfile)
       activeProfileId.value = defaultProfile.id
       hydrateHeaderSuggestions(null)
-      history.value = [getState()]
+      history.value = []
       historyIndex.value = 0
+      historyState = getState()
       isInitialized.value = true
     }
   }
@@ -427,7 +516,7 @@ export const useHeadersStore = defineStore('headers', () => {
     profile.color = DEFAULT_PROFILE_COLORS[colorIndex] ?? '#7c3aed'
     profiles.value.push(profile)
     activeProfileId.value = profile.id
-    saveToHistory()
+    saveToHistory('add_profile')
     persistState()
   }
 
@@ -450,7 +539,7 @@ export const useHeadersStore = defineStore('headers', () => {
       activeProfileId.value = defaultProfile.id
     }
 
-    saveToHistory()
+    saveToHistory('remove_profile')
     persistState()
   }
 
@@ -462,13 +551,15 @@ export const useHeadersStore = defineStore('headers', () => {
       ...JSON.parse(JSON.stringify(profile)),
       id: generateId(),
       name: `${profile.name} ${getMessageForPreference(languagePreference.value, 'profile_copy_suffix')}`,
+      // Variables are looked up by ID across profiles, so copies need their own
+      ...(profile.variables ? { variables: profile.variables.map(v => ({ ...v, id: generateId() })) } : {}),
       createdAt: Date.now(),
       updatedAt: Date.now(),
     }
 
     profiles.value.push(newProfile)
     activeProfileId.value = newProfile.id
-    saveToHistory()
+    saveToHistory('duplicate_profile')
     persistState()
   }
 
@@ -481,57 +572,144 @@ export const useHeadersStore = defineStore('headers', () => {
 
   function updateProfile(profileId: string, updates: Partial<Profile>): void {
     const profile = profiles.value.find(p => p.id === profileId)
-    if (!profile) return
+    // The next pull would overwrite the change; pulls also match subscribed profiles by name
+    if (!profile || isSubscribedProfile(profile)) return
 
     Object.assign(profile, updates, { updatedAt: Date.now() })
-    saveToHistory()
+    saveToHistory('update_profile')
+    persistState()
+  }
+
+  function toggleProfileEnabled(profileId: string): void {
+    const profile = profiles.value.find(p => p.id === profileId)
+    if (!profile) return
+
+    profile.enabled = !profile.enabled
+    // Turning an expired profile back on would otherwise do nothing
+    if (profile.enabled && profile.schedule && getScheduleState(profile) === 'expired') {
+      profile.schedule = { ...profile.schedule, expiresAt: undefined }
+    }
+    profile.updatedAt = Date.now()
+    saveToHistory('toggle_profile')
+    persistState()
+  }
+
+  /**
+   * Sets or clears (with null) when a profile applies. Setting an expiry in the
+   * future also enables the profile, for "turn this on for 30 minutes".
+   */
+  function setProfileSchedule(profileId: string, schedule: ProfileSchedule | null): void {
+    const profile = profiles.value.find(p => p.id === profileId)
+    if (!profile || isSubscribedProfile(profile)) return
+
+    if (schedule && (schedule.expiresAt || schedule.windows?.length)) {
+      profile.schedule = schedule
+      if (schedule.expiresAt && schedule.expiresAt > Date.now()) profile.enabled = true
+    } else {
+      delete profile.schedule
+    }
+    profile.updatedAt = Date.now()
+    saveToHistory('schedule_profile')
     persistState()
   }
 
   // Header actions
   function addHeader(type: HeaderType = 'request'): void {
-    if (!activeProfile.value) return
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return
 
-    const header = createEmptyHeader(type)
-    activeProfile.value.headers.push(header)
-    activeProfile.value.updatedAt = Date.now()
-    saveToHistory()
+    const now = Date.now()
+    activeProfile.value.headers.push({ ...createEmptyHeader(type), updatedAt: now })
+    activeProfile.value.updatedAt = now
+    saveToHistory('add_header')
+    persistState()
+  }
+
+  /**
+   * Adds pasted request headers to the active profile as enabled header rules, with
+   * canonical names. `urlFilter` optionally adds a request URL filter to the profile,
+   * unless an identical one exists. Returns the number of headers added.
+   */
+  function addPastedHeaders(
+    pastedHeaders: PastedHeader[],
+    urlFilter: Pick<UrlFilter, 'matchType' | 'pattern'> | null = null
+  ): number {
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return 0
+
+    const now = Date.now()
+    // Chrome cannot set an empty value, so such a row would look active and do nothing
+    const added = pastedHeaders
+      .filter(pasted => pasted.name.trim() && pasted.value.trim())
+      .map(pasted => ({
+        ...createEmptyHeader('request'),
+        enabled: true,
+        name: getCanonicalHeaderName(pasted.name),
+        value: pasted.value,
+        updatedAt: now,
+      }))
+    const hasFilter = urlFilter !== null && activeProfile.value.urlFilters.some(f =>
+      f.type === 'include' &&
+      f.target === 'request' &&
+      f.matchType === urlFilter.matchType &&
+      f.pattern === urlFilter.pattern
+    )
+    if (added.length === 0 && (urlFilter === null || hasFilter)) return 0
+
+    activeProfile.value.headers.push(...added)
+    for (const header of added) {
+      addHeaderValueToHistory(header.name, header.value)
+    }
+    if (urlFilter && !hasFilter) {
+      activeProfile.value.urlFilters.push({
+        id: generateId(),
+        enabled: true,
+        type: 'include',
+        target: 'request',
+        ...urlFilter,
+      })
+    }
+    activeProfile.value.updatedAt = now
+    saveToHistory('paste_headers')
     persistState()
+    return added.length
   }
 
   function removeHeader(headerId: string): void {
-    if (!activeProfile.value) return
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return
 
     const index = activeProfile.value.headers.findIndex(h => h.id === headerId)
     if (index === -1) return
 
     activeProfile.value.headers.splice(index, 1)
     activeProfile.value.updatedAt = Date.now()
-    saveToHistory()
+    saveToHistory('remove_header')
     persistState()
   }
 
   function duplicateHeader(headerId: string): void {
-    if (!activeProfile.value) return
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return
 
     const header = activeProfile.value.headers.find(h => h.id === headerId)
     if (!header) return
 
     const index = activeProfile.value.headers.findIndex(h => h.id === headerId)
+    const copy: HeaderRule = JSON.parse(JSON.stringify(header))
+    const now = Date.now()
     const newHeader: HeaderRule = {
-      ...JSON.parse(JSON.stringify(header)),
+      ...copy,
       id: generateId(),
+      ...(copy.urlFilters ? { urlFilters: withNewFilterIds(copy.urlFilters) } : {}),
+      updatedAt: now,
     }
 
     // Insert after the original header
     activeProfile.value.headers.splice(index + 1, 0, newHeader)
-    activeProfile.value.updatedAt = Date.now()
-    saveToHistory()
+    activeProfile.value.updatedAt = now
+    saveToHistory('duplicate_header')
     persistState()
   }
 
   function updateHeader(headerId: string, updates: Partial<HeaderRule>): void {
-    if (!activeProfile.value) return
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return
 
     const header = activeProfile.value.headers.find(h => h.id === headerId)
     if (!header) return
@@ -540,7 +718,8 @@ export const useHeadersStore = defineStore('headers', () => {
     const nextValue = typeof updates.value === 'string' ? updates.value : header.value
 
     Object.assign(header, updates)
-    activeProfile.value.updatedAt = Date.now()
+    header.updatedAt = Date.now()
+    activeProfile.value.updatedAt = header.updatedAt
 
     const hasNameUpdate = typeof updates.name === 'string'
     const hasValueUpdate = typeof updates.value === 'string'
@@ -568,7 +747,7 @@ export const useHeadersStore = defineStore('headers', () => {
       addHeaderValueToHistory(nextName, nextValue, currentComment)
     }
 
-    saveToHistory()
+    saveToHistory('update_header')
     persistState()
   }
 
@@ -584,7 +763,7 @@ export const useHeadersStore = defineStore('headers', () => {
       hiddenHeaderNameSuggestions.value.push(normalized)
     }
 
-    saveToHistory()
+    saveToHistory('remove_suggestion')
     persistState()
   }
 
@@ -602,24 +781,25 @@ export const useHeadersStore = defineStore('headers', () => {
       headerValueHistory.value[normalized] = nextValues
     }
 
-    saveToHistory()
+    saveToHistory('remove_suggestion')
     persistState()
   }
 
   function toggleHeader(headerId: string): void {
-    if (!activeProfile.value) return
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return
 
     const header = activeProfile.value.headers.find(h => h.id === headerId)
     if (!header) return
 
     header.enabled = !header.enabled
-    activeProfile.value.updatedAt = Date.now()
-    saveToHistory()
+    header.updatedAt = Date.now()
+    activeProfile.value.updatedAt = header.updatedAt
+    saveToHistory('toggle_header')
     persistState()
   }
 
   function clearHeaders(type?: HeaderType): void {
-    if (!activeProfile.value) return
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return
 
     if (type) {
       activeProfile.value.headers = activeProfile.value.headers.filter(h => h.type !== type)
@@ -627,12 +807,12 @@ export const useHeadersStore = defineStore('headers', () => {
       activeProfile.value.headers = []
     }
     activeProfile.value.updatedAt = Date.now()
-    saveToHistory()
+    saveToHistory('clear_headers')
     persistState()
   }
 
   function sortHeaders(by: 'name' | 'value' | 'comment', type?: HeaderType): void {
-    if (!activeProfile.value) return
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return
 
     const headers = type
       ? activeProfile.value.headers.filter(h => h.type === type)
@@ -650,12 +830,12 @@ export const useHeadersStore = defineStore('headers', () => {
     }
 
     activeProfile.value.updatedAt = Date.now()
-    saveToHistory()
+    saveToHistory('sort_headers')
     persistState()
   }
 
   function reorderHeaders(orderedIds: string[], type: HeaderType): void {
-    if (!activeProfile.value) return
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return
 
     const headersOfType = activeProfile.value.headers.filter(h => h.type === type)
     const otherHeaders = activeProfile.value.headers.filter(h => h.type !== type)
@@ -667,7 +847,7 @@ export const useHeadersStore = defineStore('headers', () => {
 
     activeProfile.value.headers = [...otherHeaders, ...reordered]
     activeProfile.value.updatedAt = Date.now()
-    saveToHistory()
+    saveToHistory('reorder_headers')
     persistState()
   }
 
@@ -677,13 +857,13 @@ export const useHeadersStore = defineStore('headers', () => {
       .filter((p): p is Profile => p !== undefined)
 
     profiles.value = reordered
-    saveToHistory()
+    saveToHistory('reorder_profiles')
     persistState()
   }
 
   // URL Filter actions
   function addUrlFilter(type: 'include' | 'exclude' = 'include'): void {
-    if (!activeProfile.value) return
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return
 
     const filter: UrlFilter = {
       id: generateId(),
@@ -694,12 +874,12 @@ export const useHeadersStore = defineStore('headers', () => {
     }
     activeProfile.value.urlFilters.push(filter)
     activeProfile.value.updatedAt = Date.now()
-    saveToHistory()
+    saveToHistory('add_url_filter')
     persistState()
   }
 
   function duplicateUrlFilter(filterId: string): void {
-    if (!activeProfile.value) return
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return
 
     const index = activeProfile.value.urlFilters.findIndex(f => f.id === filterId)
     if (index === -1) return
@@ -710,24 +890,24 @@ export const useHeadersStore = defineStore('headers', () => {
     const copy: UrlFilter = { ...source, id: generateId() }
     activeProfile.value.urlFilters.splice(index + 1, 0, copy)
     activeProfile.value.updatedAt = Date.now()
-    saveToHistory()
+    saveToHistory('duplicate_url_filter')
     persistState()
   }
 
   function removeUrlFilter(filterId: string): void {
-    if (!activeProfile.value) return
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return
 
     const index = activeProfile.value.urlFilters.findIndex(f => f.id === filterId)
     if (index === -1) return
 
     activeProfile.value.urlFilters.splice(index, 1)
     activeProfile.value.updatedAt = Date.now()
-    saveToHistory()
+    saveToHistory('remove_url_filter')
     persistState()
   }
 
   function updateUrlFilter(filterId: string, updates: Partial<UrlFilter>): void {
-    if (!activeProfile.value) return
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return
 
     const filter = activeProfile.value.urlFilters.find(f => f.id === filterId)
     if (!filter) return
@@ -740,21 +920,89 @@ export const useHeadersStore = defineStore('headers', () => {
     }
 
     activeProfile.value.updatedAt = Date.now()
-    saveToHistory()
+    saveToHistory('update_url_filter')
     persistState()
   }
 
   function clearUrlFilters(): void {
-    if (!activeProfile.value) return
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return
 
     activeProfile.value.urlFilters = []
     activeProfile.value.updatedAt = Date.now()
-    saveToHistory()
+    saveToHistory('clear_url_filters')
+    persistState()
+  }
+
+  // Template variable actions
+  /**
+   * Finds the list a variable belongs to: the global list or a profile's own variables
+   */
+  function findVariableOwner(variableId: string): { list: TemplateVariable[], profile?: Profile } | null {
+    if (variables.value.some(v => v.id === variableId)) return { list: variables.value }
+    const profile = profiles.value.find(p => p.variables?.some(v => v.id === variableId))
+    return profile?.variables ? { list: profile.variables, profile } : null
+  }
+
+  /**
+   * Adds a variable to a profile, or a global variable when no profile is given
+   */
+  function addVariable(profileId?: string): void {
+    const variable: TemplateVariable = { id: generateId(), name: '', value: '' }
+
+    if (profileId) {
+      const profile = profiles.value.find(p => p.id === profileId)
+      if (!profile || isSubscribedProfile(profile)) return
+      profile.variables = [...(profile.variables ?? []), variable]
+      profile.updatedAt = Date.now()
+    } else {
+      variables.value.push(variable)
+    }
+    saveToHistory('add_variable')
+    persistState()
+  }
+
+  function updateVariable(variableId: string, updates: Partial<Omit<TemplateVariable, 'id'>>): void {
+    const owner = findVariableOwner(variableId)
+    const variable = owner?.list.find(v => v.id === variableId)
+    if (!owner || !variable) return
+    // Pulls keep only the values of secret variables, which exports leave empty
+    if (isSubscribedProfile(owner.profile) && !(variable.secret && Object.keys(updates).every(key => key === 'value'))) return
+
+    Object.assign(variable, updates)
+    if (owner.profile) owner.profile.updatedAt = Date.now()
+    saveToHistory('update_variable')
+    persistState()
+  }
+
+  function removeVariable(variableId: string): void {
+    const owner = findVariableOwner(variableId)
+    if (!owner || isSubscribedProfile(owner.profile)) return
+
+    const index = owner.list.findIndex(v => v.id === variableId)
+    owner.list.splice(index, 1)
+    if (owner.profile) owner.profile.updatedAt = Date.now()
+    saveToHistory('remove_variable')
+    persistState()
+  }
+
+  function clearVariables(): void {
+    if (variables.value.length === 0) return
+
+    variables.value = []
+    saveToHistory('clear_variables')
     persistState()
   }
 
+  /**
+   * Whether exporting the given profile (or all profiles) would include secret variables
+   */
+  function hasSecretsToExport(profileId?: string): boolean {
+    const exported = profileId ? profiles.value.filter(p => p.id === profileId) : profiles.value
+    return hasSecretVariables(variables.value) || exported.some(p => hasSecretVariables(p.variables))
+  }
+
   function reorderUrlFilters(orderedIds: string[]): void {
-    if (!activeProfile.value) return
+    if (!activeProfile.value || isActiveProfileReadOnly.value) return
 
     const orderedSet = new Set(orderedIds)
     const byId = new Map(activeProfile.value.urlFilters.map(filter => [filter.id, filter] as const))
@@ -767,105 +1015,186 @@ export const useHeadersStore = defineStore('headers', () => {
 
     activeProfile.value.urlFilters = [...reordered, ...remaining]
     activeProfile.value.updatedAt = Date.now()
-    saveToHistory()
+    saveToHistory('reorder_url_filters')
     persistState()
   }
 
   // Import/Export
-  function exportProfile(profileId: string): string {
-    const profile = profiles.value.find(p => p.id === profileId)
+  function serializeExport(exportedProfiles: Profile[], options: ExportOptions): string {
+    const { includeSecrets = false } = options
     return JSON.stringify({
-      version: 1,
-      profiles: profile ? [profile] : [],
+      version: CURRENT_SCHEMA_VERSION,
+      // An imported copy is the importer's own, not tied to the subscription it came from
+      profiles: exportedProfiles.map(({ subscriptionId: _subscriptionId, ...profile }) =>
+        profile.variables
+          ? { ...profile, variables: redactSecretVariables(profile.variables, includeSecrets) }
+          : profile
+      ),
+      ...(variables.value.length > 0
+        ? { variables: redactSecretVariables(variables.value, includeSecrets) }
+        : {}),
       exportedAt: Date.now(),
     }, null, 2)
   }
 
-  function exportProfiles(): string {
-    return JSON.stringify({
-      version: 1,
-      profiles: profiles.value,
-      exportedAt: Date.now(),
-    }, null, 2)
+  /**
+   * Exports one profile. Secret variable values are left empty unless `includeSecrets` is set.
+   */
+  function exportProfile(profileId: string, options: ExportOptions = {}): string {
+    const profile = profiles.value.find(p => p.id === profileId)
+    return serializeExport(profile ? [profile] : [], options)
   }
 
-  function importProfiles(jsonString: string): boolean {
-    try {
-      const data = JSON.parse(jsonString)
-      const importedProfiles: Profile[] = []
+  /**
+   * Exports all profiles. Secret variable values are left empty unless `includeSecrets` is set.
+   */
+  function exportProfiles(options: ExportOptions = {}): string {
+    return serializeExport(profiles.value, options)
+  }
 
-      // Check if this is ModHeader format (array of profiles with 'title' and 'headers')
-      if (isModHeaderFormat(data)) {
-        if (data.length > IMPORT_SIZE_WARNING_THRESHOLD) {
-          console.warn(`Importing ${data.length} profiles may impact performance`)
-        }
-        const startingColorIndex = profiles.value.length
-        let importedCount = 0
-        for (let i = 0; i < data.length; i++) {
-          const modProfile = data[i]
-          if (!modProfile) continue
-          try {
-            const converted = convertModHeaderProfile(modProfile, startingColorIndex + i)
-            profiles.value.push(converted)
-            importedProfiles.push(converted)
-            importedCount++
-          } catch (error) {
-            console.warn(`Failed to convert ModHeader profile at index ${i}:`, error)
-            // Continue with other profiles
-          }
-        }
-        if (importedCount > 0) {
-          seedHeaderSuggestionsFromProfiles(importedProfiles)
-          saveToHistory()
-          persistState()
+  /**
+   * Exports one profile, or all profiles, in ModHeader's format.
+   * Settings ModHeader cannot express are returned as warnings.
+   */
+  function exportProfilesToModHeader(profileId?: string): ModHeaderExport {
+    const exported = profileId ? profiles.value.filter(p => p.id === profileId) : profiles.value
+    return convertProfilesToModHeader(exported)
+  }
+
+  function createImportPreview(parsed: ParsedImport): ImportPreview {
+    return {
+      ...parsed,
+      profiles: parsed.profiles.map(profile => {
+        const name = profile.name.trim().toLowerCase()
+        const existing = profiles.value.find(p => p.name.trim().toLowerCase() === name)
+        return {
+          profile,
+          existingProfileId: existing?.id ?? null,
+          action: existing ? 'skip' : 'add',
         }
-        return importedCount > 0
-      }
+      }),
+    }
+  }
 
-      // OpenHeaders format
-      if (!data.profiles || !Array.isArray(data.profiles)) {
-        throw new Error('Invalid format')
-      }
+  /**
+   * Reads an export file without changing anything, matching its profiles to existing ones by name.
+   * Returns null when the file cannot be imported.
+   */
+  function previewImport(jsonString: string): ImportPreview | null {
+    try {
+      return createImportPreview(parseImportData(JSON.parse(jsonString), profiles.value.length))
+    } catch (error) {
+      console.error('Failed to read import:', error)
+      return null
+    }
+  }
 
-      if (data.profiles.length > IMPORT_SIZE_WARNING_THRESHOLD) {
-        console.warn(`Importing ${data.profiles.length} profiles may impact performance`)
+  /**
+   * Decrypts a passphrase-encrypted export and previews it.
+   * Returns null when the passphrase is wrong or the file cannot be imported.
+   */
+  async function previewEncryptedImport(jsonString: string, passphrase: string): Promise<ImportPreview | null> {
+    try {
+      return previewImport(await decryptExport(jsonString, passphrase))
+    } catch (error) {
+      console.error('Failed to decrypt profiles:', error)
+      return null
+    }
+  }
+
+  /**
+   * Imports a previewed file. `actions` holds the choice for each preview profile,
+   * defaulting to the suggested one. Like all imports, added profiles start disabled;
+   * a replaced profile keeps its ID and on/off state.
+   */
+  function applyImport(preview: ImportPreview, actions: ImportAction[] = []): ImportResult {
+    const result: ImportResult = { imported: 0, replaced: 0, skipped: 0, addedVariables: 0, warnings: [...preview.warnings] }
+    const importedProfiles: Profile[] = []
+
+    if (preview.profiles.length > IMPORT_SIZE_WARNING_THRESHOLD) {
+      console.warn(`Importing ${preview.profiles.length} profiles may impact performance`)
+    }
+
+    preview.profiles.forEach((item, index) => {
+      const action = actions[index] ?? item.action
+      if (action === 'skip') {
+        result.skipped++
+        return
       }
 
-      // Validate and add profiles
-      for (const profile of data.profiles) {
-        if (!profile.id || !profile.name) continue
-
-        // Generate new IDs to avoid conflicts
-        const newProfile: Profile = {
-          ...profile,
-          id: generateId(),
-          headers: profile.headers?.map((h: HeaderRule) => ({
-            ...h,
-            id: generateId(),
-          })) ?? [],
-          urlFilters: profile.urlFilters?.map((f: UrlFilter) => ({
-            ...f,
-            id: generateId(),
-            matchType: (f as Partial<UrlFilter>).matchType ?? 'dnr_url_filter',
-          })) ?? [],
-          createdAt: Date.now(),
-          updatedAt: Date.now(),
+      if (action === 'replace') {
+        const existingIndex = profiles.value.findIndex(p => p.id === item.existingProfileId)
+        const existing = profiles.value[existingIndex]
+        if (existing) {
+          const replacement: Profile = {
+            ...item.profile,
+            id: existing.id,
+            enabled: existing.enabled,
+            createdAt: existing.createdAt,
+            updatedAt: Date.now(),
+          }
+          profiles.value[existingIndex] = replacement
+          importedProfiles.push(replacement)
+          result.imported++
+          result.replaced++
+          return
         }
-        profiles.value.push(newProfile)
-        importedProfiles.push(newProfile)
+        result.warnings.push(`Profile "${item.profile.name}" no longer exists; it was added as a new profile`)
       }
 
-      if (importedProfiles.length > 0) {
-        seedHeaderSuggestionsFromProfiles(importedProfiles)
+      // Imported profiles start disabled so importing never changes live traffic
+      const added: Profile = { ...item.profile, enabled: false }
+      profiles.value.push(added)
+      importedProfiles.push(added)
+      result.imported++
+    })
+
+    // Global variables are added by name; existing variables keep their values
+    for (const variable of preview.variables) {
+      if (findVariable(variables.value, variable.name.trim())) {
+        result.warnings.push(`Variable "${variable.name.trim()}" already exists; its current value is kept`)
+        continue
       }
+      variables.value.push({ ...variable })
+      result.addedVariables++
+    }
 
-      saveToHistory()
+    if (importedProfiles.length > 0 || result.addedVariables > 0) {
+      seedHeaderSuggestionsFromProfiles(importedProfiles)
+      saveToHistory('import_profiles')
       persistState()
-      return true
+    }
+    return result
+  }
+
+  /**
+   * Imports every profile of an export file as a new profile.
+   * Returns false when the file cannot be imported or contains nothing to import.
+   */
+  function importProfiles(jsonString: string): boolean {
+    const preview = previewImport(jsonString)
+    if (!preview) return false
+
+    const result = applyImport(preview, preview.profiles.map(() => 'add'))
+    for (const warning of result.warnings) {
+      console.warn(warning)
+    }
+    return result.imported > 0 || result.addedVariables > 0
+  }
+
+  /**
+   * Decrypts a passphrase-encrypted export and imports it.
+   * Returns false when the passphrase is wrong or the file cannot be imported.
+   */
+  async function importEncryptedProfiles(jsonString: string, passphrase: string): Promise<boolean> {
+    let plaintext: string
+    try {
+      plaintext = await decryptExport(jsonString, passphrase)
     } catch (error) {
-      console.error('Failed to import profiles:', error)
+      console.error('Failed to decrypt profiles:', error)
       return false
     }
+    return importProfiles(plaintext)
   }
 
   // Cycle dark mode preference: system → dark → light → system
@@ -889,19 +1218,145 @@ export const useHeadersStore = defineStore('headers', () => {
     persistState()
   }
 
+  function setAutoSelectProfile(enabled: boolean): void {
+    autoSelectProfile.value = enabled
+    persistState()
+  }
+
+  /**
+   * Pauses or resumes all header modification. Profiles keep their enabled flags,
+   * and like the other switches outside the profiles this is not an undo step.
+   */
+  function setPaused(value: boolean): void {
+    paused.value = value
+    persistState()
+  }
+
+  /**
+   * Turns syncing through `chrome.storage.sync` on or off. The background script does the syncing.
+   */
+  function setSyncEnabled(enabled: boolean): void {
+    syncEnabled.value = enabled
+    persistState()
+  }
+
+  /**
+   * Settles a profile that was edited on two devices: `local` or `remote` replaces the merged
+   * profile with that version, `merged` keeps it. Secret values and the enabled switch stay as they are here.
+   */
+  function resolveSyncConflict(conflict: SyncConflict, choice: 'local' | 'remote' | 'merged'): void {
+    if (choice !== 'merged') {
+      const index = profiles.value.findIndex(p => p.id === conflict.profileId)
+      const current = profiles.value[index]
+      const chosen: Profile = {
+        ...toLocalProfile(JSON.parse(JSON.stringify(conflict[choice])), current),
+        // Newer than both versions, so the choice wins the next merge
+        updatedAt: Date.now(),
+      }
+      if (index === -1) {
+        profiles.value.push(chosen)
+      } else {
+        profiles.value[index] = chosen
+      }
+      saveToHistory('resolve_sync_conflict')
+      persistState()
+    }
+    dismissSyncConflict(conflict.profileId)
+  }
+
+  /**
+   * Subscribes to a native export at a URL. The background script pulls its profiles right away
+   * and then every hour. Returns false for URLs that are not http(s) or already subscribed.
+   */
+  function addSubscription(url: string): boolean {
+    const trimmed = url.trim()
+    if (!isValidSubscriptionUrl(trimmed) || subscriptions.value.some(s => s.url === trimmed)) return false
+
+    subscriptions.value.push({ id: generateId(), url: trimmed, createdAt: Date.now() })
+    saveToHistory('add_subscription')
+    persistState()
+    return true
+  }
+
+  /**
+   * Unsubscribes and removes the profiles pulled from the subscription; forks are kept
+   */
+  function removeSubscription(subscriptionId: string): void {
+    if (!subscriptions.value.some(s => s.id === subscriptionId)) return
+
+    subscriptions.value = subscriptions.value.filter(s => s.id !== subscriptionId)
+    profiles.value = profiles.value.filter(p => p.subscriptionId !== subscriptionId)
+
+    if (!profiles.value.some(p => p.id === activeProfileId.value)) {
+      activeProfileId.value = profiles.value[0]?.id ?? null
+    }
+    if (profiles.value.length === 0) {
+      const defaultProfile = createEmptyProfile(
+        getMessageForPreference(languagePreference.value, 'profile_default_name', { number: 1 })
+      )
+      profiles.value.push(defaultProfile)
+      activeProfileId.value = defaultProfile.id
+    }
+
+    saveToHistory('remove_subscription')
+    persistState()
+  }
+
+  /**
+   * Copies a subscribed profile into an editable one that pulls leave alone. The fork takes
+   * over the subscribed profile's enabled switch, so its edits apply instead of the original.
+   */
+  function forkProfile(profileId: string): void {
+    const profile = profiles.value.find(p => p.id === profileId)
+    if (!profile?.subscriptionId) return
+
+    const { subscriptionId: _subscriptionId, ...copy } = JSON.parse(JSON.stringify(profile)) as Profile
+    const now = Date.now()
+    const fork: Profile = {
+      ...copy,
+      id: generateId(),
+      name: `${profile.name} ${getMessageForPreference(languagePreference.value, 'profile_fork_suffix')}`,
+      headers: copy.headers.map(h => ({
+        ...h,
+        id: generateId(),
+        ...(h.urlFilters ? { urlFilters: withNewFilterIds(h.urlFilters) } : {}),
+      })),
+      urlFilters: withNewFilterIds(copy.urlFilters),
+      // Variables are looked up by ID across profiles, so copies need their own
+      ...(copy.variables ? { variables: copy.variables.map(v => ({ ...v, id: generateId() })) } : {}),
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    profile.enabled = false
+    profiles.value.splice(profiles.value.indexOf(profile) + 1, 0, fork)
+    activeProfileId.value = fork.id
+    saveToHistory('fork_profile')
+    persistState()
+  }
+
   return {
     // State
     profiles,
     activeProfileId,
     activeProfile,
+    isActiveProfileReadOnly,
+    subscriptions,
+    variables,
     darkModePreference,
     languagePreference,
+    autoSelectProfile,
+    paused,
+    syncEnabled,
     isDarkMode,
     isInitialized,
+    isStateFromNewerVersion,
     requestHeaders,
     responseHeaders,
     canUndo,
     canRedo,
+    undoAction,
+    redoAction,
     getHeaderNameSuggestions,
     getHeaderValueSuggestions,
     removeHeaderNameSuggestion,
@@ -918,7 +1373,10 @@ export const useHeadersStore = defineStore('headers', () => {
     duplicateProfile,
     setActiveProfile,
     updateProfile,
+    toggleProfileEnabled,
+    setProfileSchedule,
     addHeader,
+    addPastedHeaders,
     removeHeader,
     duplicateHeader,
     updateHeader,
@@ -934,10 +1392,27 @@ export const useHeadersStore = defineStore('headers', () => {
     clearUrlFilters,
     exportProfile,
     exportProfiles,
+    exportProfilesToModHeader,
     importProfiles,
+    previewImport,
+    previewEncryptedImport,
+    applyImport,
+    importEncryptedProfiles,
     toggleDarkMode,
     setDarkModePreference,
     setLanguagePreference,
+    setAutoSelectProfile,
+    setPaused,
+    setSyncEnabled,
+    resolveSyncConflict,
+    addSubscription,
+    removeSubscription,
+    forkProfile,
     reorderUrlFilters,
+    addVariable,
+    updateVariable,
+    removeVariable,
+    clearVariables,
+    hasSecretsToExport,
   }
 })
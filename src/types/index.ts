@@ -26,15 +26,47 @@ export interface ModHeaderHeader {
   comment?: string
 }
 
+export interface ModHeaderUrlFilter {
+  enabled: boolean
+  /** Regex matched against the request URL */
+  urlRegex: string
+  comment?: string
+}
+
+export interface ModHeaderResourceFilter {
+  enabled: boolean
+  resourceType: string[]
+}
+
 export interface ModHeaderProfile {
   headers: ModHeaderHeader[]
   respHeaders?: ModHeaderHeader[]
+  urlFilters?: ModHeaderUrlFilter[]
+  excludeUrlFilters?: ModHeaderUrlFilter[]
+  resourceFilters?: ModHeaderResourceFilter[]
   hideComment?: boolean
   shortTitle?: string
   title: string
   version?: number
 }
 
+/** Something in a profile that ModHeader cannot express exactly */
+export interface ModHeaderExportWarning {
+  code: 'tab_filter' | 'header_scope' | 'invalid_filter' | 'request_methods' | 'resource_types' | 'template'
+  /** Name of the affected profile */
+  profile: string
+  /** Name of the affected header, for header-level warnings */
+  header?: string
+  /** The affected pattern or values */
+  detail?: string
+}
+
+export interface ModHeaderExport {
+  /** ModHeader profiles as a JSON string */
+  data: string
+  warnings: ModHeaderExportWarning[]
+}
+
 /**
  * Validates that an object has the structure of a ModHeader header
  */
@@ -135,6 +167,10 @@ export interface HeaderRule {
   comment: string
   type: HeaderType
   operation: HeaderOperation
+  /** Optional scope narrowing where this header is sent, on top of the profile's URL filters */
+  urlFilters?: UrlFilter[]
+  /** When the header was last edited; decides between two edits when synced profiles are merged */
+  updatedAt?: number
 }
 
 export type UrlFilterMatchType =
@@ -147,31 +183,270 @@ export type UrlFilterMatchType =
   | 'dnr_url_filter'
   | 'regex'
 
+/** Which URL a filter is matched against: the tab's top-level URL or each request's own URL */
+export type UrlFilterTarget = 'tab' | 'request'
+
 export interface UrlFilter {
   id: string
   enabled: boolean
   matchType: UrlFilterMatchType
   pattern: string
   type: 'include' | 'exclude'
+  /** Defaults to 'tab' */
+  target?: UrlFilterTarget
 }
 
+export const RESOURCE_TYPES = [
+  'main_frame',
+  'sub_frame',
+  'stylesheet',
+  'script',
+  'image',
+  'font',
+  'object',
+  'xmlhttprequest',
+  'ping',
+  'csp_report',
+  'media',
+  'websocket',
+  'webtransport',
+  'webbundle',
+  'other',
+] as const
+
+/** A declarativeNetRequest resource type */
+export type ResourceType = typeof RESOURCE_TYPES[number]
+
+export const REQUEST_METHODS = [
+  'get',
+  'post',
+  'put',
+  'patch',
+  'delete',
+  'head',
+  'options',
+  'connect',
+  'other',
+] as const
+
+/** A declarativeNetRequest request method (lowercase, as Chrome expects) */
+export type RequestMethod = typeof REQUEST_METHODS[number]
+
 export interface Profile {
   id: string
   name: string
   color: string
+  /** Whether this profile's rules are applied. Several profiles can be enabled at once. */
+  enabled?: boolean
   headers: HeaderRule[]
   urlFilters: UrlFilter[]
+  /** Resource types to modify; empty or missing means all */
+  resourceTypes?: ResourceType[]
+  /** HTTP methods to modify; empty or missing means all */
+  requestMethods?: RequestMethod[]
+  /** Variables only this profile's headers can reference; they override global variables with the same name */
+  variables?: TemplateVariable[]
+  /** Limits when an enabled profile applies; missing means always */
+  schedule?: ProfileSchedule
+  /** The subscription this profile is pulled from; such profiles are read-only until forked */
+  subscriptionId?: string
   createdAt: number
   updatedAt: number
 }
 
+/**
+ * A weekly time window in local time. A window whose end is not after its start
+ * runs past midnight into the next day.
+ */
+export interface ScheduleWindow {
+  id: string
+  /** Days the window starts on, 0 (Sunday) to 6 (Saturday) */
+  days: number[]
+  /** Minutes after midnight */
+  start: number
+  /** Minutes after midnight */
+  end: number
+}
+
+export interface ProfileSchedule {
+  /** When the profile stops applying (ms since epoch) */
+  expiresAt?: number
+  /** The profile only applies inside one of these windows; empty means at any time */
+  windows?: ScheduleWindow[]
+}
+
+/** A user-defined value that header values can reference as `{{name}}` or `{{env.name}}` */
+export interface TemplateVariable {
+  id: string
+  name: string
+  value: string
+  /** Secret values are masked in the UI and left out of exports unless the user opts in */
+  secret?: boolean
+}
+
+export interface ExportOptions {
+  /** Include the values of secret variables in the export */
+  includeSecrets?: boolean
+}
+
+export type ImportFormat = 'openheaders' | 'modheader' | 'requestly' | 'header_editor'
+
+/** What to do with one profile of an import */
+export type ImportAction = 'skip' | 'add' | 'replace'
+
+export interface ImportPreviewProfile {
+  /** The converted profile, with new IDs */
+  profile: Profile
+  /** Existing profile with the same name, which `replace` overwrites */
+  existingProfileId: string | null
+  /** Suggested action: `add` for new names, `skip` for names that already exist */
+  action: ImportAction
+}
+
+export interface ImportPreview {
+  format: ImportFormat
+  profiles: ImportPreviewProfile[]
+  /** Global variables in the export */
+  variables: TemplateVariable[]
+  /** Parts of the file that could not be converted */
+  warnings: string[]
+}
+
+export interface ImportResult {
+  /** Profiles added or replaced */
+  imported: number
+  /** Of `imported`, how many replaced an existing profile */
+  replaced: number
+  skipped: number
+  /** Global variables added; ones whose name already exists are kept as they are */
+  addedVariables: number
+  warnings: string[]
+}
+
+/** A header change made by a matched rule */
+export interface RequestLogHeader {
+  name: string
+  operation: HeaderOperation
+  type: HeaderType
+}
+
+/** The profile and header changes behind one session rule */
+export interface RequestLogRule {
+  profileId: string
+  profileName: string
+  headers: RequestLogHeader[]
+}
+
+/**
+ * Where the request log comes from: `debug` lists every request as it happens
+ * (development installs only), `matched_rules` asks Chrome which rules matched recently
+ */
+export type RequestLogSource = 'debug' | 'matched_rules'
+
+export interface RequestLogEntry {
+  id: string
+  timeStamp: number
+  /** -1 for requests that do not belong to a tab */
+  tabId: number
+  /** The request URL; null when Chrome does not report it */
+  url: string | null
+  /** The top-level URL of the tab, when known */
+  tabUrl: string | null
+  method?: string
+  resourceType?: string
+  ruleId: number
+  /** null when the rule in effect at `timeStamp` is no longer known */
+  rule: RequestLogRule | null
+}
+
+export interface RequestLog {
+  source: RequestLogSource
+  entries: RequestLogEntry[]
+}
+
+/** A session rule Chrome refused to add, as reported by the background script */
+export interface RuleFailure {
+  ruleId: number
+  profileId: string | null
+  profileName: string | null
+  /** Names of the headers the rule modifies */
+  headers: string[]
+  /** Chrome's error message */
+  message: string
+}
+
+/**
+ * What is shared through `chrome.storage.sync`. Secret variable values are left empty
+ * and profiles carry no `enabled` flag: both stay on each device.
+ */
+export interface SyncPayload {
+  profiles: Profile[]
+  variables: TemplateVariable[]
+}
+
+/** A profile edited on this device and another one since they last synced */
+export interface SyncConflict {
+  profileId: string
+  profileName: string
+  /** This device's version, as synced */
+  local: Profile
+  /** The other device's version, as synced */
+  remote: Profile
+  detectedAt: number
+}
+
+export type SyncError = 'too_large' | 'newer_version' | 'failed'
+
+export interface SyncStatus {
+  lastSyncedAt: number | null
+  error: SyncError | null
+  /** Chrome's error message, for `failed` */
+  message?: string
+}
+
+/** A native export at a URL whose profiles are pulled in and kept up to date */
+export interface ProfileSubscription {
+  id: string
+  url: string
+  createdAt: number
+}
+
+export type SubscriptionError = 'fetch_failed' | 'invalid_format'
+
+export interface SubscriptionStatus {
+  /** When the profiles were last pulled successfully */
+  lastSyncedAt: number | null
+  lastCheckedAt: number
+  error: SubscriptionError | null
+  /** The HTTP status or parse error, for errors */
+  message?: string
+  /** Profiles in the last successful pull */
+  profileCount?: number
+}
+
+/** The profile the background script picked for the focused tab in auto mode */
+export interface AutoProfileSelection {
+  profileId: string | null
+  url: string | null
+}
+
 export interface AppState {
+  /** Version of the saved shape; older states are migrated on load (see `lib/migrations.ts`) */
+  schemaVersion?: number
   profiles: Profile[]
   activeProfileId: string | null
   darkModePreference: DarkModePreference
   languagePreference: LanguagePreference
+  /** Select the profile whose URL filters match the focused tab */
+  autoSelectProfile?: boolean
+  /** Stops all header modification while keeping each profile's enabled flag */
+  paused?: boolean
+  /** Share profiles and global variables with other browsers through `chrome.storage.sync` */
+  syncEnabled?: boolean
+  subscriptions?: ProfileSubscription[]
   headerSuggestions?: HeaderSuggestionsState
   urlPatternHistory?: Record<string, string[]>
+  variables?: TemplateVariable[]
 }
 
 export interface ValueSuggestion {
@@ -185,9 +460,61 @@ export interface HeaderSuggestionsState {
   hiddenNames?: string[]
 }
 
+/** The edit an undo step undoes; shown as `history_action_<action>` in the undo and redo tooltips */
+export type HistoryAction =
+  | 'outside_change'
+  | 'add_profile'
+  | 'remove_profile'
+  | 'duplicate_profile'
+  | 'update_profile'
+  | 'toggle_profile'
+  | 'schedule_profile'
+  | 'reorder_profiles'
+  | 'fork_profile'
+  | 'add_header'
+  | 'paste_headers'
+  | 'remove_header'
+  | 'duplicate_header'
+  | 'update_header'
+  | 'toggle_header'
+  | 'clear_headers'
+  | 'sort_headers'
+  | 'reorder_headers'
+  | 'remove_suggestion'
+  | 'add_url_filter'
+  | 'duplicate_url_filter'
+  | 'remove_url_filter'
+  | 'update_url_filter'
+  | 'clear_url_filters'
+  | 'reorder_url_filters'
+  | 'add_variable'
+  | 'update_variable'
+  | 'remove_variable'
+  | 'clear_variables'
+  | 'import_profiles'
+  | 'resolve_sync_conflict'
+  | 'add_subscription'
+  | 'remove_subscription'
+
+/** A path into a JSON value: object keys and array indexes */
+export type JsonPath = (string | number)[]
+
+/**
+ * One change to a JSON value: sets the value at `path`, deletes the key at `path`
+ * when there is no `value`, or replaces `deleteCount` items of the array at `path`
+ */
+export type JsonPatch =
+  | { path: JsonPath, value: unknown }
+  | { path: JsonPath }
+  | { path: JsonPath, splice: [start: number, deleteCount: number, items: unknown[]] }
+
 export interface HistoryEntry {
-  state: AppState
+  action: HistoryAction
   timestamp: number
+  /** Turns the state before the action into the state after it */
+  redo: JsonPatch[]
+  /** Turns the state after the action back into the state before it */
+  undo: JsonPatch[]
 }
 
 export const DEFAULT_PROFILE_COLORS = [
@@ -228,6 +555,7 @@ export function createEmptyProfile(name = 'Profile 1'): Profile {
     id: generateId(),
     name,
     color: DEFAULT_PROFILE_COLORS[0] ?? '#7c3aed',
+    enabled: true,
     headers: [],
     urlFilters: [],
     createdAt: Date.now(),